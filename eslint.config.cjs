@@ -40,7 +40,8 @@ module.exports = [
         EventSource: 'readonly',
         URL: 'readonly',
         setInterval: 'readonly',
-        clearInterval: 'readonly'
+        clearInterval: 'readonly',
+        structuredClone: 'readonly'
       }
     },
     plugins: {
@@ -1,22 +1,42 @@
 #!/usr/bin/env node
 
-import { readFile, readdir, stat } from "node:fs/promises";
+import { randomBytes } from "node:crypto";
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
 import { join } from "node:path";
 import { parseArgs } from "node:util";
 import {
+  analyzeDependencies,
+  assertOutputMode,
   createAgentRuntime,
   createApiServer,
+  createKanbanStorage,
+  EventLog,
   KanbanManager,
   loadConfig,
   globalEventBus,
   Orchestrator,
+  RunManager,
   type AgentConfig,
   type AgentMessage,
   type AgentEvent,
+  type PersistedEvent,
+  type SchedulerControl,
 } from "@arkaledge/core";
 
 async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+  if (argv[0] === "events") {
+    await eventsCommand(argv.slice(1));
+    return;
+  }
+  if (argv[0] === "graph") {
+    await graphCommand(argv.slice(1));
+    return;
+  }
+
   const { values } = parseArgs({
+    args: argv[0] === "run" ? argv.slice(1) : argv,
     options: {
       prompt: { type: "string", short: "p" },
       sdk: { type: "string", short: "s", default: "claude" },
@@ -25,17 +45,44 @@ async function main(): Promise<void> {
       spec: { type: "string" },
       output: { type: "string", short: "o" },
       resume: { type: "boolean", default: false },
+      serve: { type: "boolean", default: false },
       workdir: { type: "string", short: "w", default: process.cwd() },
       help: { type: "boolean", short: "h", default: false },
     },
     strict: true,
   });
 
-  if (values.help || (!values.prompt && !values.spec)) {
+  if (values.help || (!values.prompt && !values.spec && !values.serve)) {
     printUsage();
     process.exit(values.help ? 0 : 1);
   }
 
+  // ── Serve mode: dashboard API only; runs are launched via POST /api/runs ──
+  if (values.serve) {
+    globalEventBus.on("*", (event: AgentEvent) => {
+      const icon = eventIcon(event.type);
+      console.log(`${icon} [${event.agentRole}] ${event.summary}`);
+    });
+
+    const runManager = new RunManager(globalEventBus);
+    const apiToken = resolveApiToken();
+    const apiServer = createApiServer({ runManager, eventBus: globalEventBus, port: 4400, authToken: apiToken });
+    console.log("\n📡 Dashboard API: http://localhost:4400 (waiting for runs)");
+    if (!process.env.ARKALEDGE_API_TOKEN) {
+      console.log(`🔑 API token (for POST/PATCH/DELETE): ${apiToken}`);
+    }
+
+    const shutdown = () => {
+      console.log("\n🛑 Shutting down...");
+      apiServer.close();
+      runManager.stopAll().then(() => process.exit(0));
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+    wireSchedulerSignals(() => runManager.getActiveScheduler());
+    return;
+  }
+
   // ── Orchestration mode: --spec or (--config + --prompt) ──
   if (values.spec || (values.config && values.prompt)) {
     const spec = values.spec
@@ -60,11 +107,28 @@ async function main(): Promise<void> {
 
     const orchestrator = new Orchestrator(config, outputDir);
 
+    // Persist every event to <output>/.arkaledge/events.jsonl for replay
+    const eventLog = new EventLog(outputDir);
+    await eventLog.init();
+    eventLog.attach(globalEventBus);
+
     // Start Dashboard API server
-    const kanban = new KanbanManager(outputDir, globalEventBus);
+    const kanban = new KanbanManager(outputDir, globalEventBus, createKanbanStorage(outputDir, config.workflow.storage));
     await kanban.init();
-    const apiServer = createApiServer({ kanban, eventBus: globalEventBus, port: 4400 });
+    const apiToken = resolveApiToken();
+    const apiServer = createApiServer({
+      kanban,
+      eventLog,
+      scheduler: orchestrator,
+      usage: orchestrator,
+      eventBus: globalEventBus,
+      port: 4400,
+      authToken: apiToken,
+    });
     console.log('📡 Dashboard API: http://localhost:4400');
+    if (!process.env.ARKALEDGE_API_TOKEN) {
+      console.log(`🔑 API token (for POST/PATCH/DELETE): ${apiToken}`);
+    }
 
     // Graceful shutdown
     const shutdown = () => {
@@ -74,10 +138,15 @@ async function main(): Promise<void> {
     };
     process.on("SIGINT", shutdown);
     process.on("SIGTERM", shutdown);
+    wireSchedulerSignals(() => orchestrator);
 
     try {
       await orchestrator.start(spec);
-      console.log("\n✅ All tasks complete\n");
+      if (orchestrator.getSchedulerMode() === "draining") {
+        console.log("\n⏹️  Drained — rerun with --resume to continue\n");
+      } else {
+        console.log("\n✅ All tasks complete\n");
+      }
     } catch (error) {
       console.error(
         "\n❌ Orchestration error:",
@@ -150,6 +219,101 @@ async function main(): Promise<void> {
   }
 }
 
+/** `arkaledge events` — print or filter the persisted event log of a run. */
+async function eventsCommand(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      output: { type: "string", short: "o", default: "./output" },
+      type: { type: "string", short: "t", multiple: true },
+      agent: { type: "string", short: "a" },
+      task: { type: "string" },
+      since: { type: "string" },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+    strict: true,
+  });
+
+  if (values.help) {
+    printUsage();
+    return;
+  }
+
+  const since = values.since !== undefined ? Number(values.since) : undefined;
+  if (since !== undefined && (!Number.isInteger(since) || since < 0)) {
+    throw new Error(`--since must be a non-negative event id, got "${values.since}"`);
+  }
+
+  const eventLog = new EventLog(values.output ?? "./output");
+  const events = await eventLog.read({
+    afterId: since,
+    types: values.type,
+    agentId: values.agent,
+    taskId: values.task,
+  });
+
+  for (const event of events) {
+    console.log(values.json ? JSON.stringify(event) : formatLoggedEvent(event));
+  }
+}
+
+/** `arkaledge graph` — check a run's task dependencies and print its schedule. */
+async function graphCommand(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      output: { type: "string", short: "o", default: "./output" },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+    strict: true,
+  });
+
+  if (values.help) {
+    printUsage();
+    return;
+  }
+
+  const outputDir = values.output ?? "./output";
+  const boardDir = join(outputDir, ".arkaledge");
+  if (!existsSync(join(boardDir, "kanban.json")) && !existsSync(join(boardDir, "kanban.db"))) {
+    throw new Error(`No task board found in ${boardDir}`);
+  }
+  const { tasks } = await createKanbanStorage(outputDir).read();
+  const graph = analyzeDependencies(tasks);
+
+  if (values.json) {
+    console.log(JSON.stringify(graph, null, 2));
+    return;
+  }
+
+  const titles = new Map(tasks.map((task) => [task.id, task.title]));
+  const label = (id: string): string => (titles.has(id) ? `"${titles.get(id)}" (${id})` : id);
+
+  console.log(`Critical path (${graph.criticalPath.length}): ${graph.criticalPath.map(label).join(" → ") || "none"}`);
+  console.log("\nSchedule:");
+  graph.schedule.forEach((wave, i) => console.log(`  ${i + 1}. ${wave.map(label).join(", ")}`));
+  for (const cycle of graph.cycles) {
+    console.log(`\n❌ Cycle: ${[...cycle, cycle[0]].map(label).join(" → ")}`);
+  }
+  for (const { taskId, dependsOn } of graph.dangling) {
+    console.log(`\n❌ ${label(taskId)} depends on unknown task ${dependsOn}`);
+  }
+  if (graph.unschedulable.length > 0) {
+    console.log("\nUnschedulable:");
+    for (const { taskId, reason, chain } of graph.unschedulable) {
+      console.log(`  ${label(taskId)} — ${reason}: ${[taskId, ...chain].map(label).join(" → ")}`);
+    }
+  }
+}
+
+function formatLoggedEvent(event: PersistedEvent): string {
+  const time = new Date(event.timestamp).toISOString();
+  const taskId = typeof event.data?.taskId === "string" ? ` (${event.data.taskId})` : "";
+  return `#${event.id} ${time} ${eventIcon(event.type)} [${event.agentRole}] ${event.type} ${event.summary}${taskId}`;
+}
+
 function printMessage(msg: AgentMessage): void {
   switch (msg.type) {
     case "text":
@@ -180,39 +344,26 @@ function eventIcon(type: string): string {
   return "💬";
 }
 
-async function assertOutputMode(outputDir: string, resume: boolean): Promise<void> {
-  const outputExists = await pathExists(outputDir);
-  const kanbanPath = join(outputDir, ".arkaledge", "kanban.json");
-  const hasKanban = await pathExists(kanbanPath);
+/**
+ * SIGUSR1 toggles pause/resume and SIGUSR2 drains the Scrum Master, so
+ * credentials or config can be fixed without losing in-flight sessions.
+ */
+function wireSchedulerSignals(getScheduler: () => SchedulerControl | undefined): void {
+  console.log(`⏯️  Scheduler control: kill -USR1 ${process.pid} (pause/resume), kill -USR2 ${process.pid} (drain)`);
 
-  if (resume) {
-    if (!outputExists || !hasKanban) {
-      throw new Error(
-        `Cannot resume: expected existing run state at ${kanbanPath}. `
-        + "Use a prior output directory or run without --resume for a fresh project.",
-      );
-    }
-    return;
-  }
-
-  if (!outputExists) return;
-
-  const entries = await readdir(outputDir);
-  if (entries.length > 0) {
-    throw new Error(
-      `Output directory is not empty: ${outputDir}. `
-      + "Use a fresh --output directory, or rerun with --resume to continue an existing run.",
-    );
-  }
+  process.on("SIGUSR1", () => {
+    const scheduler = getScheduler();
+    if (!scheduler) return;
+    if (scheduler.getSchedulerMode() === "running") scheduler.pause();
+    else scheduler.resume();
+  });
+  process.on("SIGUSR2", () => {
+    getScheduler()?.drain();
+  });
 }
 
-async function pathExists(path: string): Promise<boolean> {
-  try {
-    await stat(path);
-    return true;
-  } catch {
-    return false;
-  }
+function resolveApiToken(): string {
+  return process.env.ARKALEDGE_API_TOKEN ?? randomBytes(24).toString("hex");
 }
 
 function printUsage(): void {
@@ -222,6 +373,9 @@ Arkaledge — Autonomous AI Scrum Team Platform
 Usage:
   arkaledge run --prompt "..." [options]
   arkaledge run --spec <path> --config <path> [options]
+  arkaledge run --serve
+  arkaledge events [--output <path>] [filters]
+  arkaledge graph [--output <path>] [--json]
 
 Options:
   -p, --prompt   Task prompt for the agent (required for single-agent mode)
@@ -231,9 +385,30 @@ Options:
       --spec     Path to product spec file (triggers orchestration mode)
   -o, --output   Output directory for orchestrated project (default: ./output)
       --resume   Resume an existing orchestration run in --output
+      --serve    Start only the dashboard API; launch and control runs from the dashboard
   -w, --workdir  Working directory (default: current directory)
   -h, --help     Show this help message
 
+Events options:
+  -o, --output   Output directory of the run (default: ./output)
+  -t, --type     Event type to include, repeatable; "task:" matches a prefix
+  -a, --agent    Only events from this agent id
+      --task     Only events for this task id
+      --since    Only events after this event id
+      --json     Print raw JSON lines
+
+Graph options (dependency cycles, unknown dependencies, schedule, critical path):
+  -o, --output   Output directory of the run (default: ./output)
+      --json     Print the report as JSON
+
+Signals (orchestration and --serve modes):
+  SIGUSR1  Pause the Scrum Master (active work finishes, nothing new starts); send again to resume
+  SIGUSR2  Drain: finish active work, then exit the run
+
+Environment:
+  ARKALEDGE_API_TOKEN  Bearer token for mutating dashboard API routes
+                       (a random token is generated and printed if unset)
+
 Examples:
   # Single agent
   arkaledge run -p "Create a hello world Express app" -s claude
@@ -242,6 +417,13 @@ Examples:
   arkaledge run --spec ./spec.md --config ./team-config.yaml --output /tmp/myproject
   arkaledge run --spec ./spec.md --config ./team-config.yaml --output /tmp/myproject --resume
   arkaledge run -p "Build a calculator CLI" -c ./team-config.yaml -o /tmp/calc
+
+  # Dashboard-driven runs
+  arkaledge run --serve
+
+  # Inspect a finished run
+  arkaledge events -o /tmp/myproject --type review: --type agent:error
+  arkaledge graph -o /tmp/myproject
 `);
 }
 
@@ -2,10 +2,11 @@ import type { AgentConfig } from "../types.js";
 import type { AgentRuntime } from "./agent-runtime.js";
 import { ClaudeAgentRuntime } from "./claude-runtime.js";
 import { CodexAgentRuntime } from "./codex-runtime.js";
+import { MockAgentRuntime } from "./mock-runtime.js";
 
 /**
  * Creates the appropriate AgentRuntime from an AgentConfig.
- * Routes to ClaudeAgentRuntime or CodexAgentRuntime based on the sdk field.
+ * Routes to ClaudeAgentRuntime, CodexAgentRuntime or MockAgentRuntime based on the sdk field.
  */
 export function createAgentRuntime(config: AgentConfig): AgentRuntime {
   const id = config.id ?? `${config.role}-${Date.now()}`;
@@ -15,6 +16,11 @@ export function createAgentRuntime(config: AgentConfig): AgentRuntime {
       return new ClaudeAgentRuntime(id, config.model, config.tools);
     case "codex":
       return new CodexAgentRuntime(id, config.model);
+    case "mock":
+      if (!config.fixture) {
+        throw new Error(`Agent ${id} uses the mock SDK but has no fixture`);
+      }
+      return new MockAgentRuntime(id, config.model, config.fixture);
     default:
       throw new Error(`Unknown SDK type: ${config.sdk as string}`);
   }
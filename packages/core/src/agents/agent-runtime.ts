@@ -1,3 +1,4 @@
+import type { PluginTool } from "../plugins/plugin-types.js";
 import type { AgentMessage, RunOptions, SdkType } from "../types.js";
 
 export interface ResumeOptions {
@@ -28,6 +29,12 @@ export interface AgentRuntime {
     options?: ResumeOptions,
   ): AsyncIterable<AgentMessage>;
 
+  /**
+   * Expose plugin tools to subsequent runs in the SDK's native tool format.
+   * Calls and results stream back as `tool_call` / `tool_result` messages.
+   */
+  registerTools(tools: PluginTool[]): void;
+
   /**
    * Abort the currently running agent.
    */
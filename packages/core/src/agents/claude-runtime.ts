@@ -1,6 +1,12 @@
-import type { AgentMessage, RunOptions, SdkType } from "../types.js";
+import { z } from "zod";
+import type { PluginTool } from "../plugins/plugin-types.js";
+import type { AgentMessage, MessageUsage, RunOptions, SdkType } from "../types.js";
 import type { AgentRuntime, ResumeOptions } from "./agent-runtime.js";
 
+const PLUGIN_MCP_SERVER_NAME = "arkaledge-plugins";
+
+type ClaudeSdk = typeof import("@anthropic-ai/claude-agent-sdk");
+
 /**
  * Claude Agent SDK adapter.
  *
@@ -10,6 +16,7 @@ import type { AgentRuntime, ResumeOptions } from "./agent-runtime.js";
 export class ClaudeAgentRuntime implements AgentRuntime {
   readonly sdk: SdkType = "claude";
   private abortController: AbortController | null = null;
+  private pluginTools: PluginTool[] = [];
 
   constructor(
     readonly id: string,
@@ -27,10 +34,9 @@ export class ClaudeAgentRuntime implements AgentRuntime {
   async *run(prompt: string, options: RunOptions): AsyncIterable<AgentMessage> {
     this.abortController = new AbortController();
 
-    let query: typeof import("@anthropic-ai/claude-agent-sdk").query;
+    let sdk: ClaudeSdk;
     try {
-      const sdk = await import("@anthropic-ai/claude-agent-sdk");
-      query = sdk.query;
+      sdk = await import("@anthropic-ai/claude-agent-sdk");
     } catch {
       yield {
         type: "error",
@@ -43,21 +49,33 @@ export class ClaudeAgentRuntime implements AgentRuntime {
 
     const fullPrompt = `${options.systemPrompt}\n\n${prompt}`;
 
+    // Plugin tool handlers run in-process while the query stream is suspended;
+    // their call/result messages are buffered and flushed in stream order.
+    const pluginMessages: AgentMessage[] = [];
+    const mcpServers = this.buildPluginMcpServers(sdk, pluginMessages);
+    const allowedTools = [
+      ...(options.tools ?? this.allowedTools),
+      ...this.pluginTools.map((pluginTool) => `mcp__${PLUGIN_MCP_SERVER_NAME}__${pluginTool.name}`),
+    ];
+
     try {
-      for await (const message of query({
+      for await (const message of sdk.query({
         prompt: fullPrompt,
         options: {
-          allowedTools: options.tools ?? this.allowedTools,
+          allowedTools,
           permissionMode: "bypassPermissions",
           model: this.model,
           cwd: options.workingDirectory,
+          ...(mcpServers && { mcpServers }),
           ...(this.abortController && {
             abortController: this.abortController,
           }),
         },
       })) {
+        yield* pluginMessages.splice(0);
         yield this.transformMessage(message);
       }
+      yield* pluginMessages.splice(0);
     } catch (error) {
       if (this.abortController?.signal.aborted) return;
       yield {
@@ -80,12 +98,69 @@ export class ClaudeAgentRuntime implements AgentRuntime {
     });
   }
 
+  registerTools(tools: PluginTool[]): void {
+    this.pluginTools = [...tools];
+  }
+
   async abort(): Promise<void> {
     this.abortController?.abort();
     this.abortController = null;
   }
 
+  /** Wrap plugin tools in an in-process SDK MCP server. */
+  private buildPluginMcpServers(
+    sdk: ClaudeSdk,
+    sink: AgentMessage[],
+  ): Record<string, ReturnType<ClaudeSdk["createSdkMcpServer"]>> | undefined {
+    if (this.pluginTools.length === 0) return undefined;
+
+    const tools = this.pluginTools.map((pluginTool) => {
+      const { shape, wrapped } = toZodShape(pluginTool.parameters);
+      return sdk.tool(pluginTool.name, pluginTool.description, shape, async (args) => {
+        const input = wrapped ? args.input : args;
+        sink.push({
+          type: "tool_call",
+          content: JSON.stringify({ tool: pluginTool.name, input }),
+          timestamp: Date.now(),
+          metadata: { plugin: true },
+        });
+
+        try {
+          const output = await pluginTool.execute(input);
+          sink.push({
+            type: "tool_result",
+            content: output,
+            timestamp: Date.now(),
+            metadata: { plugin: true, tool: pluginTool.name },
+          });
+          return { content: [{ type: "text", text: output }] };
+        } catch (error) {
+          const detail = error instanceof Error ? error.message : String(error);
+          sink.push({
+            type: "error",
+            content: `Plugin tool ${pluginTool.name} failed: ${detail}`,
+            timestamp: Date.now(),
+            metadata: { plugin: true, tool: pluginTool.name },
+          });
+          return { content: [{ type: "text", text: detail }], isError: true };
+        }
+      });
+    });
+
+    return {
+      [PLUGIN_MCP_SERVER_NAME]: sdk.createSdkMcpServer({ name: PLUGIN_MCP_SERVER_NAME, tools }),
+    };
+  }
+
+  /** Normalize an SDK message, attaching token usage from "result" messages. */
   private transformMessage(message: unknown): AgentMessage {
+    const transformed = this.transformMessageContent(message);
+    const usage = extractResultUsage(message, this.model);
+    if (!usage) return transformed;
+    return { ...transformed, metadata: { ...transformed.metadata, usage } };
+  }
+
+  private transformMessageContent(message: unknown): AgentMessage {
     // The Claude Agent SDK emits various message types.
     // We normalize them into our unified format.
     const msg = message as Record<string, unknown>;
@@ -172,3 +247,39 @@ export class ClaudeAgentRuntime implements AgentRuntime {
     };
   }
 }
+
+/**
+ * The SDK's final "result" message carries cumulative usage for the query.
+ * Cache writes are billed as input; cache reads are reported separately.
+ */
+function extractResultUsage(message: unknown, model: string): MessageUsage | undefined {
+  const msg = message as Record<string, unknown>;
+  if (msg.type !== "result" || typeof msg.usage !== "object" || msg.usage === null) return undefined;
+
+  const usage = msg.usage as Record<string, unknown>;
+  const count = (value: unknown): number => (typeof value === "number" ? value : 0);
+  return {
+    model,
+    inputTokens: count(usage.input_tokens) + count(usage.cache_creation_input_tokens),
+    cachedInputTokens: count(usage.cache_read_input_tokens),
+    outputTokens: count(usage.output_tokens),
+  };
+}
+
+/**
+ * Convert a plugin's JSON-schema parameters into the zod raw shape the SDK
+ * `tool()` helper expects. Non-object schemas are wrapped under an `input` key.
+ */
+function toZodShape(parameters: object): { shape: Record<string, z.ZodType>; wrapped: boolean } {
+  let schema: z.ZodType;
+  try {
+    schema = z.fromJSONSchema(parameters as Parameters<typeof z.fromJSONSchema>[0]);
+  } catch {
+    schema = z.unknown();
+  }
+
+  if (schema instanceof z.ZodObject) {
+    return { shape: schema.shape as Record<string, z.ZodType>, wrapped: false };
+  }
+  return { shape: { input: schema }, wrapped: true };
+}
@@ -1,7 +1,11 @@
-import type { ThreadEvent, ThreadItem } from "@openai/codex-sdk";
-import type { AgentMessage, RunOptions, SdkType } from "../types.js";
+import type { CodexOptions, ThreadEvent, ThreadItem } from "@openai/codex-sdk";
+import { PluginToolServer } from "../plugins/plugin-tool-server.js";
+import type { PluginTool } from "../plugins/plugin-types.js";
+import type { AgentMessage, MessageUsage, RunOptions, SdkType } from "../types.js";
 import type { AgentRuntime, ResumeOptions } from "./agent-runtime.js";
 
+const PLUGIN_MCP_SERVER_NAME = "arkaledge-plugins";
+
 /**
  * Codex SDK adapter.
  *
@@ -11,6 +15,7 @@ export class CodexAgentRuntime implements AgentRuntime {
   readonly sdk: SdkType = "codex";
   private abortController: AbortController | null = null;
   private currentThreadId: string | null = null;
+  private pluginToolServer: PluginToolServer | null = null;
 
   constructor(
     readonly id: string,
@@ -35,6 +40,13 @@ export class CodexAgentRuntime implements AgentRuntime {
     }, sessionId);
   }
 
+  registerTools(tools: PluginTool[]): void {
+    void this.pluginToolServer?.stop();
+    this.pluginToolServer = tools.length > 0
+      ? new PluginToolServer({ name: PLUGIN_MCP_SERVER_NAME, tools: [...tools] })
+      : null;
+  }
+
   async abort(): Promise<void> {
     this.abortController?.abort();
     this.abortController = null;
@@ -59,7 +71,7 @@ export class CodexAgentRuntime implements AgentRuntime {
     this.abortController = new AbortController();
 
     try {
-      const codex = new sdk.Codex();
+      const codex = new sdk.Codex(await this.buildCodexOptions());
       const threadOptions = {
         model: this.model,
         approvalPolicy: "never" as const,
@@ -97,6 +109,22 @@ export class CodexAgentRuntime implements AgentRuntime {
     }
   }
 
+  /**
+   * The Codex CLI runs out of process, so plugin tools are served over a
+   * loopback MCP endpoint registered through `mcp_servers` config.
+   */
+  private async buildCodexOptions(): Promise<CodexOptions | undefined> {
+    if (!this.pluginToolServer) return undefined;
+    const url = await this.pluginToolServer.start();
+    return {
+      config: {
+        mcp_servers: {
+          [PLUGIN_MCP_SERVER_NAME]: { url },
+        },
+      },
+    };
+  }
+
   private async loadSdk(): Promise<typeof import("@openai/codex-sdk") | null> {
     try {
       return await import("@openai/codex-sdk");
@@ -120,7 +148,16 @@ export class CodexAgentRuntime implements AgentRuntime {
           content:
             `Usage(in=${event.usage.input_tokens}, cached=${event.usage.cached_input_tokens}, out=${event.usage.output_tokens})`,
           timestamp: Date.now(),
-          metadata: { raw: event },
+          metadata: {
+            raw: event,
+            // Codex input_tokens include cached tokens; report them separately
+            usage: {
+              model: this.model,
+              inputTokens: Math.max(0, event.usage.input_tokens - event.usage.cached_input_tokens),
+              cachedInputTokens: event.usage.cached_input_tokens,
+              outputTokens: event.usage.output_tokens,
+            } satisfies MessageUsage,
+          },
         };
 
       case "turn.failed":
@@ -0,0 +1,250 @@
+import { execFile } from "node:child_process";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, isAbsolute, relative, resolve } from "node:path";
+import { nanoid } from "nanoid";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import type { PluginTool } from "../plugins/plugin-types.js";
+import type { AgentMessage, MessageUsage, RunOptions, SdkType } from "../types.js";
+import type { AgentRuntime, ResumeOptions } from "./agent-runtime.js";
+
+const SHELL_TIMEOUT_MS = 5 * 60_000;
+const SHELL_MAX_BUFFER_BYTES = 10 * 1024 * 1024;
+
+const mockStepSchema = z.union([
+  z.object({ text: z.string() }).strict(),
+  z.object({ summary: z.string() }).strict(),
+  z.object({ error: z.string() }).strict(),
+  z.object({ shell: z.string() }).strict(),
+  z.object({ write: z.object({ path: z.string(), content: z.string() }) }).strict(),
+  z.object({ tool: z.object({ name: z.string(), input: z.unknown().optional() }) }).strict(),
+  z.object({
+    usage: z.object({
+      input_tokens: z.number().int().min(0).default(0),
+      cached_input_tokens: z.number().int().min(0).default(0),
+      output_tokens: z.number().int().min(0).default(0),
+    }),
+  }).strict(),
+  z.object({ delay_ms: z.number().int().min(0) }).strict(),
+]);
+
+const mockScriptSchema = z.object({
+  name: z.string().optional(),
+  /** Case-insensitive regex tested against the system prompt and prompt. Matches everything when omitted. */
+  match: z.string().optional(),
+  /** How many runs may use this script. Unlimited when omitted. */
+  times: z.number().int().positive().optional(),
+  steps: z.array(mockStepSchema),
+});
+
+export const mockFixtureSchema = z.object({
+  scripts: z.array(mockScriptSchema),
+});
+
+export type MockStep = z.infer<typeof mockStepSchema>;
+export type MockScript = z.infer<typeof mockScriptSchema>;
+export type MockFixture = z.infer<typeof mockFixtureSchema>;
+
+/**
+ * Offline runtime that replays scripted message streams from a YAML/JSON
+ * fixture. Each run uses the first script whose `match` fits the prompt;
+ * `shell`, `write` and `tool` steps act on the real working directory so
+ * whole orchestrations can run end to end without an API key.
+ */
+export class MockAgentRuntime implements AgentRuntime {
+  readonly sdk: SdkType = "mock";
+  private fixture: MockFixture | null = null;
+  private useCounts = new Map<MockScript, number>();
+  private tools: PluginTool[] = [];
+  private abortController: AbortController | null = null;
+
+  constructor(
+    readonly id: string,
+    readonly model: string,
+    private fixturePath: string,
+  ) {}
+
+  async *run(prompt: string, options: RunOptions): AsyncIterable<AgentMessage> {
+    yield* this.replay(`${options.systemPrompt}\n\n${prompt}`, options.workingDirectory, `mock-${nanoid(8)}`);
+  }
+
+  async *resume(
+    sessionId: string,
+    prompt: string,
+    options?: ResumeOptions,
+  ): AsyncIterable<AgentMessage> {
+    yield* this.replay(prompt, options?.workingDirectory ?? process.cwd(), sessionId);
+  }
+
+  registerTools(tools: PluginTool[]): void {
+    this.tools = [...tools];
+  }
+
+  async abort(): Promise<void> {
+    this.abortController?.abort();
+    this.abortController = null;
+  }
+
+  private async *replay(prompt: string, workingDirectory: string, sessionId: string): AsyncIterable<AgentMessage> {
+    let script: MockScript | undefined;
+    try {
+      script = this.pickScript(await this.loadFixture(), prompt);
+    } catch (error) {
+      yield errorMessage(`Invalid mock fixture ${this.fixturePath}: ${describeError(error)}`);
+      return;
+    }
+
+    if (!script) {
+      yield errorMessage(`No mock script matches prompt: ${prompt.slice(0, 120)}`);
+      return;
+    }
+
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    try {
+      for (const step of script.steps) {
+        if (abortController.signal.aborted) return;
+        for await (const message of this.runStep(step, workingDirectory, abortController.signal)) {
+          yield message;
+        }
+      }
+
+      yield {
+        type: "summary",
+        content: `Mock script ${script.name ?? "(unnamed)"} finished`,
+        timestamp: Date.now(),
+        metadata: { sessionId },
+      };
+    } finally {
+      if (this.abortController === abortController) this.abortController = null;
+    }
+  }
+
+  private async *runStep(step: MockStep, workingDirectory: string, signal: AbortSignal): AsyncIterable<AgentMessage> {
+    if ("text" in step) {
+      yield { type: "text", content: step.text, timestamp: Date.now() };
+    } else if ("summary" in step) {
+      yield { type: "summary", content: step.summary, timestamp: Date.now() };
+    } else if ("error" in step) {
+      yield errorMessage(step.error);
+    } else if ("shell" in step) {
+      yield toolCall("shell", step.shell);
+      const { output, exitCode } = await runShell(step.shell, workingDirectory, signal);
+      yield {
+        type: "tool_result",
+        content: `${output}${output.endsWith("\n") || !output ? "" : "\n"}Command exit code: ${exitCode}`,
+        timestamp: Date.now(),
+      };
+    } else if ("write" in step) {
+      yield toolCall("write", step.write.path);
+      try {
+        const target = resolveInside(workingDirectory, step.write.path);
+        await mkdir(dirname(target), { recursive: true });
+        await writeFile(target, step.write.content);
+        yield { type: "tool_result", content: `Wrote ${step.write.path}`, timestamp: Date.now() };
+      } catch (error) {
+        yield errorMessage(describeError(error));
+      }
+    } else if ("tool" in step) {
+      yield toolCall(step.tool.name, step.tool.input);
+      yield await this.callTool(step.tool.name, step.tool.input ?? {});
+    } else if ("usage" in step) {
+      const usage: MessageUsage = {
+        model: this.model,
+        inputTokens: step.usage.input_tokens,
+        cachedInputTokens: step.usage.cached_input_tokens,
+        outputTokens: step.usage.output_tokens,
+      };
+      yield {
+        type: "summary",
+        content: `Usage(in=${usage.inputTokens}, cached=${usage.cachedInputTokens}, out=${usage.outputTokens})`,
+        timestamp: Date.now(),
+        metadata: { usage },
+      };
+    } else {
+      await sleep(step.delay_ms);
+    }
+  }
+
+  private async callTool(name: string, input: unknown): Promise<AgentMessage> {
+    const tool = this.tools.find((candidate) => candidate.name === name);
+    if (!tool) return errorMessage(`Unknown plugin tool: ${name}`);
+
+    try {
+      return { type: "tool_result", content: await tool.execute(input), timestamp: Date.now() };
+    } catch (error) {
+      return errorMessage(describeError(error));
+    }
+  }
+
+  private pickScript(fixture: MockFixture, prompt: string): MockScript | undefined {
+    const script = fixture.scripts.find((candidate) => {
+      const used = this.useCounts.get(candidate) ?? 0;
+      if (candidate.times !== undefined && used >= candidate.times) return false;
+      return candidate.match === undefined || new RegExp(candidate.match, "i").test(prompt);
+    });
+    if (script) this.useCounts.set(script, (this.useCounts.get(script) ?? 0) + 1);
+    return script;
+  }
+
+  private async loadFixture(): Promise<MockFixture> {
+    if (!this.fixture) {
+      const raw = await readFile(this.fixturePath, "utf-8");
+      this.fixture = mockFixtureSchema.parse(parseYaml(raw));
+    }
+    return this.fixture;
+  }
+}
+
+function runShell(
+  command: string,
+  cwd: string,
+  signal: AbortSignal,
+): Promise<{ output: string; exitCode: number }> {
+  return new Promise((resolvePromise) => {
+    execFile(
+      "sh",
+      ["-c", command],
+      { cwd, signal, timeout: SHELL_TIMEOUT_MS, maxBuffer: SHELL_MAX_BUFFER_BYTES },
+      (error, stdout, stderr) => {
+        const output = `${stdout}${stderr}`;
+        if (!error) {
+          resolvePromise({ output, exitCode: 0 });
+          return;
+        }
+        const code = (error as { code?: unknown }).code;
+        resolvePromise({ output: output || `${error.message}\n`, exitCode: typeof code === "number" ? code : 1 });
+      },
+    );
+  });
+}
+
+/** Resolve a fixture path against the working directory, refusing to escape it. */
+function resolveInside(workingDirectory: string, path: string): string {
+  const target = resolve(workingDirectory, path);
+  const rel = relative(workingDirectory, target);
+  if (rel.startsWith("..") || isAbsolute(rel)) {
+    throw new Error(`Mock write outside working directory: ${path}`);
+  }
+  return target;
+}
+
+function toolCall(tool: string, input: unknown): AgentMessage {
+  return {
+    type: "tool_call",
+    content: JSON.stringify({ tool, input }),
+    timestamp: Date.now(),
+  };
+}
+
+function errorMessage(content: string): AgentMessage {
+  return { type: "error", content, timestamp: Date.now() };
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,320 @@
+import { execFile } from "node:child_process";
+import { once } from "node:events";
+import { mkdir, mkdtemp, rm, symlink, writeFile } from "node:fs/promises";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { promisify, TextDecoder } from "node:util";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createApiServer } from "./api-server.js";
+import type { DependencyGraphReport } from "./dependency-graph.js";
+import { EventBus } from "./event-bus.js";
+import { KanbanManager } from "./kanban.js";
+import { RunManager } from "./run-manager.js";
+import type { PersistedEvent, Task } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+const AUTH_TOKEN = "test-token";
+const GIT_IDENTITY = ["-c", "user.name=Test", "-c", "user.email=test@local"];
+// A run that fails right after launch: auto_merge: pull_request without its API token
+const FAILING_RUN_CONFIG = `team:
+  - role: product-manager
+    sdk: mock
+    model: mock-pm
+    tools: []
+    fixture: ./fixture.yaml
+workflow:
+  columns: [backlog, in_progress, review, done]
+  max_retries: 1
+  review_required: false
+  max_gap_rounds: 0
+  auto_merge: pull_request
+  remote:
+    provider: github
+    repository: acme/app
+    token_env: ARKALEDGE_TEST_UNSET_TOKEN
+`;
+
+describe("createApiServer", () => {
+  let rootDir: string;
+  let kanban: KanbanManager;
+  let eventBus: EventBus;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), "arkaledge-api-"));
+    eventBus = new EventBus();
+    kanban = new KanbanManager(join(rootDir, "project"), eventBus);
+    await kanban.init();
+    ({ server, baseUrl } = await listen({ kanban, eventBus, authToken: AUTH_TOKEN }));
+  });
+
+  afterEach(async () => {
+    server.close();
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  describe("read routes", () => {
+    it("lists tasks from the board", async () => {
+      await addTask(kanban, "Listed");
+      const tasks = await (await fetch(`${baseUrl}/api/tasks`)).json() as Task[];
+      expect(tasks.map((task) => task.title)).toEqual(["Listed"]);
+    });
+
+    it("reports the dependency graph of the board", async () => {
+      const first = await addTask(kanban, "First");
+      const second = await addTask(kanban, "Second");
+      await kanban.setDependencies(second.id, [first.id], "test");
+      const graph = await (await fetch(`${baseUrl}/api/tasks/graph`)).json() as DependencyGraphReport;
+      expect([graph.criticalPath, graph.cycles]).toEqual([[first.id, second.id], []]);
+    });
+
+    it("answers CORS preflight requests", async () => {
+      const res = await fetch(`${baseUrl}/api/tasks`, { method: "OPTIONS" });
+      expect(res.status).toBe(204);
+    });
+
+    it.each([
+      ["an unknown route", "/api/nope"],
+      ["scheduler state without a run", "/api/scheduler"],
+      ["usage without a run", "/api/usage"],
+    ])("returns 404 for %s", async (_label, path) => {
+      const res = await fetch(`${baseUrl}${path}`);
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("mutating routes", () => {
+    it("rejects requests without a bearer token", async () => {
+      const res = await postJson(`${baseUrl}/api/tasks`, { title: "Denied" });
+      expect(res.status).toBe(401);
+    });
+
+    it("rejects requests with the wrong bearer token", async () => {
+      const res = await postJson(`${baseUrl}/api/tasks`, { title: "Denied" }, "wrong-token");
+      expect(res.status).toBe(401);
+    });
+
+    it("is disabled when no token is configured", async () => {
+      const open = await listen({ kanban, eventBus });
+      const res = await postJson(`${open.baseUrl}/api/tasks`, { title: "Denied" }, AUTH_TOKEN);
+      open.server.close();
+      expect(res.status).toBe(403);
+    });
+
+    it("creates a backlog task", async () => {
+      const res = await postJson(`${baseUrl}/api/tasks`, { title: "Created" }, AUTH_TOKEN);
+      expect(await res.json()).toMatchObject({ title: "Created", status: "backlog", createdBy: "human" });
+    });
+
+    it("rejects an invalid body with 400", async () => {
+      const res = await postJson(`${baseUrl}/api/tasks`, { title: "" }, AUTH_TOKEN);
+      expect(res.status).toBe(400);
+    });
+
+    it("moves a task through the status route", async () => {
+      const task = await addTask(kanban, "Moved");
+      await postJson(`${baseUrl}/api/tasks/${task.id}/status`, { status: "done" }, AUTH_TOKEN);
+      const [stored] = await kanban.getAllTasks();
+      expect(stored.status).toBe("done");
+    });
+
+    it("returns 404 when the task does not exist", async () => {
+      const res = await postJson(`${baseUrl}/api/tasks/missing/status`, { status: "done" }, AUTH_TOKEN);
+      expect(res.status).toBe(404);
+    });
+
+    it("rejects dependencies that would form a cycle", async () => {
+      const first = await addTask(kanban, "First");
+      const second = await addTask(kanban, "Second");
+      await kanban.setDependencies(second.id, [first.id], "test");
+      const res = await fetch(`${baseUrl}/api/tasks/${first.id}/dependencies`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${AUTH_TOKEN}` },
+        body: JSON.stringify({ dependsOn: [second.id] }),
+      });
+      expect(res.status).toBe(400);
+      expect(await res.json()).toEqual({ error: `Dependency cycle: ${first.id} → ${second.id} → ${first.id}` });
+    });
+
+    it("adds a line-anchored review comment", async () => {
+      const task = await addTask(kanban, "Commented");
+      const comment = { body: "Off by one", file: "src/a.ts", startLine: 4, endLine: 6, severity: "nit", category: "style" };
+      const res = await postJson(`${baseUrl}/api/tasks/${task.id}/comments`, comment, AUTH_TOKEN);
+      expect((await res.json() as Task).reviewComments).toMatchObject([{ ...comment, reviewerId: "human", resolved: false }]);
+    });
+
+    it("rejects a comment whose line range ends before it starts", async () => {
+      const task = await addTask(kanban, "Commented");
+      const comment = { body: "Backwards", file: "src/a.ts", startLine: 6, endLine: 4 };
+      const res = await postJson(`${baseUrl}/api/tasks/${task.id}/comments`, comment, AUTH_TOKEN);
+      expect(res.status).toBe(400);
+    });
+  });
+
+  describe("event stream", () => {
+    it("moves connected clients over to the next run", async () => {
+      await writeFile(join(rootDir, "spec.md"), "# Spec\n");
+      await writeFile(join(rootDir, "team.yaml"), FAILING_RUN_CONFIG);
+      const runManager = new RunManager(eventBus, rootDir);
+      const runs = await listen({ runManager, eventBus });
+      try {
+        const first = await startFailingRun(runManager, "out-1");
+        const firstStream = await openEventStream(`${runs.baseUrl}/api/events?since=0`);
+        const firstEvents = await firstStream.read((events) => events.some((e) => e.summary.includes("failed")));
+        expect(firstEvents.every(({ id }) => id.startsWith(`${first.id}:`))).toBe(true);
+
+        // Starting run 2 ends the stream; reconnecting with run 1's last id replays run 2 from its launch
+        const second = await startFailingRun(runManager, "out-2");
+        await firstStream.read(() => false);
+        const secondStream = await openEventStream(`${runs.baseUrl}/api/events?since=${encodeURIComponent(firstEvents.at(-1)!.id)}`);
+        const secondEvents = await secondStream.read((events) => events.some((e) => e.summary.includes("failed")));
+        expect(secondEvents.map(({ summary }) => summary)).toEqual([
+          expect.stringContaining(`Starting run ${second.id}`),
+          expect.stringContaining(`Run ${second.id} failed`),
+        ]);
+      } finally {
+        runs.server.closeAllConnections();
+        runs.server.close();
+      }
+    });
+
+    async function startFailingRun(runManager: RunManager, outputDir: string): Promise<{ id: string }> {
+      const run = await runManager.startRun({ specFile: "spec.md", configFile: "team.yaml", outputDir });
+      while (runManager.getRun(run.id)?.status === "running") {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      return run;
+    }
+  });
+
+  describe("diff route", () => {
+    it("returns the task branch diff against main", async () => {
+      const worktree = join(rootDir, "repo");
+      await mkdir(worktree);
+      await git(worktree, ["init", "-b", "main"]);
+      await writeFile(join(worktree, "a.txt"), "one\n");
+      await git(worktree, ["add", "a.txt"]);
+      await git(worktree, [...GIT_IDENTITY, "commit", "-m", "Initial"]);
+      await git(worktree, ["checkout", "-b", "task/a"]);
+      await writeFile(join(worktree, "a.txt"), "one\ntwo\n");
+      await git(worktree, [...GIT_IDENTITY, "commit", "-am", "Add two"]);
+      const task = await kanban.updateTask((await addTask(kanban, "Diffed")).id, { branch: "task/a", worktree });
+
+      const body = await (await fetch(`${baseUrl}/api/tasks/${task.id}/diff`)).json() as { diff: string };
+      expect(body.diff).toContain("+two");
+    });
+
+    it("returns 404 for a task without a worktree", async () => {
+      const task = await addTask(kanban, "No worktree");
+      const res = await fetch(`${baseUrl}/api/tasks/${task.id}/diff`);
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("worktree routes", () => {
+    let worktree: string;
+    let taskId: string;
+
+    beforeEach(async () => {
+      worktree = join(rootDir, "worktree");
+      await mkdir(join(worktree, "docs"), { recursive: true });
+      await writeFile(join(worktree, "hello.txt"), "hello from the worktree");
+      await writeFile(join(rootDir, "secret.txt"), "outside the worktree");
+      await symlink(join(rootDir, "secret.txt"), join(worktree, "escape.txt"));
+
+      const task = await addTask(kanban, "Browsable");
+      taskId = (await kanban.updateTask(task.id, { worktree })).id;
+    });
+
+    it("serves files inside the worktree", async () => {
+      const res = await fetch(`${baseUrl}/api/tasks/${taskId}/worktree/hello.txt`);
+      expect(await res.text()).toBe("hello from the worktree");
+    });
+
+    it("redirects directories to their trailing-slash URL", async () => {
+      const res = await fetch(`${baseUrl}/api/tasks/${taskId}/worktree/docs`, { redirect: "manual" });
+      expect(res.headers.get("location")).toBe(`/api/tasks/${taskId}/worktree/docs/`);
+    });
+
+    it.each([
+      ["an encoded parent segment", "..%2Fsecret.txt", 400],
+      ["an encoded backslash parent segment", "..%5Csecret.txt", 400],
+      ["a NUL byte", "hello.txt%00", 400],
+      ["a symlink leaving the worktree", "escape.txt", 403],
+      ["a missing file", "missing.txt", 404],
+    ])("rejects %s", async (_label, path, status) => {
+      const res = await fetch(`${baseUrl}/api/tasks/${taskId}/worktree/${path}`);
+      expect(res.status).toBe(status);
+    });
+
+    it("returns 404 for a task without a worktree", async () => {
+      const other = await addTask(kanban, "No worktree");
+      const res = await fetch(`${baseUrl}/api/tasks/${other.id}/worktree/`);
+      expect(res.status).toBe(404);
+    });
+  });
+});
+
+async function listen(options: Parameters<typeof createApiServer>[0]): Promise<{ server: Server; baseUrl: string }> {
+  const server = createApiServer({ ...options, port: 0 });
+  await once(server, "listening");
+  const { port } = server.address() as AddressInfo;
+  return { server, baseUrl: `http://127.0.0.1:${port}` };
+}
+
+type StreamedEvent = Omit<PersistedEvent, "id"> & { id: string };
+
+/** Open `/api/events`; `read` collects messages until `done` accepts them or the server ends the stream. */
+async function openEventStream(url: string): Promise<{ read: (done: (events: StreamedEvent[]) => boolean) => Promise<StreamedEvent[]> }> {
+  const res = await fetch(url);
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  return {
+    read: async (done) => {
+      const events: StreamedEvent[] = [];
+      while (!done(events)) {
+        const { value, done: ended } = await reader.read();
+        if (ended) break;
+        buffer += decoder.decode(value, { stream: true });
+        const messages = buffer.split("\n\n");
+        buffer = messages.pop() ?? "";
+        for (const message of messages) {
+          const id = message.match(/^id: (.*)$/m)?.[1] ?? "";
+          const data = message.match(/^data: (.*)$/m)?.[1];
+          if (data) events.push({ ...(JSON.parse(data) as PersistedEvent), id });
+        }
+      }
+      return events;
+    },
+  };
+}
+
+function postJson(url: string, body: unknown, token?: string): ReturnType<typeof fetch> {
+  return fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+function addTask(kanban: KanbanManager, title: string): Promise<Task> {
+  return kanban.addTask({
+    title,
+    description: "",
+    acceptanceCriteria: [],
+    status: "backlog",
+    priority: "medium",
+    createdBy: "test",
+  });
+}
+
+async function git(cwd: string, args: string[]): Promise<void> {
+  await execFileAsync("git", args, { cwd });
+}
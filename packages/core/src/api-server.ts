@@ -1,24 +1,117 @@
+import { execFile } from "node:child_process";
+import { createHash, timingSafeEqual } from "node:crypto";
 import type { Dirent, Stats } from "node:fs";
 import { readdir, readFile, realpath, stat } from "node:fs/promises";
 import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
 import { extname, isAbsolute, join, relative, resolve } from "node:path";
+import { promisify } from "node:util";
+import { z } from "zod";
+import { analyzeDependencies, findDependencyCycle } from "./dependency-graph.js";
 import type { EventBus } from "./event-bus.js";
+import type { EventLog } from "./event-log.js";
 import type { KanbanManager } from "./kanban.js";
-import type { AgentEvent } from "./types.js";
+import type { RunManager } from "./run-manager.js";
+import {
+  newReviewCommentSchema,
+  type AgentEvent,
+  type PersistedEvent,
+  type SchedulerControl,
+  type Task,
+  type UsageSource,
+} from "./types.js";
 
 export interface ApiServerOptions {
-  kanban: KanbanManager;
+  /** Board served by the task routes. Falls back to the run manager's current run when omitted. */
+  kanban?: KanbanManager;
+  /** Enables the `/api/runs` routes for launching and controlling orchestration runs. */
+  runManager?: RunManager;
+  /** Enables `/api/scheduler` pause/resume/drain. Falls back to the run manager's active run. */
+  scheduler?: SchedulerControl;
+  /** Backs `GET /api/usage`. Falls back to the run manager's current run. */
+  usage?: UsageSource;
   eventBus: EventBus;
+  /**
+   * Persisted log backing `/api/events` replay. Falls back to the run manager's
+   * current run; without either, the stream only carries live events.
+   */
+  eventLog?: EventLog;
   port?: number;
+  /**
+   * Bearer token required by mutating routes (POST/PATCH/DELETE).
+   * When omitted, mutating routes are disabled and return 403.
+   */
+  authToken?: string;
 }
 
+const execFileAsync = promisify(execFile);
 const DEFAULT_PORT = 4400;
+const MAX_JSON_BODY_CHARS = 1024 * 1024;
+const MAX_DIFF_BYTES = 10 * 1024 * 1024;
+const API_ACTOR_ID = "human";
 const WORKTREE_ROUTE_PATTERN = /^\/api\/tasks\/([^/]+)\/worktree(?:\/(.*))?$/;
+const TASK_ROUTE_PATTERN = /^\/api\/tasks\/([^/]+)$/;
+const TASK_DIFF_ROUTE_PATTERN = /^\/api\/tasks\/([^/]+)\/diff$/;
+const TASK_ACTION_ROUTE_PATTERN = /^\/api\/tasks\/([^/]+)\/(status|dependencies|assignee|comments)$/;
+const RUN_ROUTE_PATTERN = /^\/api\/runs\/([^/]+)$/;
+const RUN_ACTION_ROUTE_PATTERN = /^\/api\/runs\/([^/]+)\/(stop|resume)$/;
+const SCHEDULER_ACTION_ROUTE_PATTERN = /^\/api\/scheduler\/(pause|resume|drain)$/;
+
+const taskPrioritySchema = z.enum(["high", "medium", "low"]);
+const taskStatusSchema = z.enum(["backlog", "in_progress", "review", "done", "blocked"]);
+
+const createTaskBodySchema = z.object({
+  title: z.string().trim().min(1),
+  description: z.string().default(""),
+  acceptanceCriteria: z.array(z.string()).default([]),
+  priority: taskPrioritySchema.default("medium"),
+  epic: z.string().optional(),
+  dependsOn: z.array(z.string()).optional(),
+});
+
+const editTaskBodySchema = z.object({
+  title: z.string().trim().min(1).optional(),
+  description: z.string().optional(),
+  acceptanceCriteria: z.array(z.string()).optional(),
+  priority: taskPrioritySchema.optional(),
+  epic: z.string().optional(),
+}).strict().refine((body) => Object.keys(body).length > 0, { message: "No editable fields provided" });
+
+const dependenciesBodySchema = z.object({
+  dependsOn: z.array(z.string()),
+});
+
+const moveTaskBodySchema = z.object({
+  status: taskStatusSchema,
+  detail: z.string().optional(),
+});
+
+// `{ comment }` is the original plain-text form; structured comments use the reviewer's shape
+const commentBodySchema = z.union([
+  z.object({ comment: z.string().trim().min(1) }).strict().transform(({ comment }) => ({ body: comment })),
+  newReviewCommentSchema,
+]);
+
+const startRunBodySchema = z.object({
+  specFile: z.string().trim().min(1),
+  configFile: z.string().trim().min(1),
+  outputDir: z.string().trim().min(1),
+  resume: z.boolean().optional(),
+});
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
 
 function setCorsHeaders(res: ServerResponse): void {
   res.setHeader("Access-Control-Allow-Origin", "*");
-  res.setHeader("Access-Control-Allow-Methods", "GET, OPTIONS");
-  res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, PATCH, DELETE, OPTIONS");
+  res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
 }
 
 function sendJson(res: ServerResponse, status: number, data: unknown): void {
@@ -34,7 +127,29 @@ function sendHtml(res: ServerResponse, status: number, html: string): void {
 }
 
 export function createApiServer(options: ApiServerOptions): Server {
-  const { kanban, eventBus, port = DEFAULT_PORT } = options;
+  const { eventBus, runManager, port = DEFAULT_PORT, authToken } = options;
+
+  const resolveKanban = (): KanbanManager => {
+    const kanban = options.kanban ?? runManager?.getCurrentKanban();
+    if (!kanban) {
+      throw new HttpError(404, "No project loaded: start a run first");
+    }
+    return kanban;
+  };
+
+  const resolveScheduler = (): SchedulerControl => {
+    const scheduler = options.scheduler ?? runManager?.getActiveScheduler();
+    if (!scheduler) {
+      throw new HttpError(404, "No active run to control");
+    }
+    return scheduler;
+  };
+
+  // SSE streams on the run manager's current run; ended when another run becomes current so clients reconnect to it
+  const runStreams = new Set<ServerResponse>();
+  const offRunSwitched = runManager?.onRunSwitched(() => {
+    for (const stream of runStreams) stream.end();
+  });
 
   const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
     const requestUrl = new URL(req.url ?? "/", "http://localhost");
@@ -51,13 +166,61 @@ export function createApiServer(options: ApiServerOptions): Server {
     try {
       // GET /api/tasks
       if (req.method === "GET" && pathname === "/api/tasks") {
-        const tasks = await kanban.getAllTasks();
-        sendJson(res, 200, tasks);
+        // Before any run exists the board is simply empty
+        const kanban = options.kanban ?? runManager?.getCurrentKanban();
+        sendJson(res, 200, kanban ? await kanban.getAllTasks() : []);
+        return;
+      }
+
+      // GET /api/tasks/graph — cycles, dangling dependencies, schedule and critical path
+      if (req.method === "GET" && pathname === "/api/tasks/graph") {
+        const kanban = options.kanban ?? runManager?.getCurrentKanban();
+        sendJson(res, 200, analyzeDependencies(kanban ? await kanban.getAllTasks() : []));
+        return;
+      }
+
+      // GET /api/usage — token and cost totals per run, agent, model and task
+      if (req.method === "GET" && pathname === "/api/usage") {
+        const usage = options.usage ?? runManager?.getCurrentUsage();
+        if (!usage) throw new HttpError(404, "No active run to report usage for");
+        sendJson(res, 200, usage.getUsageReport());
+        return;
+      }
+
+      // GET /api/scheduler — current Scrum Master scheduling mode
+      if (req.method === "GET" && pathname === "/api/scheduler") {
+        sendJson(res, 200, { mode: resolveScheduler().getSchedulerMode() });
         return;
       }
 
-      // GET /api/events — SSE stream
+      // GET /api/runs, GET /api/runs/:runId
+      if (req.method === "GET" && runManager) {
+        if (pathname === "/api/runs") {
+          sendJson(res, 200, runManager.listRuns());
+          return;
+        }
+        const runId = matchRunRoute(pathname, RUN_ROUTE_PATTERN)?.runId;
+        if (runId !== undefined) {
+          const run = runManager.getRun(runId);
+          if (!run) throw new HttpError(404, `Run not found: ${runId}`);
+          sendJson(res, 200, run);
+          return;
+        }
+      }
+
+      // GET /api/events — SSE stream, replaying from Last-Event-ID or ?since=<id>
       if (req.method === "GET" && pathname === "/api/events") {
+        const eventLog = options.eventLog ?? runManager?.getCurrentEventLog();
+        if (eventLog) {
+          const runId = options.eventLog ? undefined : runManager?.getCurrentRunId();
+          if (runId !== undefined) {
+            runStreams.add(res);
+            res.on("close", () => runStreams.delete(res));
+          }
+          await streamPersistedEvents(eventLog, req, res, requestUrl, runId);
+          return;
+        }
+
         setCorsHeaders(res);
         res.writeHead(200, {
           "Content-Type": "text/event-stream",
@@ -79,25 +242,356 @@ export function createApiServer(options: ApiServerOptions): Server {
         return;
       }
 
+      // GET /api/tasks/:taskId/diff — branch diff against main, for anchoring review comments
+      const diffTaskId = matchTaskRoute(pathname, TASK_DIFF_ROUTE_PATTERN)?.taskId;
+      if (req.method === "GET" && diffTaskId !== undefined) {
+        const task = await findTaskOrThrow(resolveKanban(), diffTaskId);
+        sendJson(res, 200, { taskId: task.id, branch: task.branch, diff: await readTaskDiff(task) });
+        return;
+      }
+
       // GET /api/tasks/:taskId/worktree/*path — browse/serve task worktree files
       const worktreeRoute = matchWorktreeRoute(pathname);
       if (req.method === "GET" && worktreeRoute) {
-        await handleWorktreeRequest(kanban, res, requestUrl, worktreeRoute.taskId, worktreeRoute.relativePath);
+        await handleWorktreeRequest(resolveKanban(), res, requestUrl, worktreeRoute.taskId, worktreeRoute.relativePath);
         return;
       }
 
+      // Mutating routes — all require the bearer token
+      if (req.method === "POST" || req.method === "PATCH" || req.method === "DELETE") {
+        assertAuthorized(req, authToken);
+        const schedulerAction = pathname.match(SCHEDULER_ACTION_ROUTE_PATTERN)?.[1];
+        if (req.method === "POST" && schedulerAction) {
+          // POST /api/scheduler/pause|resume|drain
+          const scheduler = resolveScheduler();
+          if (schedulerAction === "pause") scheduler.pause();
+          else if (schedulerAction === "resume") scheduler.resume();
+          else scheduler.drain();
+          sendJson(res, 200, { mode: scheduler.getSchedulerMode() });
+          return;
+        }
+        if (runManager && pathname.startsWith("/api/runs")) {
+          const handled = await handleRunMutation(runManager, req, res, pathname);
+          if (handled) return;
+        } else if (pathname.startsWith("/api/tasks")) {
+          const handled = await handleMutation(resolveKanban(), req, res, pathname);
+          if (handled) return;
+        }
+      }
+
       // 404 for unknown routes
       sendJson(res, 404, { error: "Not found" });
     } catch (err) {
+      if (err instanceof HttpError) {
+        sendJson(res, err.status, { error: err.message });
+        return;
+      }
       const message = err instanceof Error ? err.message : "Internal server error";
       sendJson(res, 500, { error: message });
     }
   });
 
+  server.on("close", () => offRunSwitched?.());
   server.listen(port);
   return server;
 }
 
+/**
+ * Stream `eventLog`, replaying from the client's resume point first. With a
+ * `runId`, event ids are sent as `<runId>:<id>`; a resume point from another
+ * run's log replays this run from where it was launched, since the two logs
+ * number their events independently.
+ */
+async function streamPersistedEvents(
+  eventLog: EventLog,
+  req: IncomingMessage,
+  res: ServerResponse,
+  requestUrl: URL,
+  runId?: string,
+): Promise<void> {
+  const lastEventId = req.headers["last-event-id"];
+  const resumePoint = parseResumePoint(Array.isArray(lastEventId) ? lastEventId[0] : lastEventId)
+    ?? parseResumePoint(requestUrl.searchParams.get("since"));
+  const fromOtherRun = runId !== undefined && resumePoint?.runId !== undefined && resumePoint.runId !== runId;
+  const afterId = fromOtherRun ? eventLog.getAttachedAfterId() : resumePoint?.id;
+
+  setCorsHeaders(res);
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  // Without a resume point only live events are sent
+  let lastSentId = afterId ?? eventLog.getLastId();
+  const send = (event: PersistedEvent): void => {
+    if (event.id <= lastSentId || res.writableEnded) return;
+    lastSentId = event.id;
+    res.write(`id: ${runId === undefined ? event.id : `${runId}:${event.id}`}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  // Buffer live events while history is read so nothing falls in between
+  let replaying = afterId !== undefined;
+  const buffered: PersistedEvent[] = [];
+  const unsubscribe = eventLog.subscribe((event) => {
+    if (replaying) buffered.push(event);
+    else send(event);
+  });
+  res.on("close", unsubscribe);
+
+  if (afterId !== undefined) {
+    for (const event of await eventLog.read({ afterId })) send(event);
+    replaying = false;
+    for (const event of buffered.splice(0)) send(event);
+  }
+}
+
+/** A bare event id, or `<runId>:<id>` as sent on run manager streams. */
+function parseResumePoint(value: string | null | undefined): { runId?: string; id: number } | undefined {
+  const match = value?.trim().match(/^(?:([^:]+):)?(\d+)$/);
+  return match ? { ...(match[1] ? { runId: match[1] } : {}), id: Number(match[2]) } : undefined;
+}
+
+function assertAuthorized(req: IncomingMessage, authToken: string | undefined): void {
+  if (!authToken) {
+    throw new HttpError(403, "Mutating API is disabled: no auth token configured");
+  }
+
+  const header = req.headers.authorization ?? "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  const provided = match?.[1]?.trim() ?? "";
+  // Compare fixed-length digests so the check is constant-time regardless of token length
+  const expected = createHash("sha256").update(authToken).digest();
+  const actual = createHash("sha256").update(provided).digest();
+  if (!provided || !timingSafeEqual(actual, expected)) {
+    throw new HttpError(401, "Missing or invalid bearer token");
+  }
+}
+
+/**
+ * Route POST/PATCH/DELETE requests through KanbanManager so locking and
+ * event emission match agent-driven updates. Returns false for unknown routes.
+ */
+async function handleMutation(
+  kanban: KanbanManager,
+  req: IncomingMessage,
+  res: ServerResponse,
+  pathname: string,
+): Promise<boolean> {
+  // POST /api/tasks — create a backlog task
+  if (req.method === "POST" && pathname === "/api/tasks") {
+    const body = parseBody(createTaskBodySchema, await readJsonBody(req));
+    const { dependsOn, ...fields } = body;
+    if (dependsOn && dependsOn.length > 0) {
+      await assertTasksExist(kanban, dependsOn);
+    }
+    let task = await kanban.addTask({ ...fields, status: "backlog", createdBy: API_ACTOR_ID });
+    if (dependsOn && dependsOn.length > 0) {
+      task = await kanban.setDependencies(task.id, dependsOn, API_ACTOR_ID);
+    }
+    sendJson(res, 201, task);
+    return true;
+  }
+
+  // PATCH /api/tasks/:taskId — edit title/description/criteria/priority/epic
+  const taskRoute = matchTaskRoute(pathname, TASK_ROUTE_PATTERN);
+  if (req.method === "PATCH" && taskRoute) {
+    await findTaskOrThrow(kanban, taskRoute.taskId);
+    const body = parseBody(editTaskBodySchema, await readJsonBody(req));
+    sendJson(res, 200, await kanban.editTask(taskRoute.taskId, body, API_ACTOR_ID));
+    return true;
+  }
+
+  const actionRoute = matchTaskRoute(pathname, TASK_ACTION_ROUTE_PATTERN);
+  if (!actionRoute) return false;
+  const { taskId, action } = actionRoute;
+
+  // PATCH /api/tasks/:taskId/dependencies
+  if (req.method === "PATCH" && action === "dependencies") {
+    await findTaskOrThrow(kanban, taskId);
+    const body = parseBody(dependenciesBodySchema, await readJsonBody(req));
+    if (body.dependsOn.includes(taskId)) {
+      throw new HttpError(400, "Task cannot depend on itself");
+    }
+    await assertTasksExist(kanban, body.dependsOn);
+    const cycle = findDependencyCycle(await kanban.getAllTasks(), taskId, body.dependsOn);
+    if (cycle) {
+      throw new HttpError(400, `Dependency cycle: ${cycle.join(" → ")}`);
+    }
+    sendJson(res, 200, await kanban.setDependencies(taskId, body.dependsOn, API_ACTOR_ID));
+    return true;
+  }
+
+  // POST /api/tasks/:taskId/status
+  if (req.method === "POST" && action === "status") {
+    const task = await findTaskOrThrow(kanban, taskId);
+    const body = parseBody(moveTaskBodySchema, await readJsonBody(req));
+    const detail = body.detail ?? `${task.status} → ${body.status} (manual)`;
+    sendJson(res, 200, await kanban.moveTask(taskId, body.status, API_ACTOR_ID, detail));
+    return true;
+  }
+
+  // DELETE /api/tasks/:taskId/assignee
+  if (req.method === "DELETE" && action === "assignee") {
+    await findTaskOrThrow(kanban, taskId);
+    sendJson(res, 200, await kanban.unassignTask(taskId, API_ACTOR_ID));
+    return true;
+  }
+
+  // POST /api/tasks/:taskId/comments — human review comment
+  if (req.method === "POST" && action === "comments") {
+    await findTaskOrThrow(kanban, taskId);
+    const body = parseBody(commentBodySchema, await readJsonBody(req));
+    sendJson(res, 201, await kanban.addReviewComment(taskId, body, API_ACTOR_ID));
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Launch, stop and resume orchestration runs. Run-manager errors for requests
+ * that conflict with the current run state map to 409.
+ */
+async function handleRunMutation(
+  runManager: RunManager,
+  req: IncomingMessage,
+  res: ServerResponse,
+  pathname: string,
+): Promise<boolean> {
+  // POST /api/runs — start a run from spec/config/output paths
+  if (req.method === "POST" && pathname === "/api/runs") {
+    const body = parseBody(startRunBodySchema, await readJsonBody(req));
+    const active = runManager.getActiveRun();
+    if (active) {
+      throw new HttpError(409, `Run ${active.id} is still ${active.status}; stop it before starting another`);
+    }
+    const run = await runManager.startRun(body).catch((error: unknown) => {
+      throw new HttpError(400, error instanceof Error ? error.message : String(error));
+    });
+    sendJson(res, 201, run);
+    return true;
+  }
+
+  const route = matchRunRoute(pathname, RUN_ACTION_ROUTE_PATTERN);
+  if (req.method !== "POST" || !route) return false;
+
+  const run = runManager.getRun(route.runId);
+  if (!run) {
+    throw new HttpError(404, `Run not found: ${route.runId}`);
+  }
+
+  // POST /api/runs/:runId/stop, POST /api/runs/:runId/resume
+  const action = route.action === "stop"
+    ? runManager.stopRun(route.runId)
+    : runManager.resumeRun(route.runId);
+  const updated = await action.catch((error: unknown) => {
+    throw new HttpError(409, error instanceof Error ? error.message : String(error));
+  });
+  sendJson(res, 200, updated);
+  return true;
+}
+
+interface RunRouteMatch {
+  runId: string;
+  action?: string;
+}
+
+function matchRunRoute(pathname: string, pattern: RegExp): RunRouteMatch | null {
+  const match = pathname.match(pattern);
+  if (!match) return null;
+
+  const runId = decodeUriComponent(match[1]);
+  if (runId === null) return null;
+
+  return { runId, action: match[2] };
+}
+
+interface TaskRouteMatch {
+  taskId: string;
+  action?: string;
+}
+
+function matchTaskRoute(pathname: string, pattern: RegExp): TaskRouteMatch | null {
+  const match = pathname.match(pattern);
+  if (!match) return null;
+
+  const taskId = decodeUriComponent(match[1]);
+  if (taskId === null) return null;
+
+  return { taskId, action: match[2] };
+}
+
+async function findTaskOrThrow(kanban: KanbanManager, taskId: string): Promise<Task> {
+  const tasks = await kanban.getAllTasks();
+  const task = tasks.find((item) => item.id === taskId);
+  if (!task) {
+    throw new HttpError(404, `Task not found: ${taskId}`);
+  }
+  return task;
+}
+
+async function assertTasksExist(kanban: KanbanManager, taskIds: string[]): Promise<void> {
+  const tasks = await kanban.getAllTasks();
+  const unknown = taskIds.filter((id) => !tasks.some((task) => task.id === id));
+  if (unknown.length > 0) {
+    throw new HttpError(400, `Unknown dependency task IDs: ${unknown.join(", ")}`);
+  }
+}
+
+function parseBody<T>(schema: z.ZodType<T>, body: unknown): T {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+      .join("; ");
+    throw new HttpError(400, `Invalid request body: ${issues}`);
+  }
+  return result.data;
+}
+
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolvePromise, reject) => {
+    let body = "";
+    req.setEncoding("utf-8");
+    req.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_JSON_BODY_CHARS) {
+        reject(new HttpError(413, "Request body too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => {
+      if (!body.trim()) {
+        resolvePromise({});
+        return;
+      }
+      try {
+        resolvePromise(JSON.parse(body));
+      } catch {
+        reject(new HttpError(400, "Request body is not valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+/** Diff of the task branch against main, read from its worktree (the same range reviewers see). */
+async function readTaskDiff(task: Task): Promise<string> {
+  if (!task.worktree || !(await safeStat(task.worktree))) {
+    throw new HttpError(404, "Task worktree not found");
+  }
+  try {
+    const { stdout } = await execFileAsync("git", ["diff", "main...HEAD"], {
+      cwd: task.worktree,
+      maxBuffer: MAX_DIFF_BYTES,
+    });
+    return stdout;
+  } catch (error) {
+    throw new HttpError(500, `Unable to compute task diff: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 interface WorktreeRouteMatch {
   taskId: string;
   relativePath: string;
@@ -0,0 +1,107 @@
+import type { EventBus } from "./event-bus.js";
+import type { KanbanManager } from "./kanban.js";
+import type { BranchSyncStrategy, ConflictHunk, MergeConflictReport, Task } from "./types.js";
+import type { BranchSyncResult, WorktreeManager } from "./worktree-manager.js";
+
+export type BranchSyncStatus = BranchSyncResult["status"];
+
+/**
+ * Brings task branches up to date with main before review and before merge,
+ * so reviewers see the branch as it will land. When main conflicts with the
+ * branch, the task goes back to its engineer with a `mergeConflict` report
+ * listing the files and hunks to resolve.
+ */
+export class BranchSync {
+  constructor(
+    private kanban: KanbanManager,
+    private eventBus: EventBus,
+    private worktreeManager: WorktreeManager,
+    private strategy: BranchSyncStrategy = "merge",
+    private maxAttempts = 3,
+  ) {}
+
+  /**
+   * Sync the task's worktree with main. On "conflict" the task is already
+   * back with its engineer (see `reportConflict`); on "updated" the branch now
+   * contains new commits from main, so its diff and tests need a fresh look.
+   * Tasks without a worktree, and every task under the "none" strategy, are
+   * left alone.
+   */
+  async sync(
+    task: Task,
+    stage: MergeConflictReport["stage"],
+    agentId: string,
+    agentRole: string,
+  ): Promise<BranchSyncStatus> {
+    if (!task.worktree || this.strategy === "none") return "up_to_date";
+
+    const { status, conflictedFiles, hunks } = await this.worktreeManager.syncWithMain(task.worktree, this.strategy);
+
+    if (status === "conflict") {
+      await this.reportConflict(task, stage, conflictedFiles, hunks, agentId, agentRole);
+      return status;
+    }
+
+    if (status === "updated") {
+      await this.kanban.recordBranchSync(task.id, agentId, `Updated from main (${this.strategy}) before ${stage}`);
+      this.eventBus.emit({
+        type: "agent:message",
+        agentId,
+        agentRole,
+        timestamp: Date.now(),
+        summary: `Updated ${task.branch ?? task.id} from main before ${stage}`,
+        data: { taskId: task.id, branch: task.branch, stage, strategy: this.strategy },
+      });
+    } else if (task.mergeConflict) {
+      await this.kanban.clearMergeConflict(task.id, agentId);
+    }
+
+    return status;
+  }
+
+  /**
+   * Store a conflict report and hand the task back to its assignee to merge
+   * main and resolve it. After `maxAttempts` conflicts in a row the task is
+   * blocked instead, so an unresolvable conflict cannot loop forever.
+   */
+  async reportConflict(
+    task: Task,
+    stage: MergeConflictReport["stage"],
+    files: string[],
+    hunks: ConflictHunk[],
+    agentId: string,
+    agentRole: string,
+  ): Promise<void> {
+    const attempts = (task.mergeConflict?.attempts ?? 0) + 1;
+    await this.kanban.recordMergeConflict(task.id, { stage, files, hunks, attempts, detectedAt: Date.now() }, agentId);
+
+    if (attempts > this.maxAttempts) {
+      const detail = `Unresolved merge conflict with main after ${this.maxAttempts} attempts: ${files.join(", ")}`;
+      await this.kanban.moveTask(task.id, "blocked", agentId, detail);
+      this.eventBus.emit({
+        type: "agent:error",
+        agentId,
+        agentRole,
+        timestamp: Date.now(),
+        summary: `${detail} (${task.title})`,
+        data: { taskId: task.id, branch: task.branch, stage, files, attempts },
+      });
+      return;
+    }
+
+    await this.kanban.moveTask(
+      task.id,
+      "in_progress",
+      agentId,
+      `Conflicts with main — back to ${task.assignee ?? "an engineer"} to resolve`,
+    );
+    this.eventBus.emit({
+      type: "agent:message",
+      agentId,
+      agentRole,
+      timestamp: Date.now(),
+      summary: `Merge conflict with main: ${task.title} (${files.join(", ")})`,
+      data: { taskId: task.id, branch: task.branch, stage, files, hunks: hunks.length, attempts },
+    });
+  }
+}
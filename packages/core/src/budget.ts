@@ -0,0 +1,64 @@
+import type { BudgetConfig, BudgetLimit, UsageSource, UsageTotals } from "./types.js";
+
+const DEFAULT_RUN_STOP_RATIO = 0.9;
+
+/**
+ * Checks live usage totals against the `workflow.budget` caps. Each check
+ * returns a human-readable reason when a cap is hit, or `undefined`.
+ */
+export class BudgetGuard {
+  constructor(
+    private usage: UsageSource,
+    private budget: BudgetConfig = {},
+  ) {}
+
+  /** Whether the task, the agent working on it, or the whole run has used up its cap. */
+  checkTask(taskId: string, agentId: string): string | undefined {
+    return this.checkTaskOrRun(taskId) ?? this.checkAgent(agentId);
+  }
+
+  /** Whether the task or the whole run has used up its cap — no other agent could carry on. */
+  checkTaskOrRun(taskId: string): string | undefined {
+    const report = this.usage.getUsageReport();
+    return exceededReason("task", report.byTask[taskId], this.budget.per_task)
+      ?? exceededReason("run", report.total, this.budget.per_run);
+  }
+
+  checkAgent(agentId: string): string | undefined {
+    const report = this.usage.getUsageReport();
+    return exceededReason("agent", report.byAgent[agentId], this.budget.per_agent);
+  }
+
+  /**
+   * Whether the run is close enough to its cap (`run_stop_ratio`, default 0.9)
+   * that no new work should be started.
+   */
+  checkRunHeadroom(): string | undefined {
+    const ratio = this.budget.run_stop_ratio ?? DEFAULT_RUN_STOP_RATIO;
+    return exceededReason("run", this.usage.getUsageReport().total, this.budget.per_run, ratio);
+  }
+}
+
+/** Tokens counted against `max_tokens`: input, cached input and output. */
+export function totalTokens(usage: UsageTotals): number {
+  return usage.inputTokens + usage.cachedInputTokens + usage.outputTokens;
+}
+
+function exceededReason(
+  scope: string,
+  usage: UsageTotals | undefined,
+  limit: BudgetLimit | undefined,
+  ratio = 1,
+): string | undefined {
+  if (!usage || !limit) return undefined;
+
+  const label = ratio < 1 ? `${Math.round(ratio * 100)}% of ${scope} budget` : `${scope} budget`;
+  if (limit.max_usd !== undefined && usage.costUsd >= limit.max_usd * ratio) {
+    return `${label} reached: $${usage.costUsd.toFixed(2)} of $${limit.max_usd.toFixed(2)}`;
+  }
+  const tokens = totalTokens(usage);
+  if (limit.max_tokens !== undefined && tokens >= limit.max_tokens * ratio) {
+    return `${label} reached: ${tokens} of ${limit.max_tokens} tokens`;
+  }
+  return undefined;
+}
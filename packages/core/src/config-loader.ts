@@ -1,4 +1,5 @@
 import { readFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
 import { parse as parseYaml } from "yaml";
 import { teamConfigSchema, type TeamConfig, type AgentConfig } from "./types.js";
 
@@ -16,7 +17,14 @@ export async function loadConfig(configPath: string): Promise<TeamConfig> {
     team: validated.team.map((agent, i) => ({
       ...agent,
       id: agent.id ?? `${agent.role}-${i}`,
+      // Mock fixtures, like plugins, are relative to the config file
+      ...(agent.fixture ? { fixture: resolve(dirname(configPath), agent.fixture) } : {}),
     })) as AgentConfig[],
+    // Plugin paths are relative to the config file, not the process cwd
+    plugins: validated.plugins.map((plugin) => ({
+      ...plugin,
+      path: resolve(dirname(configPath), plugin.path),
+    })),
   };
 
   return config;
@@ -55,8 +63,10 @@ export function defaultConfig(overrides?: Partial<TeamConfig>): TeamConfig {
       max_retries: 3,
       review_required: true,
       auto_merge: true,
+      max_gap_rounds: 2,
     },
     plugins: [],
+    pricing: {},
     ...overrides,
   };
 }
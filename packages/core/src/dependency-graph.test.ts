@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { analyzeDependencies, findDependencyCycle, findDependents } from "./dependency-graph.js";
+import type { Task, TaskStatus } from "./types.js";
+
+describe("analyzeDependencies", () => {
+  it("finds each cycle once, in dependency order", () => {
+    const tasks = [task("a", ["b"]), task("b", ["c"]), task("c", ["a"]), task("d", ["d"]), task("e", ["a"])];
+    const report = analyzeDependencies(tasks);
+    expect(report.cycles).toEqual([["a", "b", "c"], ["d"]]);
+    expect(report.schedule).toEqual([]);
+    expect(report.unschedulable).toContainEqual({ taskId: "e", reason: "cycle", rootTaskId: "a", chain: ["a"] });
+  });
+
+  it("reports dependencies on tasks missing from the board", () => {
+    const report = analyzeDependencies([task("a", ["gone"]), task("b", ["a"])]);
+    expect(report.dangling).toEqual([{ taskId: "a", dependsOn: "gone" }]);
+    expect(report.unschedulable).toEqual([
+      { taskId: "a", reason: "dangling", rootTaskId: "gone", chain: ["gone"] },
+      { taskId: "b", reason: "dangling", rootTaskId: "gone", chain: ["a", "gone"] },
+    ]);
+  });
+
+  it("reports the chain down to a blocked dependency", () => {
+    const tasks = [task("root", [], "blocked"), task("mid", ["root"]), task("leaf", ["mid"]), task("free", [])];
+    const report = analyzeDependencies(tasks);
+    expect(report.unschedulable.map(({ taskId, chain }) => [taskId, chain])).toEqual([
+      ["mid", ["root"]],
+      ["leaf", ["mid", "root"]],
+    ]);
+    expect(report.schedule).toEqual([["free"]]);
+  });
+
+  it("schedules in waves with the longest chain first", () => {
+    const tasks = [
+      task("short", []),
+      task("long", []),
+      task("done", [], "done"),
+      task("next", ["long", "done"]),
+      task("last", ["next"]),
+    ];
+    const report = analyzeDependencies(tasks);
+    expect(report.schedule).toEqual([["long", "short"], ["next"], ["last"]]);
+    expect(report.criticalPath).toEqual(["long", "next", "last"]);
+    expect(report.chainLength).toMatchObject({ long: 3, short: 1, done: 2 });
+  });
+});
+
+describe("findDependencyCycle", () => {
+  it("returns the loop a new dependency would close", () => {
+    const tasks = [task("a", []), task("b", ["c"]), task("c", ["a"])];
+    expect(findDependencyCycle(tasks, "a", ["b"])).toEqual(["a", "b", "c", "a"]);
+    expect(findDependencyCycle(tasks, "b", ["a"])).toBeUndefined();
+  });
+});
+
+describe("findDependents", () => {
+  it("returns direct and transitive dependents once, nearest first", () => {
+    const tasks = [task("leaf", ["mid", "root"]), task("mid", ["root"]), task("root", []), task("other", [])];
+    expect(findDependents(tasks, "root").map((t) => t.id)).toEqual(["leaf", "mid"]);
+    expect(findDependents(tasks, "other")).toEqual([]);
+  });
+});
+
+function task(id: string, dependsOn: string[], status: TaskStatus = "backlog"): Task {
+  return {
+    id,
+    title: id,
+    description: "",
+    acceptanceCriteria: [],
+    status,
+    priority: "medium",
+    retryCount: 0,
+    history: [],
+    createdBy: "test",
+    dependsOn,
+  };
+}
@@ -0,0 +1,285 @@
+import type { Task } from "./types.js";
+
+/** A `dependsOn` entry naming a task that is not on the board. */
+export interface DanglingDependency {
+  taskId: string;
+  dependsOn: string;
+}
+
+/**
+ * Why a backlog task can never start as the board stands: a dependency, or
+ * one further upstream, is blocked, missing from the board, or in a cycle.
+ */
+export interface UnschedulableTask {
+  taskId: string;
+  reason: "blocked" | "dangling" | "cycle";
+  /** The blocked task, the missing ID, or the cycle member the chain ends at. */
+  rootTaskId: string;
+  /** Dependencies from `taskId` up to and including `rootTaskId`; empty when the task is in a cycle itself. */
+  chain: string[];
+}
+
+export interface DependencyGraphReport {
+  /** Each cycle once, in dependency order: every task depends on the next, the last on the first. */
+  cycles: string[][];
+  dangling: DanglingDependency[];
+  /**
+   * Unfinished, schedulable tasks in waves: every task's dependencies are
+   * done or in an earlier wave. Within a wave, longest chain first.
+   */
+  schedule: string[][];
+  /** The longest chain of unfinished tasks, first to last. */
+  criticalPath: string[];
+  /** Unfinished tasks on the longest chain that starts at each task, itself included. */
+  chainLength: Record<string, number>;
+  unschedulable: UnschedulableTask[];
+}
+
+/**
+ * Validate the `dependsOn` graph of a board and plan around it. Done tasks
+ * count as satisfied and add nothing to chain lengths; tasks in a cycle are
+ * left out of the schedule and the chains.
+ */
+export function analyzeDependencies(tasks: Task[]): DependencyGraphReport {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const dependencies = new Map<string, string[]>();
+  const dependents = new Map<string, string[]>(tasks.map((task) => [task.id, []]));
+  const dangling: DanglingDependency[] = [];
+
+  for (const task of tasks) {
+    const known: string[] = [];
+    for (const depId of new Set(task.dependsOn ?? [])) {
+      if (byId.has(depId)) {
+        known.push(depId);
+        dependents.get(depId)!.push(task.id);
+      } else {
+        dangling.push({ taskId: task.id, dependsOn: depId });
+      }
+    }
+    dependencies.set(task.id, known);
+  }
+
+  const cycles = findCycles(tasks, dependencies);
+  const inCycle = new Set(cycles.flat());
+  const unfinished = (id: string): boolean => byId.get(id)!.status !== "done" && !inCycle.has(id);
+
+  const chainLength: Record<string, number> = {};
+  const measure = (id: string): number => {
+    if (chainLength[id] !== undefined) return chainLength[id];
+    const downstream = dependents.get(id)!.filter((depId) => !inCycle.has(depId)).map(measure);
+    chainLength[id] = (unfinished(id) ? 1 : 0) + Math.max(0, ...downstream);
+    return chainLength[id];
+  };
+  for (const task of tasks) {
+    if (!inCycle.has(task.id)) measure(task.id);
+  }
+
+  const unschedulable = findUnschedulable(tasks, byId, new Set(dangling.map((ref) => ref.dependsOn)), inCycle);
+  const stuck = new Set(unschedulable.map((entry) => entry.taskId));
+
+  return {
+    cycles,
+    dangling,
+    schedule: buildSchedule(tasks, dependencies, chainLength, (task) =>
+      unfinished(task.id) && task.status !== "blocked" && !stuck.has(task.id)),
+    criticalPath: traceCriticalPath(tasks, dependents, chainLength, unfinished),
+    chainLength,
+    unschedulable,
+  };
+}
+
+/**
+ * The cycle `taskId` would join if it depended on `dependsOn`, as the tasks
+ * from `taskId` round to itself, or undefined when the graph stays acyclic.
+ */
+export function findDependencyCycle(tasks: Task[], taskId: string, dependsOn: string[]): string[] | undefined {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const cameFrom = new Map<string, string>();
+  const queue = dependsOn.filter((depId) => byId.has(depId));
+  for (const depId of queue) cameFrom.set(depId, taskId);
+
+  for (let i = 0; i < queue.length; i++) {
+    const current = queue[i];
+    if (current === taskId) {
+      const path = [taskId];
+      for (let step = cameFrom.get(taskId)!; step !== taskId; step = cameFrom.get(step)!) path.unshift(step);
+      return [taskId, ...path];
+    }
+    for (const next of byId.get(current)?.dependsOn ?? []) {
+      if (!byId.has(next) || cameFrom.has(next)) continue;
+      cameFrom.set(next, current);
+      queue.push(next);
+    }
+  }
+  return undefined;
+}
+
+/** Every task that depends on `taskId`, directly or through others, nearest first. */
+export function findDependents(tasks: Task[], taskId: string): Task[] {
+  const found: Task[] = [];
+  const seen = new Set([taskId]);
+  for (let i = -1; i < found.length; i++) {
+    const upstreamId = i < 0 ? taskId : found[i].id;
+    for (const task of tasks) {
+      if (seen.has(task.id) || !task.dependsOn?.includes(upstreamId)) continue;
+      seen.add(task.id);
+      found.push(task);
+    }
+  }
+  return found;
+}
+
+/** One concrete cycle per strongly connected component (Tarjan), in board order. */
+function findCycles(tasks: Task[], dependencies: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const components: string[][] = [];
+
+  const visit = (id: string): void => {
+    index.set(id, index.size);
+    lowLink.set(id, index.get(id)!);
+    stack.push(id);
+    onStack.add(id);
+    for (const depId of dependencies.get(id)!) {
+      if (!index.has(depId)) {
+        visit(depId);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(depId)!));
+      } else if (onStack.has(depId)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(depId)!));
+      }
+    }
+    if (lowLink.get(id) !== index.get(id)) return;
+    const component: string[] = [];
+    let member: string;
+    do {
+      member = stack.pop()!;
+      onStack.delete(member);
+      component.push(member);
+    } while (member !== id);
+    if (component.length > 1 || dependencies.get(id)!.includes(id)) components.push(component);
+  };
+
+  for (const task of tasks) {
+    if (!index.has(task.id)) visit(task.id);
+  }
+
+  const position = new Map(tasks.map((task, i) => [task.id, i]));
+  return components
+    .map((component) => {
+      const members = new Set(component);
+      const start = component.reduce((a, b) => (position.get(a)! < position.get(b)! ? a : b));
+      return pathWithin(start, members, dependencies);
+    })
+    .sort((a, b) => position.get(a[0])! - position.get(b[0])!);
+}
+
+/** A path from `start` through its component back to (but not repeating) `start`. */
+function pathWithin(start: string, members: Set<string>, dependencies: Map<string, string[]>): string[] {
+  const cameFrom = new Map<string, string>();
+  const queue = [start];
+  for (let i = 0; i < queue.length; i++) {
+    for (const depId of dependencies.get(queue[i])!) {
+      if (!members.has(depId)) continue;
+      if (depId === start) {
+        const path = [queue[i]];
+        while (path[0] !== start) path.unshift(cameFrom.get(path[0])!);
+        return path;
+      }
+      if (!cameFrom.has(depId)) {
+        cameFrom.set(depId, queue[i]);
+        queue.push(depId);
+      }
+    }
+  }
+  return [start];
+}
+
+function findUnschedulable(
+  tasks: Task[],
+  byId: Map<string, Task>,
+  missing: Set<string>,
+  inCycle: Set<string>,
+): UnschedulableTask[] {
+  const causes = new Map<string, Omit<UnschedulableTask, "taskId"> | null>();
+
+  // What keeps `id` from ever starting; cycle members end the walk, so it terminates
+  const causeFor = (id: string): Omit<UnschedulableTask, "taskId"> | null => {
+    if (causes.has(id)) return causes.get(id)!;
+    let cause: Omit<UnschedulableTask, "taskId"> | null = null;
+    const task = byId.get(id)!;
+    for (const depId of task.dependsOn ?? []) {
+      if (missing.has(depId)) {
+        cause = { reason: "dangling", rootTaskId: depId, chain: [depId] };
+      } else if (inCycle.has(depId)) {
+        cause = { reason: "cycle", rootTaskId: depId, chain: [depId] };
+      } else {
+        const dep = byId.get(depId)!;
+        if (dep.status === "done") continue;
+        if (dep.status === "blocked") {
+          cause = { reason: "blocked", rootTaskId: depId, chain: [depId] };
+        } else {
+          const upstream = causeFor(depId);
+          if (upstream) cause = { ...upstream, chain: [depId, ...upstream.chain] };
+        }
+      }
+      if (cause) break;
+    }
+    causes.set(id, cause);
+    return cause;
+  };
+
+  const result: UnschedulableTask[] = [];
+  for (const task of tasks) {
+    if (task.status !== "backlog") continue;
+    const cause = inCycle.has(task.id)
+      ? { reason: "cycle" as const, rootTaskId: task.id, chain: [] }
+      : causeFor(task.id);
+    if (cause) result.push({ taskId: task.id, ...cause });
+  }
+  return result;
+}
+
+function buildSchedule(
+  tasks: Task[],
+  dependencies: Map<string, string[]>,
+  chainLength: Record<string, number>,
+  include: (task: Task) => boolean,
+): string[][] {
+  const included = new Set(tasks.filter(include).map((task) => task.id));
+  const wave = new Map<string, number>();
+  const waveOf = (id: string): number => {
+    if (wave.has(id)) return wave.get(id)!;
+    const upstream = dependencies.get(id)!.filter((depId) => included.has(depId)).map(waveOf);
+    wave.set(id, upstream.length === 0 ? 0 : 1 + Math.max(...upstream));
+    return wave.get(id)!;
+  };
+
+  const schedule: string[][] = [];
+  for (const task of tasks) {
+    if (!included.has(task.id)) continue;
+    const n = waveOf(task.id);
+    while (schedule.length <= n) schedule.push([]);
+    schedule[n].push(task.id);
+  }
+  // Array.prototype.sort is stable, so ties keep board order
+  return schedule.map((ids) => ids.sort((a, b) => chainLength[b] - chainLength[a]));
+}
+
+function traceCriticalPath(
+  tasks: Task[],
+  dependents: Map<string, string[]>,
+  chainLength: Record<string, number>,
+  unfinished: (id: string) => boolean,
+): string[] {
+  const longest = (ids: string[]): string | undefined => ids
+    .filter(unfinished)
+    .reduce<string | undefined>((best, id) => (best === undefined || chainLength[id] > chainLength[best] ? id : best), undefined);
+
+  const path: string[] = [];
+  for (let id = longest(tasks.map((task) => task.id)); id !== undefined; id = longest(dependents.get(id)!)) {
+    path.push(id);
+  }
+  return path;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { planDiffChunks, splitDiffByFile } from "./diff-chunks.js";
+
+describe("splitDiffByFile", () => {
+  it("returns one entry per changed file", () => {
+    const diff = [fileDiff("a.ts", ["+one"]), fileDiff("b.ts", ["+two"])].join("\n");
+    expect(splitDiffByFile(diff).map((file) => file.path)).toEqual(["a.ts", "b.ts"]);
+  });
+});
+
+describe("planDiffChunks", () => {
+  it("keeps small files together in one chunk", () => {
+    const diff = [fileDiff("a.ts", ["+one"]), fileDiff("b.ts", ["+two"])].join("\n");
+    expect(planDiffChunks(diff, 1000, 4).chunks.map((chunk) => chunk.files)).toEqual([["a.ts", "b.ts"]]);
+  });
+
+  it("starts a new chunk when the next file does not fit", () => {
+    const diff = [fileDiff("a.ts", lines("a", 20)), fileDiff("b.ts", lines("b", 20))].join("\n");
+    expect(planDiffChunks(diff, 400, 4).chunks.map((chunk) => chunk.files)).toEqual([["a.ts"], ["b.ts"]]);
+  });
+
+  it("splits an oversized file between lines and repeats its header", () => {
+    const plan = planDiffChunks(fileDiff("big.ts", lines("x", 60)), 400, 10);
+    expect(plan.chunks.length).toBeGreaterThan(1);
+    expect(plan.chunks.every((chunk) => chunk.text.startsWith("diff --git a/big.ts b/big.ts") && chunk.text.length <= 400))
+      .toBe(true);
+  });
+
+  it("keeps every line of an oversized file across its chunks", () => {
+    const plan = planDiffChunks(fileDiff("big.ts", lines("x", 60)), 400, 10);
+    const added = plan.chunks.flatMap((chunk) => chunk.text.split("\n").filter((line) => line.startsWith("+x")));
+    expect(added).toHaveLength(60);
+  });
+
+  it("reports files beyond the chunk limit as overflow", () => {
+    const diff = ["a.ts", "b.ts", "c.ts"].map((path) => fileDiff(path, lines(path, 20))).join("\n");
+    const plan = planDiffChunks(diff, 400, 2);
+    expect([plan.chunks.length, plan.overflow]).toEqual([2, ["c.ts"]]);
+  });
+});
+
+function fileDiff(path: string, added: string[]): string {
+  return [
+    `diff --git a/${path} b/${path}`,
+    "index 0000000..1111111 100644",
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    `@@ -0,0 +1,${added.length} @@`,
+    ...added,
+  ].join("\n");
+}
+
+function lines(prefix: string, count: number): string[] {
+  return Array.from({ length: count }, (_, i) => `+${prefix} line ${i}`);
+}
@@ -0,0 +1,148 @@
+const FILE_HEADER_PREFIX = "diff --git ";
+const HUNK_HEADER_PATTERN = /^@@ .* @@/;
+
+export interface FileDiff {
+  path: string;
+  text: string;
+}
+
+export interface DiffChunk {
+  /** Files with at least part of their diff in this chunk. */
+  files: string[];
+  text: string;
+}
+
+export interface DiffChunkPlan {
+  /** Every file changed by the diff, in diff order. */
+  files: string[];
+  chunks: DiffChunk[];
+  /** Files that did not fit into `maxChunks` chunks, left for the reviewer to pull on its own. */
+  overflow: string[];
+}
+
+interface DiffPiece {
+  path: string;
+  text: string;
+}
+
+/** Split a `git diff` into one entry per changed file. */
+export function splitDiffByFile(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let current: { path: string; lines: string[] } | undefined;
+
+  for (const line of diff.split("\n")) {
+    if (line.startsWith(FILE_HEADER_PREFIX)) {
+      if (current) files.push({ path: current.path, text: current.lines.join("\n").trimEnd() });
+      current = { path: parseFilePath(line), lines: [line] };
+    } else if (current) {
+      current.lines.push(line);
+    }
+  }
+  if (current) files.push({ path: current.path, text: current.lines.join("\n").trimEnd() });
+
+  return files;
+}
+
+/**
+ * Pack a diff into chunks of at most `maxChunkChars`, keeping files together
+ * where possible. Files larger than a chunk are split between hunks (and
+ * oversized hunks between lines), repeating the file header so every chunk
+ * reads as a valid diff. Whatever does not fit into `maxChunks` chunks ends
+ * up in `overflow`; a file counts as overflow unless all of it was packed.
+ */
+export function planDiffChunks(diff: string, maxChunkChars: number, maxChunks: number): DiffChunkPlan {
+  const fileDiffs = splitDiffByFile(diff);
+  const pieces = fileDiffs.flatMap((file) => splitFileDiff(file, maxChunkChars));
+
+  const packed: DiffPiece[][] = [];
+  let size = 0;
+  for (const piece of pieces) {
+    const current = packed.at(-1);
+    if (current && size + piece.text.length + 1 <= maxChunkChars) {
+      current.push(piece);
+      size += piece.text.length + 1;
+    } else {
+      packed.push([piece]);
+      size = piece.text.length;
+    }
+  }
+
+  const kept = packed.slice(0, maxChunks);
+  const dropped = new Set(packed.slice(maxChunks).flat().map((piece) => piece.path));
+  const files = fileDiffs.map((file) => file.path);
+
+  return {
+    files,
+    chunks: kept.map((chunk) => ({
+      files: [...new Set(chunk.map((piece) => piece.path))],
+      text: chunk.map((piece) => piece.text).join("\n"),
+    })),
+    overflow: files.filter((path) => dropped.has(path)),
+  };
+}
+
+function splitFileDiff(file: FileDiff, maxChunkChars: number): DiffPiece[] {
+  if (file.text.length <= maxChunkChars) return [file];
+
+  const lines = file.text.split("\n");
+  const firstHunk = lines.findIndex((line) => HUNK_HEADER_PATTERN.test(line));
+  if (firstHunk === -1) return [file];
+
+  const header = lines.slice(0, firstHunk).join("\n");
+  const hunks: string[][] = [];
+  for (const line of lines.slice(firstHunk)) {
+    if (HUNK_HEADER_PATTERN.test(line)) hunks.push([line]);
+    else hunks.at(-1)?.push(line);
+  }
+
+  // Room left for hunk lines once the file header is repeated
+  const budget = Math.max(maxChunkChars - header.length - 1, 1);
+  const pieces: DiffPiece[] = [];
+  let group: string[] = [];
+  let groupSize = 0;
+  const flush = (): void => {
+    if (group.length > 0) pieces.push({ path: file.path, text: `${header}\n${group.join("\n")}` });
+    group = [];
+    groupSize = 0;
+  };
+
+  for (const hunk of hunks) {
+    for (const slice of sliceHunk(hunk, budget)) {
+      if (group.length > 0 && groupSize + slice.length + 1 > budget) flush();
+      group.push(slice);
+      groupSize += slice.length + 1;
+    }
+  }
+  flush();
+
+  return pieces;
+}
+
+/** Keep a hunk whole when it fits, otherwise cut it between lines under a repeated hunk header. */
+function sliceHunk(hunk: string[], budget: number): string[] {
+  const text = hunk.join("\n");
+  if (text.length <= budget) return [text];
+
+  const [hunkHeader, ...body] = hunk;
+  const continued = `${hunkHeader} (continued)`;
+  const slices: string[] = [];
+  let current = [hunkHeader];
+  let size = hunkHeader.length;
+  for (const line of body) {
+    if (current.length > 1 && size + line.length + 1 > budget) {
+      slices.push(current.join("\n"));
+      current = [continued];
+      size = continued.length;
+    }
+    current.push(line);
+    size += line.length + 1;
+  }
+  slices.push(current.join("\n"));
+
+  return slices;
+}
+
+function parseFilePath(headerLine: string): string {
+  const match = headerLine.match(/^diff --git a\/(.+) b\/(.+)$/);
+  return match ? match[2] : headerLine.slice(FILE_HEADER_PREFIX.length);
+}
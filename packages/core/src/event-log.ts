@@ -0,0 +1,118 @@
+import { existsSync } from "node:fs";
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { EventBus } from "./event-bus.js";
+import type { AgentEvent, EventLogQuery, PersistedEvent } from "./types.js";
+
+const EVENT_LOG_DIR = ".arkaledge";
+const EVENT_LOG_FILE = "events.jsonl";
+
+/**
+ * Append-only record of every `AgentEvent` in `<projectDir>/.arkaledge/events.jsonl`.
+ * Each line carries a monotonic `id` (continuing across resumed runs) so SSE
+ * clients can replay what they missed via `Last-Event-ID` or `?since=`.
+ */
+export class EventLog {
+  private filePath: string;
+  private dirPath: string;
+  private lastId = 0;
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private subscribers = new Set<(event: PersistedEvent) => void>();
+  private attachedBus: EventBus | undefined;
+  private attachedAfterId = 0;
+
+  constructor(private projectDir: string) {
+    this.dirPath = join(projectDir, EVENT_LOG_DIR);
+    this.filePath = join(this.dirPath, EVENT_LOG_FILE);
+  }
+
+  /** Ensure the log directory exists and pick up the last id from a previous run. */
+  async init(): Promise<void> {
+    await mkdir(this.dirPath, { recursive: true });
+    const events = await this.readAll();
+    this.lastId = events.length > 0 ? events[events.length - 1].id : 0;
+  }
+
+  /** Persist every event emitted on the bus until `detach()` is called. */
+  attach(eventBus: EventBus): void {
+    this.detach();
+    eventBus.on("*", this.handleEvent);
+    this.attachedBus = eventBus;
+    this.attachedAfterId = this.lastId;
+  }
+
+  detach(): void {
+    this.attachedBus?.off("*", this.handleEvent);
+    this.attachedBus = undefined;
+  }
+
+  /** Receive events after they have been assigned an id. Returns an unsubscribe function. */
+  subscribe(handler: (event: PersistedEvent) => void): () => void {
+    this.subscribers.add(handler);
+    return () => {
+      this.subscribers.delete(handler);
+    };
+  }
+
+  getLastId(): number {
+    return this.lastId;
+  }
+
+  /** Id of the last event logged before the latest `attach()`. */
+  getAttachedAfterId(): number {
+    return this.attachedAfterId;
+  }
+
+  /** Read persisted events matching the query, oldest first. Waits for queued writes. */
+  async read(query: EventLogQuery = {}): Promise<PersistedEvent[]> {
+    await this.pendingWrite;
+    const events = await this.readAll();
+    return events.filter((event) => matchesEventQuery(event, query));
+  }
+
+  private handleEvent = (event: AgentEvent): void => {
+    const persisted = { id: ++this.lastId, ...event } as PersistedEvent;
+    const line = `${JSON.stringify(persisted)}\n`;
+    // Chain appends so lines land in id order
+    this.pendingWrite = this.pendingWrite
+      .then(() => appendFile(this.filePath, line))
+      .catch(() => undefined);
+
+    for (const subscriber of this.subscribers) {
+      subscriber(persisted);
+    }
+  };
+
+  private async readAll(): Promise<PersistedEvent[]> {
+    if (!existsSync(this.filePath)) return [];
+
+    const raw = await readFile(this.filePath, "utf-8");
+    const events: PersistedEvent[] = [];
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const event = JSON.parse(line) as PersistedEvent;
+        if (typeof event.id === "number") events.push(event);
+      } catch {
+        // Skip a torn trailing line from an interrupted write
+      }
+    }
+    return events;
+  }
+}
+
+/**
+ * `types` entries match exactly, or by prefix when they end with ":" (e.g. "task:").
+ */
+export function matchesEventQuery(event: PersistedEvent, query: EventLogQuery): boolean {
+  if (query.afterId !== undefined && event.id <= query.afterId) return false;
+  if (query.agentId && event.agentId !== query.agentId) return false;
+  if (query.taskId && event.data?.taskId !== query.taskId) return false;
+  if (query.types && query.types.length > 0) {
+    const matchesType = query.types.some((type) => (
+      type.endsWith(":") ? event.type.startsWith(type) : event.type === type
+    ));
+    if (!matchesType) return false;
+  }
+  return true;
+}
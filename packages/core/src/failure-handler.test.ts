@@ -0,0 +1,362 @@
+import { execFile } from "node:child_process";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AgentRuntime } from "./agents/agent-runtime.js";
+import { BranchSync } from "./branch-sync.js";
+import { EventBus } from "./event-bus.js";
+import { FailureHandler } from "./failure-handler.js";
+import { KanbanManager } from "./kanban.js";
+import { ScrumMasterPlanner } from "./roles/scrum-master-planner.js";
+import { RuntimeWatchdogError } from "./runtime-watchdog.js";
+import type { AgentConfig, AgentEvent, AgentMessage, SdkType, Task } from "./types.js";
+import { WorktreeManager } from "./worktree-manager.js";
+
+const execFileAsync = promisify(execFile);
+const GIT_IDENTITY = ["-c", "user.name=Test", "-c", "user.email=test@local"];
+const MAX_RETRIES = 2;
+const SPLIT_DECISION = JSON.stringify({
+  action: "split",
+  reason: "Too large",
+  subtasks: [
+    { title: "Part A", description: "", acceptanceCriteria: [] },
+    { title: "Part B", description: "", acceptanceCriteria: [], dependsOn: [0] },
+  ],
+});
+
+type EngineerMap = Map<string, { runtime: AgentRuntime; config: AgentConfig }>;
+
+describe("FailureHandler", () => {
+  let projectDir: string;
+  let eventBus: EventBus;
+  let kanban: KanbanManager;
+  let handler: FailureHandler;
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), "arkaledge-failure-"));
+    eventBus = new EventBus();
+    kanban = new KanbanManager(projectDir, eventBus);
+    await kanban.init();
+    handler = new FailureHandler(kanban, eventBus, MAX_RETRIES);
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  describe("under the retry limit", () => {
+    it("returns the task to the backlog after the backoff", async () => {
+      const task = await blockedTask(kanban, { retryCount: 0 });
+      expect(await handleWithBackoff(handler, task, engineers(["eng-1", "claude"]))).toBe("retry");
+    });
+
+    it("moves the task to backlog with an incremented retry count", async () => {
+      const task = await blockedTask(kanban, { retryCount: 1 });
+      await handleWithBackoff(handler, task, engineers(["eng-1", "claude"]));
+      expect(await findTask(kanban, task.id)).toMatchObject({ status: "backlog", retryCount: 2 });
+    });
+
+    it("waits for the exponential backoff before retrying", async () => {
+      vi.useFakeTimers({ toFake: ["setTimeout"] });
+      const task = await blockedTask(kanban, { retryCount: 1 });
+      const pending = handler.handleFailure(task, engineers(["eng-1", "claude"]));
+
+      await vi.advanceTimersByTimeAsync(3_999);
+      const statusBeforeBackoff = (await findTask(kanban, task.id)).status;
+      await vi.advanceTimersByTimeAsync(1);
+      await pending;
+      expect(statusBeforeBackoff).toBe("blocked");
+    });
+  });
+
+  describe("at the retry limit", () => {
+    it("reassigns to an engineer on a different SDK", async () => {
+      const task = await blockedTask(kanban, { retryCount: MAX_RETRIES, assignee: "eng-1" });
+      const team = engineers(["eng-1", "claude"], ["eng-2", "codex"]);
+      expect(await handler.handleFailure(task, team)).toBe("reassigned");
+    });
+
+    it("clears the assignee and retry count when reassigning", async () => {
+      const task = await blockedTask(kanban, { retryCount: MAX_RETRIES, assignee: "eng-1" });
+      await handler.handleFailure(task, engineers(["eng-1", "claude"], ["eng-2", "codex"]));
+      const { status, retryCount, assignee } = await findTask(kanban, task.id);
+      expect({ status, retryCount, assignee }).toEqual({ status: "backlog", retryCount: 0, assignee: undefined });
+    });
+
+    it("blocks when every other engineer uses the same SDK and model", async () => {
+      const task = await blockedTask(kanban, { retryCount: MAX_RETRIES, assignee: "eng-1" });
+      const team = engineers(["eng-1", "claude"], ["eng-2", "claude"]);
+      expect(await handler.handleFailure(task, team)).toBe("blocked");
+    });
+
+    it("announces a permanent block only once", async () => {
+      const task = await blockedTask(kanban, { retryCount: MAX_RETRIES, assignee: "eng-1" });
+      const errors = collectEvents(eventBus, "agent:error");
+      const team = engineers(["eng-1", "claude"]);
+      await handler.handleFailure(task, team);
+      await handler.handleFailure(task, team);
+      expect(errors).toHaveLength(1);
+    });
+  });
+
+  describe("with a Scrum Master planner", () => {
+    it("reassigns to the engineer the planner picked", async () => {
+      const task = await blockedTask(kanban, { retryCount: MAX_RETRIES, assignee: "eng-1" });
+      const planned = plannedHandler('{"action": "reassign", "engineerId": "eng-3", "reason": "Better model"}');
+      await planned.handleFailure(task, engineers(["eng-1", "claude"], ["eng-2", "codex"], ["eng-3", "claude"]));
+      expect(await findTask(kanban, task.id)).toMatchObject({ status: "backlog", assignee: "eng-3", retryCount: 0 });
+    });
+
+    it("replaces a split task with backlog subtasks", async () => {
+      const task = await blockedTask(kanban, { retryCount: MAX_RETRIES, assignee: "eng-1" });
+      await plannedHandler(SPLIT_DECISION).handleFailure(task, engineers(["eng-1", "claude"]));
+      const subtasks = (await kanban.getAllTasks()).filter((t) => t.id !== task.id);
+      expect(subtasks.map((t) => [t.title, t.status])).toEqual([["Part A", "backlog"], ["Part B", "backlog"]]);
+    });
+
+    it("rewires dependents of a split task to its subtasks", async () => {
+      const task = await blockedTask(kanban, { retryCount: MAX_RETRIES, assignee: "eng-1" });
+      const dependent = await kanban.addTask({
+        title: "Dependent",
+        description: "",
+        acceptanceCriteria: [],
+        status: "backlog",
+        priority: "medium",
+        createdBy: "test",
+        dependsOn: [task.id],
+      });
+      await plannedHandler(SPLIT_DECISION).handleFailure(task, engineers(["eng-1", "claude"]));
+      const tasks = await kanban.getAllTasks();
+      const subtaskIds = tasks.filter((t) => t.title.startsWith("Part")).map((t) => t.id);
+      expect((await findTask(kanban, dependent.id)).dependsOn).toEqual(subtaskIds);
+    });
+
+    it("closes a split task as done", async () => {
+      const task = await blockedTask(kanban, { retryCount: MAX_RETRIES, assignee: "eng-1" });
+      expect(await plannedHandler(SPLIT_DECISION).handleFailure(task, engineers(["eng-1", "claude"]))).toBe("split");
+      expect((await findTask(kanban, task.id)).status).toBe("done");
+    });
+
+    it("keeps an escalated task blocked on later passes", async () => {
+      const task = await blockedTask(kanban, { retryCount: MAX_RETRIES, assignee: "eng-1" });
+      const team = engineers(["eng-1", "claude"], ["eng-2", "codex"]);
+      await plannedHandler('{"action": "block", "reason": "Needs credentials"}').handleFailure(task, team);
+      const escalated = await findTask(kanban, task.id);
+      expect(await handler.handleFailure(escalated, team)).toBe("blocked");
+    });
+
+    it("falls back to the rules when the planner answer is unusable", async () => {
+      const task = await blockedTask(kanban, { retryCount: MAX_RETRIES, assignee: "eng-1" });
+      const team = engineers(["eng-1", "claude"], ["eng-2", "codex"]);
+      expect(await plannedHandler("no idea").handleFailure(task, team)).toBe("reassigned");
+    });
+
+    function plannedHandler(output: string): FailureHandler {
+      const planner = new ScrumMasterPlanner(scriptedRuntime(output), kanban, eventBus, projectDir);
+      return new FailureHandler(kanban, eventBus, MAX_RETRIES, planner);
+    }
+  });
+
+  describe("with a branch sync", () => {
+    const MERGE_FAILURE = "Merge/cleanup failed: git merge --no-ff task/t1 -m Merge task/t1 into main failed";
+    let worktreeManager: WorktreeManager;
+    let syncing: FailureHandler;
+
+    beforeEach(() => {
+      worktreeManager = new WorktreeManager(projectDir);
+      syncing = new FailureHandler(kanban, eventBus, MAX_RETRIES, undefined, new BranchSync(kanban, eventBus, worktreeManager));
+    });
+
+    it("sends a task blocked by a conflicting merge back to its engineer", async () => {
+      const worktree = await worktreeManager.createWorktree("t1", "task/t1");
+      await commitFile(worktree, "shared.txt", "branch\n");
+      await commitFile(await worktreeManager.createWorktree("t2", "task/t2"), "shared.txt", "main\n");
+      await worktreeManager.mergeToMain("task/t2");
+
+      const task = await blockedTask(kanban, { assignee: "eng-1", branch: "task/t1", worktree }, MERGE_FAILURE);
+      expect(await syncing.handleFailure(task, engineers(["eng-1", "claude"]))).toBe("retry");
+      expect(await findTask(kanban, task.id)).toMatchObject({
+        status: "in_progress",
+        assignee: "eng-1",
+        mergeConflict: { stage: "merge", files: ["shared.txt"] },
+      });
+    });
+
+    it("sends the task back to review once the branch combines cleanly", async () => {
+      const worktree = await worktreeManager.createWorktree("t1", "task/t1");
+      await commitFile(worktree, "feature.txt", "branch\n");
+      const task = await blockedTask(kanban, { assignee: "eng-1", branch: "task/t1", worktree }, MERGE_FAILURE);
+      await syncing.handleFailure(task, engineers(["eng-1", "claude"]));
+      expect((await findTask(kanban, task.id)).status).toBe("review");
+    });
+
+    it("blocks for good once a clean branch has failed to merge max_retries times", async () => {
+      const worktree = await worktreeManager.createWorktree("t1", "task/t1");
+      await commitFile(worktree, "feature.txt", "branch\n");
+      let task = await blockedTask(kanban, { assignee: "eng-1", branch: "task/t1", worktree }, MERGE_FAILURE);
+      for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+        expect(await syncing.handleFailure(task, engineers(["eng-1", "claude"]))).toBe("retry");
+        task = await kanban.moveTask(task.id, "blocked", "rev-1", MERGE_FAILURE);
+      }
+      expect(await syncing.handleFailure(task, engineers(["eng-1", "claude"]))).toBe("blocked");
+      expect((await findTask(kanban, task.id)).status).toBe("blocked");
+    });
+  });
+
+  describe("with dependent tasks", () => {
+    const TEAM: Array<[string, SdkType]> = [["eng-1", "claude"]];
+
+    it("blocks the whole downstream chain, pointing at the root", async () => {
+      const root = await blockedTask(kanban, { retryCount: MAX_RETRIES, assignee: "eng-1" });
+      const child = await dependentTask(kanban, "Child", [root.id]);
+      const grandchild = await dependentTask(kanban, "Grandchild", [child.id]);
+      await handler.handleFailure(root, engineers(...TEAM));
+
+      for (const id of [child.id, grandchild.id]) {
+        expect(await findTask(kanban, id)).toMatchObject({ status: "blocked", blockedBy: root.id });
+      }
+    });
+
+    it("keeps the chain blocked while the root stays blocked", async () => {
+      const root = await blockedTask(kanban, { retryCount: MAX_RETRIES, assignee: "eng-1" });
+      const child = await dependentTask(kanban, "Child", [root.id]);
+      await handler.handleFailure(root, engineers(...TEAM));
+      expect(await handler.handleFailure(await findTask(kanban, child.id), engineers(...TEAM))).toBe("blocked");
+    });
+
+    it("returns the chain to the backlog once the root is rescued", async () => {
+      const root = await blockedTask(kanban, { retryCount: MAX_RETRIES, assignee: "eng-1" });
+      const child = await dependentTask(kanban, "Child", [root.id]);
+      await handler.handleFailure(root, engineers(...TEAM));
+      await kanban.moveTask(root.id, "backlog", "human", "Rescued");
+
+      expect(await handler.handleFailure(await findTask(kanban, child.id), engineers(...TEAM))).toBe("unblocked");
+      const { status, blockedBy } = await findTask(kanban, child.id);
+      expect({ status, blockedBy }).toEqual({ status: "backlog", blockedBy: undefined });
+    });
+
+    it("rewires direct dependents to the tasks the replanner adds", async () => {
+      const root = await blockedTask(kanban, { retryCount: MAX_RETRIES, assignee: "eng-1" });
+      const child = await dependentTask(kanban, "Child", [root.id]);
+      const replanned = new FailureHandler(kanban, eventBus, MAX_RETRIES, undefined, undefined, async () => [
+        await dependentTask(kanban, "Workaround", []),
+      ]);
+      await replanned.handleFailure(root, engineers(...TEAM));
+
+      const workaround = (await kanban.getAllTasks()).find((t) => t.title === "Workaround")!;
+      expect((await findTask(kanban, child.id)).dependsOn).toEqual([workaround.id]);
+      expect(await replanned.handleFailure(await findTask(kanban, child.id), engineers(...TEAM))).toBe("unblocked");
+    });
+
+    it("keeps the chain blocked when the replanner times out", async () => {
+      const errors = collectEvents(eventBus, "agent:error");
+      const root = await blockedTask(kanban, { retryCount: MAX_RETRIES, assignee: "eng-1" });
+      const child = await dependentTask(kanban, "Child", [root.id]);
+      const replanned = new FailureHandler(kanban, eventBus, MAX_RETRIES, undefined, undefined, () =>
+        Promise.reject(new RuntimeWatchdogError("idle", 60_000)));
+      await replanned.handleFailure(root, engineers(...TEAM));
+
+      expect(errors.at(-1)?.data).toMatchObject({ taskId: root.id, error: "Runtime stream idle timeout after 60000ms" });
+      expect(await replanned.handleFailure(await findTask(kanban, child.id), engineers(...TEAM))).toBe("blocked");
+    });
+  });
+
+  it.each([
+    "Merge/cleanup failed: conflict",
+    "Auto-approval merge failed: conflict",
+    "Budget exceeded — task budget reached: $6.00 of $5.00",
+  ])("blocks without retrying when the task failed with %j", async (reason) => {
+    const task = await blockedTask(kanban, { retryCount: 0, assignee: "eng-1" }, reason);
+    expect(await handler.handleFailure(task, engineers(["eng-1", "claude"], ["eng-2", "codex"]))).toBe("blocked");
+  });
+});
+
+async function blockedTask(
+  kanban: KanbanManager,
+  fields: Partial<Task>,
+  reason = "Failed after 3 retries",
+): Promise<Task> {
+  const task = await kanban.addTask({
+    title: "Flaky task",
+    description: "",
+    acceptanceCriteria: [],
+    status: "in_progress",
+    priority: "medium",
+    createdBy: "test",
+  });
+  await kanban.updateTask(task.id, fields);
+  return kanban.moveTask(task.id, "blocked", fields.assignee ?? "eng-1", reason);
+}
+
+function dependentTask(kanban: KanbanManager, title: string, dependsOn: string[]): Promise<Task> {
+  return kanban.addTask({
+    title,
+    description: "",
+    acceptanceCriteria: [],
+    status: "backlog",
+    priority: "medium",
+    createdBy: "test",
+    dependsOn,
+  });
+}
+
+/** Run `handleFailure` on fake timers so the retry backoff elapses instantly. */
+async function handleWithBackoff(
+  handler: FailureHandler,
+  task: Task,
+  team: EngineerMap,
+): ReturnType<FailureHandler["handleFailure"]> {
+  vi.useFakeTimers({ toFake: ["setTimeout"] });
+  const pending = handler.handleFailure(task, team);
+  await vi.runOnlyPendingTimersAsync();
+  const result = await pending;
+  vi.useRealTimers();
+  return result;
+}
+
+async function findTask(kanban: KanbanManager, taskId: string): Promise<Task> {
+  const task = (await kanban.getAllTasks()).find((candidate) => candidate.id === taskId);
+  if (!task) throw new Error(`Task not found: ${taskId}`);
+  return task;
+}
+
+function engineers(...entries: Array<[id: string, sdk: SdkType]>): EngineerMap {
+  return new Map(entries.map(([id, sdk]) => [
+    id,
+    {
+      runtime: { id, sdk, model: "model-a" } as AgentRuntime,
+      config: { role: "engineer", id, sdk, model: "model-a", tools: [] },
+    },
+  ]));
+}
+
+function scriptedRuntime(output: string): AgentRuntime {
+  return {
+    id: "sm",
+    sdk: "mock",
+    model: "mock-sm",
+    async *run(): AsyncIterable<AgentMessage> {
+      yield { type: "text", content: output, timestamp: Date.now() };
+    },
+    resume: () => {
+      throw new Error("not supported");
+    },
+    registerTools: () => undefined,
+    abort: async () => undefined,
+  };
+}
+
+async function commitFile(worktree: string, name: string, content: string): Promise<void> {
+  await writeFile(join(worktree, name), content);
+  await execFileAsync("git", ["add", name], { cwd: worktree });
+  await execFileAsync("git", [...GIT_IDENTITY, "commit", "-m", `Add ${name}`], { cwd: worktree });
+}
+
+function collectEvents(eventBus: EventBus, type: AgentEvent["type"]): AgentEvent[] {
+  const events: AgentEvent[] = [];
+  eventBus.on(type, (event) => events.push(event));
+  return events;
+}
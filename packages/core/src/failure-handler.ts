@@ -1,10 +1,31 @@
 import type { AgentRuntime } from "./agents/agent-runtime.js";
+import type { BranchSync } from "./branch-sync.js";
+import { findDependents } from "./dependency-graph.js";
 import type { EventBus } from "./event-bus.js";
 import type { KanbanManager } from "./kanban.js";
+import type { FailureDecision, ScrumMasterPlanner, SplitTask } from "./roles/scrum-master-planner.js";
 import type { AgentConfig, Task } from "./types.js";
 
 /**
- * Handles failed tasks with a retry → reassign → block pipeline.
+ * Plans replacement tasks around a permanently blocked task for the tasks
+ * that depend on it, and returns them (empty when there is no way around it).
+ */
+export type BlockReplanner = (task: Task, reason: string, dependents: Task[]) => Promise<Task[]>;
+
+const MERGE_RETRY_DETAIL = "Branch now combines cleanly with main — back to review";
+
+type FailureOutcome = "retry" | "reassigned" | "split" | "blocked" | "unblocked";
+
+/**
+ * Handles failed tasks with a retry → reassign → block pipeline. With a
+ * planner, the Scrum Master agent decides what happens once retries run out.
+ * With a `BranchSync`, tasks blocked by a failed merge into main get their
+ * conflicts reported back to the engineer instead of staying blocked.
+ *
+ * A permanent block cascades: backlog tasks downstream of the blocked task
+ * are blocked too, pointing at it through `blockedBy`, and return to the
+ * backlog once it leaves `blocked` or they no longer depend on it. With a
+ * replanner, the product manager is asked for tasks to depend on instead.
  */
 export class FailureHandler {
   private emittedPermanentBlock = new Set<string>();
@@ -13,13 +34,24 @@ export class FailureHandler {
     private kanban: KanbanManager,
     private eventBus: EventBus,
     private maxRetries: number,
+    private planner?: ScrumMasterPlanner,
+    private branchSync?: BranchSync,
+    private replanner?: BlockReplanner,
   ) {}
 
   async handleFailure(
     task: Task,
     engineers: Map<string, { runtime: AgentRuntime; config: AgentConfig }>,
-  ): Promise<"retry" | "reassigned" | "blocked"> {
+  ): Promise<FailureOutcome> {
+    if (task.blockedBy) {
+      return this.checkBlockingDependency(task, task.blockedBy);
+    }
+
     const latestFailureReason = getLatestBlockedReason(task);
+    if (this.branchSync && task.worktree && latestFailureReason && isMergeFailureReason(latestFailureReason)) {
+      return this.resolveMergeFailure(task, this.branchSync, latestFailureReason);
+    }
+
     const unrecoverableReason = latestFailureReason && isUnrecoverableFailureReason(latestFailureReason)
       ? latestFailureReason
       : undefined;
@@ -49,7 +81,14 @@ export class FailureHandler {
       return "retry";
     }
 
-    // 2. Reassign: find an engineer with a different SDK/model than the original
+    // 2. Ask the Scrum Master agent, if any; rules below are the fallback
+    if (this.planner && !this.emittedPermanentBlock.has(task.id)) {
+      const reason = latestFailureReason ?? `Failed after ${task.retryCount} retries`;
+      const decision = await this.planner.resolveFailure(task, reason, engineers, await this.kanban.getAllTasks());
+      if (decision) return this.applyDecision(task, decision, this.planner.id);
+    }
+
+    // 3. Reassign: find an engineer with a different SDK/model than the original
     const originalEngineer = engineers.get(task.assignee ?? "");
     const alternate = findAlternateEngineer(engineers, task.assignee, originalEngineer?.config);
 
@@ -73,12 +112,126 @@ export class FailureHandler {
       return "reassigned";
     }
 
-    // 3. Block: no alternate available, keep as blocked
+    // 4. Block: no alternate available, keep as blocked
     const reason = latestFailureReason ?? `Failed after ${task.retryCount} retries`;
     return this.emitPermanentBlock(task, reason);
   }
 
-  private emitPermanentBlock(task: Task, reason: string): "blocked" {
+  /**
+   * Re-run the sync that now runs before every merge. A conflict goes back to
+   * the engineer with a report; a branch that combines cleanly is reviewed again,
+   * at most `maxRetries` times before the task is blocked for good.
+   */
+  private async resolveMergeFailure(task: Task, branchSync: BranchSync, reason: string): Promise<"retry" | "blocked"> {
+    // A merge that fails without conflicting (a hook, permissions) fails again after every re-review
+    const attempts = task.history.filter((event) => event.detail === MERGE_RETRY_DETAIL).length;
+    if (attempts >= this.maxRetries) {
+      return this.emitPermanentBlock(
+        task,
+        reason,
+        `Task "${task.title}" permanently blocked — merge into main still failing after ${attempts} re-reviews. Reason: ${reason}`,
+      );
+    }
+
+    const status = await branchSync.sync(task, "merge", "failure-handler", "system");
+    if (status !== "conflict") {
+      await this.kanban.moveTask(task.id, "review", "failure-handler", MERGE_RETRY_DETAIL);
+    }
+
+    this.eventBus.emit({
+      type: "task:status_changed",
+      agentId: "failure-handler",
+      agentRole: "system",
+      timestamp: Date.now(),
+      summary: status === "conflict"
+        ? `Sending merge conflict in "${task.title}" back to ${task.assignee ?? "an engineer"}`
+        : `Re-reviewing "${task.title}" after a failed merge`,
+      data: { taskId: task.id, action: "merge_retry", status },
+    });
+    return "retry";
+  }
+
+  private async applyDecision(
+    task: Task,
+    decision: FailureDecision,
+    plannerId: string,
+  ): Promise<"reassigned" | "split" | "blocked"> {
+    switch (decision.action) {
+      case "reassign": {
+        this.emittedPermanentBlock.delete(task.id);
+        await this.kanban.updateTask(task.id, {
+          retryCount: 0,
+          assignee: decision.engineerId,
+        });
+        await this.kanban.moveTask(task.id, "backlog", plannerId, `Reassigned from ${task.assignee} to ${decision.engineerId} by Scrum Master`);
+
+        this.eventBus.emit({
+          type: "task:status_changed",
+          agentId: plannerId,
+          agentRole: "scrum-master",
+          timestamp: Date.now(),
+          summary: `Reassigning task "${task.title}" to ${decision.engineerId}`,
+          data: { taskId: task.id, action: "reassigned", from: task.assignee, to: decision.engineerId },
+        });
+        return "reassigned";
+      }
+      case "split":
+        return this.splitTask(task, decision.subtasks, plannerId);
+      case "block": {
+        const reason = `Escalated by Scrum Master — ${decision.reason}`;
+        // Record the escalation as the latest block reason so later passes (and resumed runs) leave it alone
+        await this.kanban.moveTask(task.id, "blocked", plannerId, reason);
+        return this.emitPermanentBlock(task, reason, `Task "${task.title}" escalated to a human: ${decision.reason}`);
+      }
+    }
+  }
+
+  /**
+   * Replace a task with smaller backlog tasks. Dependents are rewired to the
+   * subtasks and the original is closed as done.
+   */
+  private async splitTask(task: Task, subtasks: SplitTask[], plannerId: string): Promise<"split"> {
+    const created: Task[] = [];
+    for (const [index, item] of subtasks.entries()) {
+      const siblingDeps = (item.dependsOn ?? [])
+        .filter((depIndex) => depIndex < index)
+        .map((depIndex) => created[depIndex].id);
+      const dependsOn = [...new Set([...(task.dependsOn ?? []), ...siblingDeps])];
+      created.push(await this.kanban.addTask({
+        title: item.title,
+        description: item.description,
+        acceptanceCriteria: item.acceptanceCriteria,
+        status: "backlog",
+        priority: task.priority,
+        epic: task.epic,
+        createdBy: plannerId,
+        dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
+        contextFingerprint: task.contextFingerprint,
+      }));
+    }
+
+    const subtaskIds = created.map((subtask) => subtask.id);
+    const dependents = (await this.kanban.getAllTasks()).filter((t) => t.dependsOn?.includes(task.id));
+    for (const dependent of dependents) {
+      const rewired = [...(dependent.dependsOn ?? []).filter((id) => id !== task.id), ...subtaskIds];
+      await this.kanban.setDependencies(dependent.id, rewired, plannerId);
+    }
+
+    this.emittedPermanentBlock.delete(task.id);
+    await this.kanban.moveTask(task.id, "done", plannerId, `Split into subtasks: ${subtaskIds.join(", ")}`);
+
+    this.eventBus.emit({
+      type: "task:status_changed",
+      agentId: plannerId,
+      agentRole: "scrum-master",
+      timestamp: Date.now(),
+      summary: `Split task "${task.title}" into ${subtaskIds.length} subtasks`,
+      data: { taskId: task.id, action: "split", subtaskIds },
+    });
+    return "split";
+  }
+
+  private async emitPermanentBlock(task: Task, reason: string, summary?: string): Promise<"blocked"> {
     if (this.emittedPermanentBlock.has(task.id)) {
       return "blocked";
     }
@@ -89,11 +242,112 @@ export class FailureHandler {
       agentId: "failure-handler",
       agentRole: "system",
       timestamp: Date.now(),
-      summary: `Task "${task.title}" permanently blocked — no alternate engineer available. Reason: ${reason}`,
+      summary: summary ?? `Task "${task.title}" permanently blocked — no alternate engineer available. Reason: ${reason}`,
       data: { taskId: task.id, action: "blocked", reason },
     });
+    await this.cascadeBlock(task, reason);
     return "blocked";
   }
+
+  /** Block every backlog task downstream of `task`, then ask for a way around it. */
+  private async cascadeBlock(task: Task, reason: string): Promise<void> {
+    const dependents = findDependents(await this.kanban.getAllTasks(), task.id)
+      .filter((dependent) => dependent.status === "backlog");
+    if (dependents.length === 0) return;
+
+    for (const dependent of dependents) {
+      await this.kanban.blockOnDependency(
+        dependent.id,
+        task.id,
+        "failure-handler",
+        `Blocked by dependency "${task.title}" (${task.id}): ${reason}`,
+      );
+    }
+
+    this.eventBus.emit({
+      type: "agent:error",
+      agentId: "failure-handler",
+      agentRole: "system",
+      timestamp: Date.now(),
+      summary: `Blocked ${dependents.length} task(s) that depend on "${task.title}"`,
+      data: { taskId: task.id, action: "cascade_blocked", dependentIds: dependents.map((dependent) => dependent.id) },
+    });
+
+    if (this.replanner) {
+      await this.replanAround(task, reason, dependents, this.replanner);
+    }
+  }
+
+  /**
+   * Point the direct dependents of `task` at replacement tasks planned by the
+   * product manager. The blocked chain is released on the next pass, since it
+   * no longer depends on `task`.
+   */
+  private async replanAround(task: Task, reason: string, dependents: Task[], replanner: BlockReplanner): Promise<void> {
+    let replacements: Task[];
+    try {
+      replacements = await replanner(task, reason, dependents);
+    } catch (error) {
+      this.eventBus.emit({
+        type: "agent:error",
+        agentId: "failure-handler",
+        agentRole: "system",
+        timestamp: Date.now(),
+        summary: `Re-planning around "${task.title}" failed — its dependents stay blocked`,
+        data: { taskId: task.id, error: error instanceof Error ? error.message : String(error) },
+      });
+      return;
+    }
+    if (replacements.length === 0) return;
+
+    const replacementIds = replacements.map((replacement) => replacement.id);
+    const direct = (await this.kanban.getAllTasks()).filter((t) => t.dependsOn?.includes(task.id));
+    for (const dependent of direct) {
+      const rewired = [...(dependent.dependsOn ?? []).filter((id) => id !== task.id), ...replacementIds];
+      await this.kanban.setDependencies(dependent.id, rewired, "failure-handler");
+    }
+
+    this.eventBus.emit({
+      type: "task:status_changed",
+      agentId: "failure-handler",
+      agentRole: "system",
+      timestamp: Date.now(),
+      summary: `Re-planned around "${task.title}": ${replacementIds.length} replacement task(s)`,
+      data: { taskId: task.id, action: "replanned", replacementIds },
+    });
+  }
+
+  /**
+   * A task blocked by the cascade stays blocked while `rootTaskId` is blocked
+   * and still upstream of it; otherwise it goes back to the backlog.
+   */
+  private async checkBlockingDependency(task: Task, rootTaskId: string): Promise<"blocked" | "unblocked"> {
+    const tasks = await this.kanban.getAllTasks();
+    const root = tasks.find((t) => t.id === rootTaskId);
+    const stillUpstream = findDependents(tasks, rootTaskId).some((dependent) => dependent.id === task.id);
+    if (root?.status === "blocked" && stillUpstream) {
+      return "blocked";
+    }
+
+    // The root left `blocked`: a later permanent block must cascade again
+    if (root?.status !== "blocked") this.emittedPermanentBlock.delete(rootTaskId);
+    const detail = !root
+      ? `Dependency ${rootTaskId} no longer exists`
+      : stillUpstream
+        ? `Dependency "${root.title}" is no longer blocked`
+        : `No longer depends on "${root.title}"`;
+    await this.kanban.moveTask(task.id, "backlog", "failure-handler", detail);
+
+    this.eventBus.emit({
+      type: "task:status_changed",
+      agentId: "failure-handler",
+      agentRole: "system",
+      timestamp: Date.now(),
+      summary: `Unblocking task "${task.title}": ${detail}`,
+      data: { taskId: task.id, action: "unblocked", rootTaskId },
+    });
+    return "unblocked";
+  }
 }
 
 function sleep(ms: number): Promise<void> {
@@ -123,6 +377,12 @@ function getLatestBlockedReason(task: Task): string | undefined {
   return blockedStatusChange?.detail;
 }
 
+/** The merge command itself failed, as recorded by runs that blocked on merge conflicts. */
+function isMergeFailureReason(reason: string): boolean {
+  return /^(merge\/cleanup failed|auto-approval merge failed): git merge /i.test(reason)
+    && !/would be overwritten by merge/i.test(reason);
+}
+
 function isUnrecoverableFailureReason(reason: string): boolean {
-  return /merge\/cleanup failed|would be overwritten by merge|auto-approval merge failed/i.test(reason);
+  return /merge\/cleanup failed|would be overwritten by merge|auto-approval merge failed|unresolved merge conflict|pull request failed|closed without merging|budget exceeded|escalated by scrum master/i.test(reason);
 }
@@ -12,24 +12,68 @@ export type {
   TaskEvent,
   TaskArtifactKind,
   TaskArtifact,
+  ReviewVerdict,
+  ReviewSeverity,
+  ReviewCategory,
+  NewReviewComment,
+  ReviewComment,
+  ReviewCoverage,
+  ReviewVote,
+  MergeConflictReport,
+  ConflictHunk,
+  TaskPullRequest,
   Task,
+  TaskEditableFields,
   KanbanState,
+  TokenUsage,
+  MessageUsage,
+  UsageTotals,
+  ModelPrice,
+  UsageReport,
+  UsageSource,
+  ScrumMasterMode,
+  BranchSyncStrategy,
+  KanbanStorageBackend,
+  MergeQueueConfig,
+  AutoMergeMode,
+  PullRequestProviderName,
+  RemoteConfig,
+  ReviewPolicy,
+  ReviewQuorumConfig,
+  ReviewChunkingConfig,
   WorkflowConfig,
+  BudgetLimit,
+  BudgetConfig,
   PluginRef,
   TeamConfig,
   ProjectContext,
   SharedProjectContext,
+  SchedulerMode,
+  SchedulerControl,
+  OrchestrationRunStatus,
+  StartRunRequest,
+  OrchestrationRun,
   EventType,
   AgentCompletedEventData,
   AgentCompletedEvent,
   GenericAgentEvent,
   AgentEvent,
+  PersistedEvent,
+  EventLogQuery,
 } from "./types.js";
 
 export {
   agentConfigSchema,
+  budgetLimitSchema,
+  budgetConfigSchema,
+  reviewQuorumConfigSchema,
+  reviewChunkingConfigSchema,
+  mergeQueueConfigSchema,
+  remoteConfigSchema,
+  newReviewCommentSchema,
   workflowConfigSchema,
   pluginRefSchema,
+  modelPriceSchema,
   teamConfigSchema,
 } from "./types.js";
 
@@ -37,6 +81,13 @@ export {
 export type { AgentRuntime } from "./agents/agent-runtime.js";
 export { ClaudeAgentRuntime } from "./agents/claude-runtime.js";
 export { CodexAgentRuntime } from "./agents/codex-runtime.js";
+export {
+  MockAgentRuntime,
+  mockFixtureSchema,
+  type MockFixture,
+  type MockScript,
+  type MockStep,
+} from "./agents/mock-runtime.js";
 export { createAgentRuntime, createTeamRuntimes } from "./agents/agent-factory.js";
 
 // Config
@@ -44,31 +95,99 @@ export { loadConfig, defaultConfig } from "./config-loader.js";
 
 // Event Bus
 export { EventBus, globalEventBus } from "./event-bus.js";
+export { EventLog, matchesEventQuery } from "./event-log.js";
 export {
   AgentHealthRegistry,
   type AgentHealthRecord,
   type AgentHealthStatus,
 } from "./agent-health.js";
 export { consumeStreamWithWatchdog, RuntimeWatchdogError } from "./runtime-watchdog.js";
+export { UsageTracker, getMessageUsage, priceUsage } from "./usage.js";
+export { BudgetGuard, totalTokens } from "./budget.js";
 
 // Plugins
-export type { ArkaledgePlugin, PluginTool } from "./plugins/plugin-types.js";
+export type {
+  ArkaledgePlugin,
+  PluginTool,
+  PluginHookName,
+  ReviewVerdictInfo,
+} from "./plugins/plugin-types.js";
 export { loadPlugins } from "./plugins/plugin-loader.js";
+export { PluginHookRunner } from "./plugins/plugin-hooks.js";
 
 // Kanban
-export { KanbanManager } from "./kanban.js";
-export { WorktreeManager } from "./worktree-manager.js";
+export { KanbanManager, dependenciesMet } from "./kanban.js";
+export type { BoardUpdate, KanbanStorage } from "./storage/kanban-storage.js";
+export { JsonKanbanStorage } from "./storage/json-storage.js";
+export { SqliteKanbanStorage } from "./storage/sqlite-storage.js";
+export { createKanbanStorage } from "./storage/storage-factory.js";
+export {
+  analyzeDependencies,
+  findDependencyCycle,
+  findDependents,
+  type DanglingDependency,
+  type DependencyGraphReport,
+  type UnschedulableTask,
+} from "./dependency-graph.js";
+export {
+  WorktreeManager,
+  MergeConflictError,
+  type BranchSyncResult,
+  type IntegrationWorktree,
+} from "./worktree-manager.js";
+export {
+  collectConflictHunks,
+  formatConflictHunk,
+  parseConflictHunks,
+  type ConflictHeadSide,
+} from "./merge-conflicts.js";
+export { BranchSync, type BranchSyncStatus } from "./branch-sync.js";
+export { MergeQueue, type MergeOutcome } from "./merge-queue.js";
+export { PullRequestPublisher } from "./pull-requests/pull-request-publisher.js";
+export { createPullRequestProvider } from "./pull-requests/provider-factory.js";
+export { GitHubProvider } from "./pull-requests/github-provider.js";
+export { GitLabProvider } from "./pull-requests/gitlab-provider.js";
+export { GiteaProvider } from "./pull-requests/gitea-provider.js";
+export type {
+  PullRequestProvider,
+  NewPullRequest,
+  OpenedPullRequest,
+} from "./pull-requests/pull-request-provider.js";
+export {
+  planDiffChunks,
+  splitDiffByFile,
+  type DiffChunk,
+  type DiffChunkPlan,
+  type FileDiff,
+} from "./diff-chunks.js";
+export {
+  formatCommentLocation,
+  formatReviewComment,
+  unresolvedReviewComments,
+} from "./review-comments.js";
 
 // API Server
 export { createApiServer, type ApiServerOptions } from "./api-server.js";
 
 // Orchestration
-export { Orchestrator } from "./orchestrator.js";
-export { FailureHandler } from "./failure-handler.js";
+export { Orchestrator, type OrchestratorOptions } from "./orchestrator.js";
+export { RunManager, assertOutputMode } from "./run-manager.js";
+export { FailureHandler, type BlockReplanner } from "./failure-handler.js";
 export { ensureSharedProjectContext } from "./project-context.js";
 
 // Roles
 export { ProductManagerRole } from "./roles/product-manager.js";
 export { ScrumMasterRole } from "./roles/scrum-master.js";
+export {
+  ScrumMasterPlanner,
+  type FailureDecision,
+  type SplitTask,
+} from "./roles/scrum-master-planner.js";
 export { EngineerRole } from "./roles/engineer.js";
 export { ReviewerRole } from "./roles/reviewer.js";
+export {
+  ReviewPanel,
+  decideReview,
+  type AttributedReviewComment,
+  type ReviewDecision,
+} from "./roles/review-panel.js";
@@ -0,0 +1,171 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { EventBus } from "./event-bus.js";
+import { KanbanManager } from "./kanban.js";
+import type { AgentEvent, Task } from "./types.js";
+
+const CONCURRENT_WRITERS = 12;
+
+describe("KanbanManager", () => {
+  let projectDir: string;
+  let eventBus: EventBus;
+  let kanban: KanbanManager;
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), "arkaledge-kanban-"));
+    eventBus = new EventBus();
+    kanban = new KanbanManager(projectDir, eventBus);
+    await kanban.init();
+  });
+
+  afterEach(async () => {
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it("creates an empty board on init", async () => {
+    const raw = await readFile(join(projectDir, ".arkaledge", "kanban.json"), "utf-8");
+    expect(JSON.parse(raw)).toMatchObject({ tasks: [] });
+  });
+
+  it("keeps existing state when init runs again", async () => {
+    await addTask(kanban, "Existing");
+    await kanban.init();
+    expect(await kanban.getAllTasks()).toHaveLength(1);
+  });
+
+  it("keeps every task added concurrently", async () => {
+    await Promise.all(
+      Array.from({ length: CONCURRENT_WRITERS }, (_, i) => addTask(kanban, `Task ${i}`)),
+    );
+    expect(await kanban.getAllTasks()).toHaveLength(CONCURRENT_WRITERS);
+  });
+
+  it("serializes writers from separate managers on the same board", async () => {
+    const other = new KanbanManager(projectDir, eventBus);
+    await Promise.all(
+      Array.from({ length: CONCURRENT_WRITERS }, (_, i) => addTask(i % 2 === 0 ? kanban : other, `Task ${i}`)),
+    );
+    expect(await kanban.getAllTasks()).toHaveLength(CONCURRENT_WRITERS);
+  });
+
+  it("keeps every concurrent review comment on one task", async () => {
+    const task = await addTask(kanban, "Commented");
+    await Promise.all(
+      Array.from({ length: CONCURRENT_WRITERS }, (_, i) => kanban.addReviewComment(task.id, `comment ${i}`)),
+    );
+    const [stored] = await kanban.getAllTasks();
+    expect(stored.reviewComments).toHaveLength(CONCURRENT_WRITERS);
+  });
+
+  it("stores plain-text review comments as unanchored major comments", async () => {
+    const task = await addTask(kanban, "Commented");
+    const { reviewComments } = await kanban.addReviewComment(task.id, "Needs tests", "rev-1");
+    expect(reviewComments).toMatchObject([{ reviewerId: "rev-1", body: "Needs tests", severity: "major", resolved: false }]);
+  });
+
+  it("resolves review comments by ID and ignores unknown IDs", async () => {
+    const task = await addTask(kanban, "Commented");
+    const commented = await kanban.addReviewComment(task.id, { body: "Off by one", file: "a.ts", startLine: 3 });
+    const commentId = commented.reviewComments?.[0].id ?? "";
+    const resolved = await kanban.resolveReviewComments(task.id, [commentId, "unknown"], "rev-1");
+    expect([resolved.reviewComments?.[0].resolved, resolved.history.at(-1)?.detail]).toEqual([true, `Resolved: ${commentId}`]);
+  });
+
+  it("upgrades plain-string review comments from older boards", async () => {
+    const task = await addTask(kanban, "Legacy");
+    const file = join(projectDir, ".arkaledge", "kanban.json");
+    const state = JSON.parse(await readFile(file, "utf-8")) as { tasks: Array<Record<string, unknown>> };
+    state.tasks[0].reviewComments = ["Fix the build"];
+    await writeFile(file, JSON.stringify(state));
+
+    const [stored] = await kanban.getAllTasks();
+    expect(stored.reviewComments).toMatchObject([{ id: `${task.id}-1`, body: "Fix the build", resolved: false }]);
+  });
+
+  it("accumulates usage recorded concurrently", async () => {
+    const task = await addTask(kanban, "Metered");
+    await Promise.all(
+      Array.from({ length: CONCURRENT_WRITERS }, () => kanban.recordUsage(task.id, {
+        inputTokens: 10,
+        cachedInputTokens: 5,
+        outputTokens: 1,
+        costUsd: 0.5,
+      })),
+    );
+    const [stored] = await kanban.getAllTasks();
+    expect(stored.usage).toEqual({
+      inputTokens: 10 * CONCURRENT_WRITERS,
+      cachedInputTokens: 5 * CONCURRENT_WRITERS,
+      outputTokens: CONCURRENT_WRITERS,
+      costUsd: 0.5 * CONCURRENT_WRITERS,
+    });
+  });
+
+  it("records status changes in history", async () => {
+    const task = await addTask(kanban, "Moved");
+    const moved = await kanban.moveTask(task.id, "in_progress", "eng-1", "Started");
+    expect(moved.history.at(-1)).toMatchObject({ agentId: "eng-1", action: "status_changed", detail: "Started" });
+  });
+
+  it("emits task:status_changed after a move", async () => {
+    const task = await addTask(kanban, "Observed");
+    const events = collectEvents(eventBus, "task:status_changed");
+    await kanban.moveTask(task.id, "review", "eng-1");
+    expect(events.map((event) => event.data?.status)).toEqual(["review"]);
+  });
+
+  it("rejects updates to unknown tasks", async () => {
+    await expect(kanban.moveTask("missing", "done", "eng-1")).rejects.toThrow("Task not found: missing");
+  });
+
+  it.each([
+    ["itself", (task: Task) => [task.id], "cannot depend on itself"],
+    ["an unknown task", () => ["nope"], "Unknown dependency task IDs: nope"],
+  ])("rejects a dependency on %s", async (_label, deps, message) => {
+    const task = await addTask(kanban, "Dependent");
+    await expect(kanban.setDependencies(task.id, deps(task), "human")).rejects.toThrow(message);
+  });
+
+  it.each([
+    ["backlog", false],
+    ["done", true],
+  ] as const)("reports dependencies met=%s when the dependency is %s", async (status, expected) => {
+    const dep = await addTask(kanban, "Dependency");
+    await kanban.moveTask(dep.id, status, "eng-1");
+    const task = await addTask(kanban, "Dependent", [dep.id]);
+    expect(await kanban.areDependenciesMet(task)).toBe(expected);
+  });
+
+  it("picks up changes another process writes to kanban.json", async () => {
+    await addTask(kanban, "Cached");
+    const other = new KanbanManager(projectDir, new EventBus());
+    await addTask(other, "Written elsewhere");
+    expect((await kanban.getAllTasks()).map((task) => task.title)).toEqual(["Cached", "Written elsewhere"]);
+  });
+
+  it("hands out copies that do not change the cached board", async () => {
+    const task = await addTask(kanban, "Original");
+    (await kanban.getAllTasks())[0].title = "Mutated";
+    expect((await kanban.getAllTasks()).find((candidate) => candidate.id === task.id)?.title).toBe("Original");
+  });
+});
+
+function addTask(kanban: KanbanManager, title: string, dependsOn?: string[]): Promise<Task> {
+  return kanban.addTask({
+    title,
+    description: "",
+    acceptanceCriteria: [],
+    status: "backlog",
+    priority: "medium",
+    createdBy: "test",
+    dependsOn,
+  });
+}
+
+function collectEvents(eventBus: EventBus, type: AgentEvent["type"]): AgentEvent[] {
+  const events: AgentEvent[] = [];
+  eventBus.on(type, (event) => events.push(event));
+  return events;
+}
@@ -1,64 +1,50 @@
-import { existsSync } from "node:fs";
-import { mkdir, readFile, writeFile } from "node:fs/promises";
-import { join } from "node:path";
 import { nanoid } from "nanoid";
-import lockfile from "proper-lockfile";
+import { findDependencyCycle } from "./dependency-graph.js";
 import type { EventBus } from "./event-bus.js";
-import type { KanbanState, Task, TaskStatus } from "./types.js";
-
-const KANBAN_DIR = ".arkaledge";
-const KANBAN_FILE = "kanban.json";
+import { createReviewComment, formatReviewComment } from "./review-comments.js";
+import type { BoardUpdate, KanbanStorage } from "./storage/kanban-storage.js";
+import { createKanbanStorage } from "./storage/storage-factory.js";
+import type {
+  KanbanState,
+  MergeConflictReport,
+  TaskPullRequest,
+  NewReviewComment,
+  ReviewVote,
+  Task,
+  TaskEditableFields,
+  TaskStatus,
+  UsageTotals,
+} from "./types.js";
 
 /**
- * Manages task state in `<projectDir>/.arkaledge/kanban.json` with file locking.
- * Every read-modify-write cycle is wrapped in a lock to prevent races.
+ * Manages task state in `<projectDir>/.arkaledge/` through a `KanbanStorage`:
+ * kanban.json under a file lock by default, or SQLite (`storage: sqlite`).
+ * Every read-modify-write cycle runs as one storage update to prevent races.
  */
 export class KanbanManager {
-  private filePath: string;
-  private dirPath: string;
-
   constructor(
     private projectDir: string,
     private eventBus: EventBus,
-  ) {
-    this.dirPath = join(projectDir, KANBAN_DIR);
-    this.filePath = join(this.dirPath, KANBAN_FILE);
-  }
+    private storage: KanbanStorage = createKanbanStorage(projectDir),
+  ) {}
 
-  /** Ensure the .arkaledge directory and kanban.json file exist. */
+  /** Ensure the board exists (creating or migrating the storage). */
   async init(): Promise<void> {
-    await mkdir(this.dirPath, { recursive: true });
-    if (!existsSync(this.filePath)) {
-      const initial: KanbanState = {
-        projectId: nanoid(8),
-        tasks: [],
-        lastUpdated: Date.now(),
-      };
-      await writeFile(this.filePath, JSON.stringify(initial, null, 2));
-    }
+    await this.storage.init();
   }
 
+  /** A copy of the board the caller may modify. */
   async load(): Promise<KanbanState> {
-    const raw = await readFile(this.filePath, "utf-8");
-    return JSON.parse(raw) as KanbanState;
+    return this.storage.read();
   }
 
   async save(state: KanbanState): Promise<void> {
-    state.lastUpdated = Date.now();
-    await writeFile(this.filePath, JSON.stringify(state, null, 2));
+    await this.storage.update(async () => ({ state, result: undefined }));
   }
 
-  /** Run a read-modify-write cycle under a file lock. */
-  private async withLock<T>(fn: (state: KanbanState) => Promise<{ state: KanbanState; result: T }>): Promise<T> {
-    const release = await lockfile.lock(this.filePath, { retries: { retries: 5, minTimeout: 100 } });
-    try {
-      const state = await this.load();
-      const { state: newState, result } = await fn(state);
-      await this.save(newState);
-      return result;
-    } finally {
-      await release();
-    }
+  /** Run a read-modify-write cycle as one storage update. */
+  private async withLock<T>(fn: BoardUpdate<T>): Promise<T> {
+    return this.storage.update(fn);
   }
 
   async addTask(input: Omit<Task, "id" | "history" | "retryCount">): Promise<Task> {
@@ -150,6 +136,7 @@ export class KanbanManager {
 
       const previousStatus = t.status;
       t.status = status;
+      if (status !== "blocked") delete t.blockedBy;
       t.history.push({
         timestamp: Date.now(),
         agentId,
@@ -172,32 +159,337 @@ export class KanbanManager {
     return task;
   }
 
-  async addReviewComment(taskId: string, comment: string): Promise<Task> {
-    return this.withLock(async (state) => {
-      const task = state.tasks.find((t) => t.id === taskId);
-      if (!task) throw new Error(`Task not found: ${taskId}`);
+  /**
+   * Block a backlog task because `rootTaskId`, which it depends on directly or
+   * transitively, is permanently blocked. Moving it out of `blocked` clears the link.
+   */
+  async blockOnDependency(taskId: string, rootTaskId: string, agentId: string, detail: string): Promise<Task> {
+    const task = await this.withLock(async (state) => {
+      const t = state.tasks.find((t) => t.id === taskId);
+      if (!t) throw new Error(`Task not found: ${taskId}`);
 
-      if (!task.reviewComments) task.reviewComments = [];
-      task.reviewComments.push(comment);
-      task.history.push({
-        timestamp: Date.now(),
-        agentId: "reviewer",
+      t.status = "blocked";
+      t.blockedBy = rootTaskId;
+      t.history.push({ timestamp: Date.now(), agentId, action: "status_changed", detail });
+
+      return { state, result: { ...t } };
+    });
+
+    this.eventBus.emit({
+      type: "task:status_changed",
+      agentId,
+      agentRole: "system",
+      timestamp: Date.now(),
+      summary: `Task "${task.title}" moved to blocked`,
+      data: { taskId, status: "blocked", previousStatus: detail, blockedBy: rootTaskId },
+    });
+
+    return task;
+  }
+
+  /** Add a review comment. Plain strings become unanchored `major`/`other` comments. */
+  async addReviewComment(taskId: string, comment: string | NewReviewComment, agentId = "reviewer"): Promise<Task> {
+    const task = await this.withLock(async (state) => {
+      const t = state.tasks.find((t) => t.id === taskId);
+      if (!t) throw new Error(`Task not found: ${taskId}`);
+
+      const stored = createReviewComment(
+        typeof comment === "string" ? { body: comment } : comment,
+        nanoid(8),
+        agentId,
+        Date.now(),
+      );
+      if (!t.reviewComments) t.reviewComments = [];
+      t.reviewComments.push(stored);
+      t.history.push({
+        timestamp: stored.createdAt,
+        agentId,
         action: "review_comment",
-        detail: comment,
+        detail: formatReviewComment(stored),
       });
 
-      return { state, result: { ...task } };
+      return { state, result: { ...t } };
+    });
+
+    this.emitTaskUpdated(task, agentId, "review_comment");
+    return task;
+  }
+
+  /** Mark review comments as resolved. Unknown or already resolved IDs are ignored. */
+  async resolveReviewComments(taskId: string, commentIds: string[], agentId: string): Promise<Task> {
+    let resolvedIds: string[] = [];
+    const task = await this.withLock(async (state) => {
+      const t = state.tasks.find((t) => t.id === taskId);
+      if (!t) throw new Error(`Task not found: ${taskId}`);
+
+      const now = Date.now();
+      const pending = (t.reviewComments ?? []).filter((comment) => !comment.resolved && commentIds.includes(comment.id));
+      for (const comment of pending) {
+        comment.resolved = true;
+        comment.resolvedAt = now;
+      }
+      resolvedIds = pending.map((comment) => comment.id);
+      if (resolvedIds.length > 0) {
+        t.history.push({
+          timestamp: now,
+          agentId,
+          action: "review_comment_resolved",
+          detail: `Resolved: ${resolvedIds.join(", ")}`,
+        });
+      }
+
+      return { state, result: { ...t } };
+    });
+
+    if (resolvedIds.length > 0) this.emitTaskUpdated(task, agentId, "review_comment_resolved");
+    return task;
+  }
+
+  /** Store the votes of a finished review round and log each one in history. */
+  async recordReviewVotes(taskId: string, votes: ReviewVote[]): Promise<Task> {
+    const task = await this.withLock(async (state) => {
+      const t = state.tasks.find((t) => t.id === taskId);
+      if (!t) throw new Error(`Task not found: ${taskId}`);
+
+      t.reviewVotes = votes;
+      for (const vote of votes) {
+        const flags = vote.security ? " [security]" : "";
+        const comments = vote.comments.length > 0 ? `: ${vote.comments.map(formatReviewComment).join(" | ")}` : "";
+        const unreviewed = vote.coverage?.unreviewed ?? [];
+        const coverage = unreviewed.length > 0 ? ` [not reviewed: ${unreviewed.join(", ")}]` : "";
+        t.history.push({
+          timestamp: vote.timestamp,
+          agentId: vote.reviewerId,
+          action: "review_vote",
+          detail: `${vote.verdict}${flags}${coverage} (${vote.sdk}/${vote.model})${comments}`,
+        });
+      }
+
+      return { state, result: { ...t } };
+    });
+
+    this.emitTaskUpdated(task, votes[0]?.reviewerId ?? "reviewer", "review_vote");
+    return task;
+  }
+
+  /** Edit descriptive task fields (title, description, criteria, priority, epic). */
+  async editTask(taskId: string, fields: TaskEditableFields, agentId: string): Promise<Task> {
+    const task = await this.withLock(async (state) => {
+      const t = state.tasks.find((t) => t.id === taskId);
+      if (!t) throw new Error(`Task not found: ${taskId}`);
+
+      Object.assign(t, fields);
+      t.history.push({
+        timestamp: Date.now(),
+        agentId,
+        action: "edited",
+        detail: `Edited: ${Object.keys(fields).join(", ")}`,
+      });
+
+      return { state, result: { ...t } };
+    });
+
+    this.emitTaskUpdated(task, agentId, "edited");
+    return task;
+  }
+
+  /** Replace a task's dependency list. Unknown IDs and self-references are rejected. */
+  async setDependencies(taskId: string, dependsOn: string[], agentId: string): Promise<Task> {
+    const task = await this.withLock(async (state) => {
+      const t = state.tasks.find((t) => t.id === taskId);
+      if (!t) throw new Error(`Task not found: ${taskId}`);
+
+      const uniqueDeps = [...new Set(dependsOn)];
+      if (uniqueDeps.includes(taskId)) {
+        throw new Error(`Task cannot depend on itself: ${taskId}`);
+      }
+      const unknown = uniqueDeps.filter((depId) => !state.tasks.some((other) => other.id === depId));
+      if (unknown.length > 0) {
+        throw new Error(`Unknown dependency task IDs: ${unknown.join(", ")}`);
+      }
+      const cycle = findDependencyCycle(state.tasks, taskId, uniqueDeps);
+      if (cycle) {
+        throw new Error(`Dependency cycle: ${cycle.join(" → ")}`);
+      }
+
+      t.dependsOn = uniqueDeps;
+      t.history.push({
+        timestamp: Date.now(),
+        agentId,
+        action: "dependencies_changed",
+        detail: uniqueDeps.length > 0 ? `Depends on: ${uniqueDeps.join(", ")}` : "Dependencies cleared",
+      });
+
+      return { state, result: { ...t } };
+    });
+
+    this.emitTaskUpdated(task, agentId, "dependencies_changed");
+    return task;
+  }
+
+  async unassignTask(taskId: string, agentId: string): Promise<Task> {
+    const task = await this.withLock(async (state) => {
+      const t = state.tasks.find((t) => t.id === taskId);
+      if (!t) throw new Error(`Task not found: ${taskId}`);
+
+      const previousAssignee = t.assignee;
+      t.assignee = undefined;
+      t.history.push({
+        timestamp: Date.now(),
+        agentId,
+        action: "unassigned",
+        detail: previousAssignee ? `Unassigned from ${previousAssignee}` : "Task was not assigned",
+      });
+
+      return { state, result: { ...t } };
+    });
+
+    this.emitTaskUpdated(task, agentId, "unassigned");
+    return task;
+  }
+
+  /** Record a Scrum Master planning decision (assignment, split, escalation) in the task history. */
+  async recordDecision(taskId: string, agentId: string, detail: string): Promise<Task> {
+    const task = await this.withLock(async (state) => {
+      const t = state.tasks.find((t) => t.id === taskId);
+      if (!t) throw new Error(`Task not found: ${taskId}`);
+
+      t.history.push({
+        timestamp: Date.now(),
+        agentId,
+        action: "decision",
+        detail,
+      });
+
+      return { state, result: { ...t } };
+    });
+
+    this.emitTaskUpdated(task, agentId, "decision");
+    return task;
+  }
+
+  /** Record that updating the branch from main conflicted; the report stays on the task until a clean sync. */
+  async recordMergeConflict(taskId: string, report: MergeConflictReport, agentId: string): Promise<Task> {
+    const task = await this.withLock(async (state) => {
+      const t = state.tasks.find((t) => t.id === taskId);
+      if (!t) throw new Error(`Task not found: ${taskId}`);
+
+      t.mergeConflict = report;
+      t.history.push({
+        timestamp: report.detectedAt,
+        agentId,
+        action: "merge_conflict",
+        detail: `Conflicts with main before ${report.stage} (attempt ${report.attempts}): ${report.files.join(", ")}`,
+      });
+
+      return { state, result: { ...t } };
+    });
+
+    this.emitTaskUpdated(task, agentId, "merge_conflict");
+    return task;
+  }
+
+  /** Record a clean update from main, clearing any earlier conflict report. */
+  async recordBranchSync(taskId: string, agentId: string, detail: string): Promise<Task> {
+    const task = await this.withLock(async (state) => {
+      const t = state.tasks.find((t) => t.id === taskId);
+      if (!t) throw new Error(`Task not found: ${taskId}`);
+
+      delete t.mergeConflict;
+      t.history.push({
+        timestamp: Date.now(),
+        agentId,
+        action: "branch_synced",
+        detail,
+      });
+
+      return { state, result: { ...t } };
+    });
+
+    this.emitTaskUpdated(task, agentId, "branch_synced");
+    return task;
+  }
+
+  /** Drop the conflict report once the engineer has merged main themselves. No-op without a report. */
+  async clearMergeConflict(taskId: string, agentId: string): Promise<Task> {
+    let cleared = false;
+    const task = await this.withLock(async (state) => {
+      const t = state.tasks.find((t) => t.id === taskId);
+      if (!t) throw new Error(`Task not found: ${taskId}`);
+
+      if (t.mergeConflict) {
+        delete t.mergeConflict;
+        cleared = true;
+        t.history.push({
+          timestamp: Date.now(),
+          agentId,
+          action: "branch_synced",
+          detail: "Merge conflicts with main resolved",
+        });
+      }
+
+      return { state, result: { ...t } };
+    });
+
+    if (cleared) this.emitTaskUpdated(task, agentId, "branch_synced");
+    return task;
+  }
+
+  async recordPullRequest(taskId: string, pullRequest: TaskPullRequest, agentId: string, detail: string): Promise<Task> {
+    const task = await this.withLock(async (state) => {
+      const t = state.tasks.find((t) => t.id === taskId);
+      if (!t) throw new Error(`Task not found: ${taskId}`);
+
+      t.pullRequest = pullRequest;
+      t.history.push({
+        timestamp: Date.now(),
+        agentId,
+        action: "pull_request",
+        detail,
+      });
+
+      return { state, result: { ...t } };
+    });
+
+    this.emitTaskUpdated(task, agentId, "pull_request");
+    return task;
+  }
+
+  /**
+   * Add token usage to the task's running total. Not recorded in history and
+   * emits no event — usage arrives once per agent turn.
+   */
+  async recordUsage(taskId: string, usage: UsageTotals): Promise<Task> {
+    return this.withLock(async (state) => {
+      const t = state.tasks.find((t) => t.id === taskId);
+      if (!t) throw new Error(`Task not found: ${taskId}`);
+
+      const current = t.usage ?? { inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, costUsd: 0 };
+      t.usage = {
+        inputTokens: current.inputTokens + usage.inputTokens,
+        cachedInputTokens: current.cachedInputTokens + usage.cachedInputTokens,
+        outputTokens: current.outputTokens + usage.outputTokens,
+        costUsd: current.costUsd + usage.costUsd,
+      };
+
+      return { state, result: { ...t } };
+    });
+  }
+
+  private emitTaskUpdated(task: Task, agentId: string, action: string): void {
+    this.eventBus.emit({
+      type: "task:updated",
+      agentId,
+      agentRole: "system",
+      timestamp: Date.now(),
+      summary: `Task "${task.title}" updated (${action.replace(/_/g, " ")})`,
+      data: { taskId: task.id, action },
     });
   }
 
   async areDependenciesMet(task: Task): Promise<boolean> {
     if (!task.dependsOn || task.dependsOn.length === 0) return true;
-    const state = await this.load();
-    for (const depId of task.dependsOn) {
-      const dep = state.tasks.find((t) => t.id === depId);
-      if (!dep || dep.status !== "done") return false;
-    }
-    return true;
+    return dependenciesMet(task, (await this.load()).tasks);
   }
 
   async getAllTasks(): Promise<Task[]> {
@@ -205,3 +497,13 @@ export class KanbanManager {
     return state.tasks;
   }
 }
+
+/**
+ * Whether every task `task` depends on is done, judged against a board
+ * snapshot the caller already holds. Unknown dependencies count as unmet.
+ */
+export function dependenciesMet(task: Task, tasks: Task[]): boolean {
+  if (!task.dependsOn || task.dependsOn.length === 0) return true;
+  const done = new Set(tasks.filter((t) => t.status === "done").map((t) => t.id));
+  return task.dependsOn.every((depId) => done.has(depId));
+}
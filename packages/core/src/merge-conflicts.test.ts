@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { parseConflictHunks } from "./merge-conflicts.js";
+
+const MERGED = [
+  "intro",
+  "<<<<<<< HEAD",
+  "branch line",
+  "=======",
+  "main line",
+  ">>>>>>> main",
+  "outro",
+].join("\n");
+
+describe("parseConflictHunks", () => {
+  it("reads both sides of each conflict region", () => {
+    expect(parseConflictHunks("a.ts", MERGED, "branch")).toEqual([
+      { file: "a.ts", startLine: 2, branch: "branch line", main: "main line" },
+    ]);
+  });
+
+  it("swaps the sides when main is HEAD", () => {
+    expect(parseConflictHunks("a.ts", MERGED, "main")[0]).toMatchObject({ branch: "main line", main: "branch line" });
+  });
+
+  it("drops the diff3 base section", () => {
+    const diff3 = ["<<<<<<< HEAD", "ours", "||||||| base", "base", "=======", "theirs", ">>>>>>> main"].join("\n");
+    expect(parseConflictHunks("a.ts", diff3, "branch")[0]).toMatchObject({ branch: "ours", main: "theirs" });
+  });
+
+  it("finds every region in a file", () => {
+    expect(parseConflictHunks("a.ts", `${MERGED}\n${MERGED}`, "branch").map((hunk) => hunk.startLine)).toEqual([2, 9]);
+  });
+
+  it("cuts long sides short", () => {
+    const long = ["<<<<<<< HEAD", ...Array.from({ length: 45 }, (_, i) => `line ${i}`), "=======", "x", ">>>>>>> main"];
+    expect(parseConflictHunks("a.ts", long.join("\n"), "branch")[0].branch.split("\n").at(-1)).toBe("… (5 more lines)");
+  });
+});
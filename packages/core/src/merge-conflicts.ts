@@ -0,0 +1,82 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { ConflictHunk } from "./types.js";
+
+const MAX_CONFLICT_HUNKS = 20;
+const MAX_SIDE_LINES = 40;
+
+/** Which side git writes first (`HEAD`) in a conflict region. */
+export type ConflictHeadSide = "branch" | "main";
+
+/**
+ * Extract the conflict regions of one file git left with conflict markers.
+ * `headSide` is "branch" when main was merged into the task branch, and
+ * "main" when the task branch was merged into or rebased onto main. diff3
+ * base sections are dropped; long sides are cut to `MAX_SIDE_LINES`.
+ */
+export function parseConflictHunks(file: string, content: string, headSide: ConflictHeadSide): ConflictHunk[] {
+  const hunks: ConflictHunk[] = [];
+  let section: "head" | "base" | "incoming" | undefined;
+  let startLine = 0;
+  let head: string[] = [];
+  let incoming: string[] = [];
+
+  for (const [index, line] of content.split("\n").entries()) {
+    if (line.startsWith("<<<<<<<")) {
+      section = "head";
+      startLine = index + 1;
+      head = [];
+      incoming = [];
+    } else if (section === "head" && line.startsWith("|||||||")) {
+      section = "base";
+    } else if ((section === "head" || section === "base") && line.startsWith("=======")) {
+      section = "incoming";
+    } else if (section === "incoming" && line.startsWith(">>>>>>>")) {
+      const [branch, main] = headSide === "branch" ? [head, incoming] : [incoming, head];
+      hunks.push({ file, startLine, branch: clip(branch), main: clip(main) });
+      section = undefined;
+    } else if (section === "head") {
+      head.push(line);
+    } else if (section === "incoming") {
+      incoming.push(line);
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Read the conflicted `files` under `dir` and collect their hunks, up to
+ * `MAX_CONFLICT_HUNKS` in total. Deleted and binary files yield none.
+ */
+export async function collectConflictHunks(
+  dir: string,
+  files: string[],
+  headSide: ConflictHeadSide,
+): Promise<ConflictHunk[]> {
+  const hunks: ConflictHunk[] = [];
+  for (const file of files) {
+    const content = await readFile(join(dir, file), "utf-8").catch(() => "");
+    hunks.push(...parseConflictHunks(file, content, headSide));
+    if (hunks.length >= MAX_CONFLICT_HUNKS) break;
+  }
+  return hunks.slice(0, MAX_CONFLICT_HUNKS);
+}
+
+/** Prompt form of a hunk: location, then each side in its own fence. */
+export function formatConflictHunk(hunk: ConflictHunk): string {
+  return `\`${hunk.file}\` line ${hunk.startLine}
+task branch:
+\`\`\`
+${hunk.branch}
+\`\`\`
+main:
+\`\`\`
+${hunk.main}
+\`\`\``;
+}
+
+function clip(lines: string[]): string {
+  if (lines.length <= MAX_SIDE_LINES) return lines.join("\n");
+  return [...lines.slice(0, MAX_SIDE_LINES), `… (${lines.length - MAX_SIDE_LINES} more lines)`].join("\n");
+}
@@ -0,0 +1,121 @@
+import { execFile } from "node:child_process";
+import { existsSync } from "node:fs";
+import { mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { EventBus } from "./event-bus.js";
+import { KanbanManager } from "./kanban.js";
+import { MergeQueue } from "./merge-queue.js";
+import type { Task } from "./types.js";
+import { WorktreeManager } from "./worktree-manager.js";
+
+const execFileAsync = promisify(execFile);
+const GIT_IDENTITY = ["-c", "user.name=Test", "-c", "user.email=test@local"];
+// Fails whenever broken.txt exists, so a branch adding it breaks main
+const PACKAGE_JSON = JSON.stringify({
+  scripts: { test: "node -e \"process.exit(require('fs').existsSync('broken.txt') ? 1 : 0)\"" },
+});
+
+describe("MergeQueue", () => {
+  let projectDir: string;
+  let eventBus: EventBus;
+  let kanban: KanbanManager;
+  let worktreeManager: WorktreeManager;
+  let queue: MergeQueue;
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), "arkaledge-merge-queue-"));
+    eventBus = new EventBus();
+    kanban = new KanbanManager(projectDir, eventBus);
+    await kanban.init();
+    worktreeManager = new WorktreeManager(projectDir);
+    queue = new MergeQueue(kanban, eventBus, worktreeManager, projectDir);
+  });
+
+  afterEach(async () => {
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it("fast-forwards main once the tests pass on the merged result", async () => {
+    await landOnMain("package.json", PACKAGE_JSON);
+    const task = await taskWithFile("feature.txt");
+    expect(await queue.merge(task, "rev-1", "reviewer")).toEqual({ status: "merged", verified: true });
+    expect(existsSync(join(projectDir, "feature.txt"))).toBe(true);
+  });
+
+  it("leaves main unchanged when the tests fail", async () => {
+    await landOnMain("package.json", PACKAGE_JSON);
+    const task = await taskWithFile("broken.txt");
+    expect((await queue.merge(task, "rev-1", "reviewer")).status).toBe("failed");
+    expect(existsSync(join(projectDir, "broken.txt"))).toBe(false);
+  });
+
+  it("sends a failing task back with a blocker comment", async () => {
+    await landOnMain("package.json", PACKAGE_JSON);
+    const task = await taskWithFile("broken.txt");
+    await queue.merge(task, "rev-1", "reviewer");
+    const latest = await stored(task.id);
+    expect(latest.status).toBe("in_progress");
+    expect(latest.reviewComments).toMatchObject([{ severity: "blocker", category: "tests", reviewerId: "rev-1" }]);
+  });
+
+  it("merges without verification when the project has no test command", async () => {
+    const task = await taskWithFile("feature.txt");
+    expect(await queue.merge(task, "rev-1", "reviewer")).toEqual({ status: "merged", verified: false });
+  });
+
+  it("removes the integration worktree afterwards", async () => {
+    await landOnMain("package.json", PACKAGE_JSON);
+    await queue.merge(await taskWithFile("broken.txt"), "rev-1", "reviewer");
+    const worktrees = await readdir(join(projectDir, ".arkaledge", "worktrees"));
+    expect(worktrees.filter((name) => name.startsWith("integration-"))).toEqual([]);
+  });
+
+  it("runs queued merges one after another", async () => {
+    await landOnMain("package.json", PACKAGE_JSON);
+    const first = await taskWithFile("one.txt");
+    const second = await taskWithFile("two.txt");
+    const outcomes = await Promise.all([
+      queue.merge(first, "rev-1", "reviewer"),
+      queue.merge(second, "rev-2", "reviewer"),
+    ]);
+    expect(outcomes.map((outcome) => outcome.status)).toEqual(["merged", "merged"]);
+    expect(["one.txt", "two.txt"].every((name) => existsSync(join(projectDir, name)))).toBe(true);
+  });
+
+  /** A review-ready task whose branch adds `name`. */
+  async function taskWithFile(name: string): Promise<Task> {
+    const created = await kanban.addTask({
+      title: `Add ${name}`,
+      description: "",
+      acceptanceCriteria: [],
+      status: "review",
+      priority: "medium",
+      createdBy: "test",
+    });
+    const branch = `task/${created.id}`;
+    const worktree = await worktreeManager.createWorktree(created.id, branch);
+    await commitFile(worktree, name, `${name}\n`);
+    return kanban.updateTask(created.id, { branch, worktree });
+  }
+
+  async function landOnMain(name: string, content: string): Promise<void> {
+    const worktree = await worktreeManager.createWorktree("setup", "task/setup");
+    await commitFile(worktree, name, content);
+    await worktreeManager.mergeToMain("task/setup");
+  }
+
+  async function stored(taskId: string): Promise<Task> {
+    const found = (await kanban.getAllTasks()).find((candidate) => candidate.id === taskId);
+    if (!found) throw new Error(`Task not found: ${taskId}`);
+    return found;
+  }
+});
+
+async function commitFile(worktree: string, name: string, content: string): Promise<void> {
+  await writeFile(join(worktree, name), content);
+  await execFileAsync("git", ["add", name], { cwd: worktree });
+  await execFileAsync("git", [...GIT_IDENTITY, "commit", "-m", `Add ${name}`], { cwd: worktree });
+}
@@ -0,0 +1,142 @@
+import { execFile } from "node:child_process";
+import { existsSync } from "node:fs";
+import { symlink } from "node:fs/promises";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import type { EventBus } from "./event-bus.js";
+import type { KanbanManager } from "./kanban.js";
+import { ensureSharedProjectContext } from "./project-context.js";
+import type { MergeQueueConfig, Task } from "./types.js";
+import type { WorktreeManager } from "./worktree-manager.js";
+
+const execFileAsync = promisify(execFile);
+const DEFAULT_MERGE_QUEUE: MergeQueueConfig = { verify: true, timeout_ms: 600_000 };
+const MAX_FAILURE_OUTPUT_CHARS = 4000;
+// Installed dependencies are not tracked, so the integration worktree borrows them
+const DEPENDENCY_DIRS = ["node_modules", ".venv"];
+
+export type MergeOutcome =
+  | { status: "merged"; verified: boolean }
+  | { status: "failed"; command: string; output: string };
+
+interface CommandResult {
+  ok: boolean;
+  output: string;
+}
+
+/**
+ * Serializes merges into main. With verification on, each approved branch is
+ * merged into a temporary integration branch, the project's test command runs
+ * there, and main is fast-forwarded only when it passes. A failing run leaves
+ * main untouched and sends the task back with the output as a blocker comment.
+ */
+export class MergeQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private kanban: KanbanManager,
+    private eventBus: EventBus,
+    private worktreeManager: WorktreeManager,
+    private projectDir: string,
+    private config: MergeQueueConfig = DEFAULT_MERGE_QUEUE,
+  ) {}
+
+  /**
+   * Merge the task's branch once every earlier merge has finished. Merges go
+   * straight to main when verification is off or the project has no test
+   * command. Conflicts throw `MergeConflictError`.
+   */
+  async merge(task: Task, agentId: string, agentRole: string): Promise<MergeOutcome> {
+    const run = this.tail.then(() => this.mergeNow(task, agentId, agentRole));
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+
+  private async mergeNow(task: Task, agentId: string, agentRole: string): Promise<MergeOutcome> {
+    if (!task.branch) {
+      throw new Error(`Task has no branch to merge: ${task.id}`);
+    }
+
+    const command = this.config.verify ? await this.resolveTestCommand() : undefined;
+    if (!command) {
+      await this.worktreeManager.mergeToMain(task.branch);
+      return { status: "merged", verified: false };
+    }
+
+    const integration = await this.worktreeManager.createIntegrationWorktree(task.id, task.branch);
+    try {
+      await linkDependencies([task.worktree, this.projectDir], integration.path);
+      this.eventBus.emit({
+        type: "agent:message",
+        agentId,
+        agentRole,
+        timestamp: Date.now(),
+        summary: `Verifying ${task.branch} merged with main: ${command}`,
+        data: { taskId: task.id, branch: task.branch, integrationBranch: integration.branch, command },
+      });
+
+      const result = await runCommand(command, integration.path, this.config.timeout_ms);
+      if (!result.ok) {
+        await this.rejectTask(task, command, result.output, agentId, agentRole);
+        return { status: "failed", command, output: result.output };
+      }
+
+      await this.worktreeManager.fastForwardMain(integration.branch);
+      return { status: "merged", verified: true };
+    } finally {
+      await this.worktreeManager.removeIntegrationWorktree(task.id);
+    }
+  }
+
+  /** The test command detected for main; "N/A" means the project has none yet. */
+  private async resolveTestCommand(): Promise<string | undefined> {
+    const { context } = await ensureSharedProjectContext(this.projectDir);
+    return context.testCommand === "N/A" ? undefined : context.testCommand;
+  }
+
+  private async rejectTask(task: Task, command: string, output: string, agentId: string, agentRole: string): Promise<void> {
+    await this.kanban.addReviewComment(task.id, {
+      body: `Tests failed after merging with main (\`${command}\`), so main was left unchanged:\n${output}`,
+      severity: "blocker",
+      category: "tests",
+    }, agentId);
+    await this.kanban.moveTask(task.id, "in_progress", agentId, "Post-merge verification failed — main left unchanged");
+
+    this.eventBus.emit({
+      type: "agent:error",
+      agentId,
+      agentRole,
+      timestamp: Date.now(),
+      summary: `Merge verification failed: ${task.title} (${command})`,
+      data: { taskId: task.id, branch: task.branch, command, output },
+    });
+  }
+}
+
+async function linkDependencies(sources: Array<string | undefined>, target: string): Promise<void> {
+  for (const dir of DEPENDENCY_DIRS) {
+    if (existsSync(join(target, dir))) continue;
+    const source = sources.find((candidate) => candidate && existsSync(join(candidate, dir)));
+    if (source) await symlink(join(source, dir), join(target, dir), "dir");
+  }
+}
+
+async function runCommand(command: string, cwd: string, timeoutMs: number): Promise<CommandResult> {
+  try {
+    await execFileAsync("sh", ["-c", command], {
+      cwd,
+      timeout: timeoutMs,
+      maxBuffer: 10 * 1024 * 1024,
+      env: { ...process.env, CI: "true" },
+    });
+    return { ok: true, output: "" };
+  } catch (error) {
+    const execError = error as Error & { stdout?: string; stderr?: string; killed?: boolean };
+    const output = [execError.stdout, execError.stderr]
+      .filter((part): part is string => Boolean(part?.trim()))
+      .join("\n")
+      .trim();
+    const detail = execError.killed ? `Timed out after ${timeoutMs}ms\n${output}` : output || execError.message;
+    return { ok: false, output: detail.slice(-MAX_FAILURE_OUTPUT_CHARS) };
+  }
+}
@@ -2,36 +2,76 @@ import { mkdir } from "node:fs/promises";
 import { join } from "node:path";
 import { createTeamRuntimes } from "./agents/agent-factory.js";
 import type { AgentRuntime } from "./agents/agent-runtime.js";
+import { BudgetGuard } from "./budget.js";
 import { globalEventBus } from "./event-bus.js";
+import type { BlockReplanner } from "./failure-handler.js";
 import { KanbanManager } from "./kanban.js";
+import { PluginHookRunner } from "./plugins/plugin-hooks.js";
+import { loadPlugins } from "./plugins/plugin-loader.js";
+import type { ArkaledgePlugin } from "./plugins/plugin-types.js";
 import { ensureSharedProjectContext } from "./project-context.js";
+import { createPullRequestProvider } from "./pull-requests/provider-factory.js";
+import type { PullRequestProvider } from "./pull-requests/pull-request-provider.js";
 import { ProductManagerRole } from "./roles/product-manager.js";
+import { ScrumMasterPlanner } from "./roles/scrum-master-planner.js";
 import { ScrumMasterRole } from "./roles/scrum-master.js";
-import type { AgentConfig, SharedProjectContext, Task, TeamConfig } from "./types.js";
+import { createKanbanStorage } from "./storage/storage-factory.js";
+import type {
+  AgentConfig,
+  AgentEvent,
+  SchedulerControl,
+  SchedulerMode,
+  SharedProjectContext,
+  Task,
+  TeamConfig,
+  UsageReport,
+  UsageSource,
+} from "./types.js";
+import { UsageTracker } from "./usage.js";
 import { WorktreeManager } from "./worktree-manager.js";
 
+export interface OrchestratorOptions {
+  /** Continue from the existing kanban in `projectDir`. Defaults to `ARKALEDGE_RESUME_MODE=1`. */
+  resume?: boolean;
+}
+
 // Allow nested Claude Code sessions — the SDK spawns `claude` subprocesses
 // which refuse to start if CLAUDECODE is set (prevents accidental nesting).
 delete process.env.CLAUDECODE;
 
 /**
- * Main orchestrator: wires PM breakdown → Scrum Master coordination → completion.
+ * Main orchestrator: wires PM breakdown → Scrum Master coordination →
+ * PM gap analysis (repeated up to `workflow.max_gap_rounds`) → completion.
  */
-export class Orchestrator {
+export class Orchestrator implements SchedulerControl, UsageSource {
   private scrumMaster: ScrumMasterRole | undefined;
+  private stopped = false;
+  /** Requested scheduling mode; applied to the Scrum Master once it exists. */
+  private schedulerMode: SchedulerMode = "running";
   private runtimes: Map<string, AgentRuntime> = new Map();
+  private plugins: ArkaledgePlugin[] = [];
+  private pluginHooks: PluginHookRunner = new PluginHookRunner([], globalEventBus);
   private sharedContext: SharedProjectContext | undefined;
-  private resume = false;
+  private resumeExisting = false;
+  private usageTracker: UsageTracker | undefined;
+  private pullRequestProvider: PullRequestProvider | undefined;
 
   constructor(
     private config: TeamConfig,
     private projectDir: string,
+    private options: OrchestratorOptions = {},
   ) {}
 
   async start(spec: string): Promise<void> {
-    this.resume = process.env.ARKALEDGE_RESUME_MODE === "1";
+    this.resumeExisting = this.options.resume ?? process.env.ARKALEDGE_RESUME_MODE === "1";
+    this.stopped = false;
+    this.schedulerMode = "running";
     const eventBus = globalEventBus;
 
+    // Fail on a missing API token before any agent spends tokens
+    const { auto_merge: autoMerge, remote } = this.config.workflow;
+    this.pullRequestProvider = autoMerge === "pull_request" && remote ? createPullRequestProvider(remote) : undefined;
+
     eventBus.emit({
       type: "project:started",
       agentId: "orchestrator",
@@ -62,14 +102,116 @@ export class Orchestrator {
     // Create all agent runtimes from config
     this.runtimes = createTeamRuntimes(this.config.team);
 
+    // Load configured plugins and expose their tools to every agent runtime
+    this.plugins = await loadPlugins(this.config.plugins, process.cwd());
+    this.pluginHooks = new PluginHookRunner(this.plugins, eventBus);
+    const pluginTools = this.plugins.flatMap((plugin) => plugin.tools);
+    if (pluginTools.length > 0) {
+      for (const runtime of this.runtimes.values()) {
+        runtime.registerTools(pluginTools);
+      }
+    }
+    if (this.config.plugins.length > 0) {
+      eventBus.emit({
+        type: "agent:message",
+        agentId: "orchestrator",
+        agentRole: "system",
+        timestamp: Date.now(),
+        summary: `Loaded ${this.plugins.length}/${this.config.plugins.length} plugins (${pluginTools.length} tools)`,
+        data: {
+          plugins: this.plugins.map((plugin) => plugin.name),
+          tools: pluginTools.map((tool) => tool.name),
+        },
+      });
+    }
+
     // Initialize Kanban
-    const kanban = new KanbanManager(this.projectDir, eventBus);
+    const kanban = new KanbanManager(
+      this.projectDir,
+      eventBus,
+      createKanbanStorage(this.projectDir, this.config.workflow.storage),
+    );
     await kanban.init();
 
+    // Price and aggregate token usage reported by every agent
+    this.usageTracker?.detach();
+    this.usageTracker = new UsageTracker(kanban, eventBus, this.config.pricing);
+    await this.usageTracker.init();
+    this.usageTracker.attach();
+
+    await this.pluginHooks.invoke("onProjectStart", this.projectDir);
+
+    // Notify plugins of every task creation (PM breakdown, gap analysis, API)
+    const onTaskCreated = (event: AgentEvent): void => {
+      const taskId = event.data?.taskId;
+      if (typeof taskId !== "string") return;
+      void kanban.getAllTasks().then((tasks) => {
+        const task = tasks.find((t) => t.id === taskId);
+        if (task) return this.pluginHooks.invoke("onTaskCreated", task);
+      }).catch(() => undefined);
+    };
+    eventBus.on("task:created", onTaskCreated);
+
+    try {
+      await this.runPhases(spec, kanban);
+    } finally {
+      eventBus.off("task:created", onTaskCreated);
+      this.usageTracker.detach();
+      await this.usageTracker.flush();
+    }
+  }
+
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.scrumMaster?.stop();
+
+    // Abort all running runtimes
+    const abortPromises: Promise<void>[] = [];
+    for (const runtime of this.runtimes.values()) {
+      abortPromises.push(runtime.abort());
+    }
+    await Promise.allSettled(abortPromises);
+  }
+
+  /** Token and cost totals for this run (empty before `start()`). */
+  getUsageReport(): UsageReport {
+    return this.usageTracker?.getReport() ?? {
+      total: { inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, costUsd: 0 },
+      byAgent: {},
+      byTask: {},
+      byModel: {},
+      unpricedModels: [],
+    };
+  }
+
+  getSchedulerMode(): SchedulerMode {
+    return this.scrumMaster?.getMode() ?? this.schedulerMode;
+  }
+
+  pause(): void {
+    this.schedulerMode = "paused";
+    this.scrumMaster?.pause();
+  }
+
+  resume(): void {
+    this.schedulerMode = "running";
+    this.scrumMaster?.resume();
+  }
+
+  /** Finish active work, then end the run without further gap analysis. */
+  drain(): void {
+    this.schedulerMode = "draining";
+    this.scrumMaster?.drain();
+  }
+
+  /** PM breakdown (or resume) → Scrum Master loop → PM gap-analysis rounds → completion. */
+  private async runPhases(spec: string, kanban: KanbanManager): Promise<void> {
+    const eventBus = globalEventBus;
+
     let tasks: Task[];
     const existingTasks = await kanban.getAllTasks();
     if (existingTasks.length > 0) {
-      if (!this.resume) {
+      if (!this.resumeExisting) {
         throw new Error(
           `Output directory already contains ${existingTasks.length} existing tasks. `
           + "Use a fresh --output path or rerun with --resume.",
@@ -85,17 +227,7 @@ export class Orchestrator {
       });
     } else {
       // ── Phase A: PM Breakdown ──
-      const pmConfig = this.config.team.find((a) => a.role === "product-manager");
-      if (!pmConfig) {
-        throw new Error("No product-manager found in team config");
-      }
-
-      const pmRuntime = this.runtimes.get(pmConfig.id);
-      if (!pmRuntime) {
-        throw new Error(`Runtime not found for PM agent: ${pmConfig.id}`);
-      }
-
-      const pm = new ProductManagerRole(pmRuntime, kanban, eventBus, this.sharedContext);
+      const pm = this.createProductManager(kanban);
       tasks = await pm.breakdownSpec(spec, this.projectDir);
 
       eventBus.emit({
@@ -108,21 +240,35 @@ export class Orchestrator {
     }
 
     // ── Phase B: Scrum Master Coordination ──
-    // Gather engineer runtimes with their configs
+    // Gather engineer and reviewer runtimes with their configs
     const engineerEntries = new Map<string, { runtime: AgentRuntime; config: AgentConfig }>();
+    const reviewerEntries = new Map<string, { runtime: AgentRuntime; config: AgentConfig }>();
     for (const agentConfig of this.config.team) {
-      if (agentConfig.role === "engineer") {
-        const runtime = this.runtimes.get(agentConfig.id);
-        if (runtime) {
-          engineerEntries.set(agentConfig.id, { runtime, config: agentConfig });
-        }
-      }
+      if (agentConfig.role !== "engineer" && agentConfig.role !== "reviewer") continue;
+      const runtime = this.runtimes.get(agentConfig.id);
+      if (!runtime) continue;
+      const entries = agentConfig.role === "engineer" ? engineerEntries : reviewerEntries;
+      entries.set(agentConfig.id, { runtime, config: agentConfig });
     }
 
     if (engineerEntries.size === 0) {
       throw new Error("No engineers found in team config");
     }
+    if (
+      this.config.workflow.review_required
+      && reviewerEntries.size === 0
+      && this.config.workflow.reviewer_fallback_to_engineers === false
+    ) {
+      throw new Error("review_required needs a reviewer agent when reviewer_fallback_to_engineers is false");
+    }
 
+    const budget = new BudgetGuard(this, this.config.workflow.budget);
+    const planner = this.config.workflow.scrum_master_mode === "llm"
+      ? this.createScrumMasterPlanner(kanban)
+      : undefined;
+    const replanPm = this.config.workflow.replan_on_block ? this.createProductManager(kanban) : undefined;
+    const replanner: BlockReplanner | undefined = replanPm
+      && ((task, reason, dependents) => replanPm.replanAroundBlock(task, reason, dependents, this.projectDir));
     this.scrumMaster = new ScrumMasterRole(
       engineerEntries,
       kanban,
@@ -130,28 +276,126 @@ export class Orchestrator {
       this.config.workflow,
       new WorktreeManager(this.projectDir),
       this.sharedContext,
+      this.pluginHooks,
+      budget,
+      reviewerEntries,
+      planner,
+      replanner,
+      this.pullRequestProvider,
     );
+    if (this.schedulerMode === "paused") this.scrumMaster.pause();
+    if (this.schedulerMode === "draining") this.scrumMaster.drain();
 
     await this.scrumMaster.run(this.projectDir);
 
+    // ── Phase C: PM Gap Analysis ──
+    // Re-check the merged output against the spec; follow-up tasks re-enter the Scrum Master loop.
+    const maxGapRounds = this.config.workflow.max_gap_rounds;
+    const pm = maxGapRounds > 0 ? this.createProductManager(kanban) : undefined;
+    const isHalting = (): boolean => this.stopped || this.isDraining() || budget.checkRunHeadroom() !== undefined;
+    for (let round = 1; pm && round <= maxGapRounds && !isHalting(); round++) {
+      let followUpTasks: Task[];
+      try {
+        followUpTasks = await pm.analyzeGaps(spec, this.projectDir, round);
+      } catch (error) {
+        eventBus.emit({
+          type: "agent:error",
+          agentId: "orchestrator",
+          agentRole: "system",
+          timestamp: Date.now(),
+          summary: `PM gap analysis failed (round ${round}): ${error instanceof Error ? error.message : String(error)}`,
+          data: { round },
+        });
+        break;
+      }
+
+      if (followUpTasks.length === 0 || isHalting()) break;
+
+      eventBus.emit({
+        type: "agent:message",
+        agentId: "orchestrator",
+        agentRole: "system",
+        timestamp: Date.now(),
+        summary: `Gap analysis round ${round}/${maxGapRounds} added ${followUpTasks.length} tasks — resuming engineering phase`,
+        data: { round, taskIds: followUpTasks.map((t) => t.id) },
+      });
+
+      await this.scrumMaster.run(this.projectDir);
+    }
+
+    // A stopped run did not complete; plugins and listeners must not hear otherwise
+    if (this.stopped) return;
+
+    if (this.isDraining()) {
+      const remaining = (await kanban.getAllTasks()).filter((t) => t.status !== "done");
+      eventBus.emit({
+        type: "agent:message",
+        agentId: "orchestrator",
+        agentRole: "system",
+        timestamp: Date.now(),
+        summary: `Drain complete — exiting with ${remaining.length} unfinished tasks (resume to continue)`,
+        data: { remaining: remaining.length },
+      });
+      return;
+    }
+
+    const budgetReason = budget.checkRunHeadroom();
+    const unfinished = (await kanban.getAllTasks()).filter((t) => t.status !== "done");
+    if (budgetReason && unfinished.length > 0) {
+      eventBus.emit({
+        type: "agent:message",
+        agentId: "orchestrator",
+        agentRole: "system",
+        timestamp: Date.now(),
+        summary: `Run budget reached — exiting with ${unfinished.length} unfinished tasks (${budgetReason})`,
+        data: { remaining: unfinished.length, reason: budgetReason, budgetExceeded: true },
+      });
+      return;
+    }
+
+    await this.pluginHooks.invoke("onProjectComplete", this.projectDir);
+
+    const finalTasks = await kanban.getAllTasks();
+    const usage = this.getUsageReport().total;
     eventBus.emit({
       type: "project:completed",
       agentId: "orchestrator",
       agentRole: "system",
       timestamp: Date.now(),
-      summary: "Project completed",
-      data: { totalTasks: tasks.length },
+      summary: `Project completed (${usage.inputTokens + usage.cachedInputTokens + usage.outputTokens} tokens, $${usage.costUsd.toFixed(2)})`,
+      data: { totalTasks: finalTasks.length, usage },
     });
   }
 
-  async stop(): Promise<void> {
-    this.scrumMaster?.stop();
+  private isDraining(): boolean {
+    return this.getSchedulerMode() === "draining";
+  }
 
-    // Abort all running runtimes
-    const abortPromises: Promise<void>[] = [];
-    for (const runtime of this.runtimes.values()) {
-      abortPromises.push(runtime.abort());
+  private createProductManager(kanban: KanbanManager): ProductManagerRole {
+    const pmConfig = this.config.team.find((a) => a.role === "product-manager");
+    if (!pmConfig) {
+      throw new Error("No product-manager found in team config");
     }
-    await Promise.allSettled(abortPromises);
+
+    const pmRuntime = this.runtimes.get(pmConfig.id);
+    if (!pmRuntime) {
+      throw new Error(`Runtime not found for PM agent: ${pmConfig.id}`);
+    }
+
+    return new ProductManagerRole(pmRuntime, kanban, globalEventBus, this.sharedContext);
+  }
+
+  private createScrumMasterPlanner(kanban: KanbanManager): ScrumMasterPlanner {
+    const smConfig = this.config.team.find((a) => a.role === "scrum-master");
+    if (!smConfig) {
+      throw new Error("scrum_master_mode \"llm\" needs a scrum-master in team config");
+    }
+
+    const smRuntime = this.runtimes.get(smConfig.id);
+    if (!smRuntime) {
+      throw new Error(`Runtime not found for Scrum Master agent: ${smConfig.id}`);
+    }
+
+    return new ScrumMasterPlanner(smRuntime, kanban, globalEventBus, this.projectDir);
   }
 }
@@ -0,0 +1,61 @@
+import type { EventBus } from "../event-bus.js";
+import type { ArkaledgePlugin, PluginHookName } from "./plugin-types.js";
+
+const DEFAULT_HOOK_TIMEOUT_MS = 30_000;
+
+type HookArgs<K extends PluginHookName> = Parameters<NonNullable<ArkaledgePlugin[K]>>;
+
+/**
+ * Invokes plugin lifecycle hooks with a per-hook timeout. Each plugin is
+ * isolated: a throwing or hanging hook becomes an `agent:error` event and
+ * never fails the caller.
+ */
+export class PluginHookRunner {
+  constructor(
+    private plugins: ArkaledgePlugin[],
+    private eventBus: EventBus,
+    private timeoutMs = DEFAULT_HOOK_TIMEOUT_MS,
+  ) {}
+
+  async invoke<K extends PluginHookName>(hook: K, ...args: HookArgs<K>): Promise<void> {
+    const calls = this.plugins
+      .filter((plugin) => typeof plugin[hook] === "function")
+      .map((plugin) => this.invokeOne(plugin, hook, args));
+    await Promise.all(calls);
+  }
+
+  private async invokeOne<K extends PluginHookName>(
+    plugin: ArkaledgePlugin,
+    hook: K,
+    args: HookArgs<K>,
+  ): Promise<void> {
+    const fn = plugin[hook] as (...hookArgs: HookArgs<K>) => Promise<void>;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const call = Promise.resolve().then(() => fn.apply(plugin, args));
+      // A timed-out hook keeps running; swallow its late rejection.
+      call.catch(() => undefined);
+      await Promise.race([
+        call,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new Error(`timed out after ${this.timeoutMs}ms`)),
+            this.timeoutMs,
+          );
+        }),
+      ]);
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error);
+      this.eventBus.emit({
+        type: "agent:error",
+        agentId: `plugin:${plugin.name}`,
+        agentRole: "plugin",
+        timestamp: Date.now(),
+        summary: `Plugin "${plugin.name}" ${hook} hook failed: ${detail}`,
+        data: { plugin: plugin.name, hook, error: detail },
+      });
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
+  }
+}
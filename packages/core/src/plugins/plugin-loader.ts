@@ -1,10 +1,12 @@
-import { resolve } from "node:path";
+import { readFile, stat } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
 import type { PluginRef } from "../types.js";
 import type { ArkaledgePlugin } from "./plugin-types.js";
 
 /**
- * Load plugins from config paths. Each plugin directory must have a default export
- * conforming to ArkaledgePlugin.
+ * Load plugins from config paths. Each plugin directory (or module file) must have
+ * a default export conforming to ArkaledgePlugin.
  */
 export async function loadPlugins(
   pluginRefs: PluginRef[],
@@ -15,7 +17,8 @@ export async function loadPlugins(
   for (const ref of pluginRefs) {
     const pluginPath = resolve(baseDir, ref.path);
     try {
-      const mod = await import(pluginPath);
+      const entryPath = await resolvePluginEntry(pluginPath);
+      const mod = await import(pathToFileURL(entryPath).href);
       const plugin: ArkaledgePlugin = mod.default ?? mod;
       if (!plugin.name || !plugin.tools) {
         throw new Error(
@@ -33,3 +36,19 @@ export async function loadPlugins(
 
   return plugins;
 }
+
+/** ESM cannot import directories: resolve a plugin directory to its package `main` or `index.js`. */
+async function resolvePluginEntry(pluginPath: string): Promise<string> {
+  const stats = await stat(pluginPath);
+  if (!stats.isDirectory()) return pluginPath;
+
+  try {
+    const pkg = JSON.parse(await readFile(join(pluginPath, "package.json"), "utf-8")) as { main?: unknown };
+    if (typeof pkg.main === "string" && pkg.main.length > 0) {
+      return join(pluginPath, pkg.main);
+    }
+  } catch {
+    // No package.json — fall back to index.js
+  }
+  return join(pluginPath, "index.js");
+}
@@ -0,0 +1,209 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { PluginTool } from "./plugin-types.js";
+
+const MCP_ROUTE = "/mcp";
+const DEFAULT_PROTOCOL_VERSION = "2025-03-26";
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export interface PluginToolServerOptions {
+  name: string;
+  tools: PluginTool[];
+}
+
+/**
+ * Minimal MCP server (streamable HTTP, JSON responses only) that exposes plugin
+ * tools to SDK subprocesses which cannot call in-process functions directly.
+ * Binds to loopback on an ephemeral port and does not keep the process alive.
+ */
+export class PluginToolServer {
+  private server: Server | null = null;
+  private url: string | null = null;
+
+  constructor(private options: PluginToolServerOptions) {}
+
+  async start(): Promise<string> {
+    if (this.url) return this.url;
+
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        sendJson(res, 500, rpcError(null, -32603, message));
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(0, "127.0.0.1", () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+    server.unref();
+
+    const { port } = server.address() as AddressInfo;
+    this.server = server;
+    this.url = `http://127.0.0.1:${port}${MCP_ROUTE}`;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    this.url = null;
+    if (!server) return;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (pathname !== MCP_ROUTE) {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+
+    // Stateless server: no server-initiated SSE stream and no sessions to delete.
+    if (req.method !== "POST") {
+      res.writeHead(405, { Allow: "POST" });
+      res.end();
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(await readBody(req));
+    } catch {
+      sendJson(res, 400, rpcError(null, -32700, "Parse error"));
+      return;
+    }
+
+    const messages = Array.isArray(payload) ? payload : [payload];
+    const responses: JsonRpcResponse[] = [];
+    for (const message of messages) {
+      const response = await this.dispatch(message);
+      if (response) responses.push(response);
+    }
+
+    if (responses.length === 0) {
+      res.writeHead(202);
+      res.end();
+      return;
+    }
+
+    sendJson(res, 200, Array.isArray(payload) ? responses : responses[0]);
+  }
+
+  private async dispatch(message: unknown): Promise<JsonRpcResponse | null> {
+    if (!isJsonRpcRequest(message)) {
+      return rpcError(null, -32600, "Invalid request");
+    }
+
+    // Notifications carry no id and expect no response.
+    if (message.id === undefined) return null;
+    const id = message.id;
+
+    switch (message.method) {
+      case "initialize":
+        return {
+          jsonrpc: "2.0",
+          id,
+          result: {
+            protocolVersion: typeof message.params?.protocolVersion === "string"
+              ? message.params.protocolVersion
+              : DEFAULT_PROTOCOL_VERSION,
+            capabilities: { tools: {} },
+            serverInfo: { name: this.options.name, version: "1.0.0" },
+          },
+        };
+
+      case "ping":
+        return { jsonrpc: "2.0", id, result: {} };
+
+      case "tools/list":
+        return {
+          jsonrpc: "2.0",
+          id,
+          result: {
+            tools: this.options.tools.map((tool) => ({
+              name: tool.name,
+              description: tool.description,
+              inputSchema: tool.parameters,
+            })),
+          },
+        };
+
+      case "tools/call":
+        return { jsonrpc: "2.0", id, result: await this.callTool(message.params ?? {}) };
+
+      default:
+        return rpcError(id, -32601, `Method not found: ${message.method}`);
+    }
+  }
+
+  private async callTool(params: Record<string, unknown>): Promise<unknown> {
+    const name = typeof params.name === "string" ? params.name : "";
+    const input = params.arguments ?? {};
+    const tool = this.options.tools.find((candidate) => candidate.name === name);
+
+    let output: string;
+    let isError = false;
+    if (!tool) {
+      output = `Unknown plugin tool: ${name}`;
+      isError = true;
+    } else {
+      try {
+        output = await tool.execute(input);
+      } catch (error) {
+        output = error instanceof Error ? error.message : String(error);
+        isError = true;
+      }
+    }
+
+    return { content: [{ type: "text", text: output }], isError };
+  }
+}
+
+function isJsonRpcRequest(value: unknown): value is JsonRpcRequest {
+  if (typeof value !== "object" || value === null) return false;
+  const record = value as Record<string, unknown>;
+  return record.jsonrpc === "2.0" && typeof record.method === "string";
+}
+
+function rpcError(id: string | number | null, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: "2.0", id, error: { code, message } };
+}
+
+function sendJson(res: ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf-8");
+    req.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
@@ -7,11 +7,24 @@ export interface PluginTool {
   execute(params: unknown): Promise<string>;
 }
 
+export interface ReviewVerdictInfo {
+  verdict: "approved" | "rejected";
+  comments: string[];
+  reviewerId: string;
+}
+
 export interface ArkaledgePlugin {
   name: string;
   description: string;
   tools: PluginTool[];
   onProjectStart?(projectDir: string): Promise<void>;
+  onTaskCreated?(task: Task): Promise<void>;
+  onReviewVerdict?(task: Task, review: ReviewVerdictInfo): Promise<void>;
+  onTaskMerged?(task: Task, branch: string): Promise<void>;
   onTaskComplete?(task: Task): Promise<void>;
   onProjectComplete?(projectDir: string): Promise<void>;
 }
+
+export type PluginHookName = {
+  [K in keyof ArkaledgePlugin]-?: K extends `on${string}` ? K : never;
+}[keyof ArkaledgePlugin];
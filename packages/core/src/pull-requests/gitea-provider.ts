@@ -0,0 +1,18 @@
+import type { PullRequestProviderName } from "../types.js";
+import { GitHubProvider } from "./github-provider.js";
+
+/** Gitea's pulls API mirrors GitHub's; only the auth header differs. */
+export class GiteaProvider extends GitHubProvider {
+  override readonly name: PullRequestProviderName = "gitea";
+
+  constructor(repository: string, token: string, apiUrl: string) {
+    super(repository, token, apiUrl);
+  }
+
+  protected override headers(): Record<string, string> {
+    return {
+      Authorization: `token ${this.token}`,
+      Accept: "application/json",
+    };
+  }
+}
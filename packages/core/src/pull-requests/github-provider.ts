@@ -0,0 +1,52 @@
+import type { PullRequestProviderName, TaskPullRequest } from "../types.js";
+import { requestJson } from "./http.js";
+import type { NewPullRequest, OpenedPullRequest, PullRequestProvider } from "./pull-request-provider.js";
+
+const GITHUB_API_URL = "https://api.github.com";
+
+interface PullResponse {
+  number: number;
+  html_url: string;
+  state: string;
+  merged?: boolean;
+}
+
+/**
+ * GitHub pulls API. Gitea serves the same routes under its own API root, so
+ * `GiteaProvider` reuses this class with a different auth header.
+ */
+export class GitHubProvider implements PullRequestProvider {
+  readonly name: PullRequestProviderName = "github";
+
+  constructor(
+    private repository: string,
+    protected token: string,
+    private apiUrl = GITHUB_API_URL,
+  ) {}
+
+  async openPullRequest(request: NewPullRequest): Promise<OpenedPullRequest> {
+    const pull = await requestJson<PullResponse>(this.url("/pulls"), "POST", this.headers(), request);
+    return { number: pull.number, url: pull.html_url };
+  }
+
+  async addComment(number: number, body: string): Promise<void> {
+    await requestJson(this.url(`/issues/${number}/comments`), "POST", this.headers(), { body });
+  }
+
+  async getState(number: number): Promise<TaskPullRequest["state"]> {
+    const pull = await requestJson<PullResponse>(this.url(`/pulls/${number}`), "GET", this.headers());
+    if (pull.merged) return "merged";
+    return pull.state === "open" ? "open" : "closed";
+  }
+
+  protected headers(): Record<string, string> {
+    return {
+      Authorization: `Bearer ${this.token}`,
+      Accept: "application/vnd.github+json",
+    };
+  }
+
+  private url(path: string): string {
+    return `${this.apiUrl.replace(/\/$/, "")}/repos/${this.repository}${path}`;
+  }
+}
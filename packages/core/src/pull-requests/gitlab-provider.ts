@@ -0,0 +1,51 @@
+import type { PullRequestProviderName, TaskPullRequest } from "../types.js";
+import { requestJson } from "./http.js";
+import type { NewPullRequest, OpenedPullRequest, PullRequestProvider } from "./pull-request-provider.js";
+
+const GITLAB_API_URL = "https://gitlab.com/api/v4";
+
+interface MergeRequestResponse {
+  iid: number;
+  web_url: string;
+  state: string;
+}
+
+/** GitLab merge requests API; `number` is the merge request IID. */
+export class GitLabProvider implements PullRequestProvider {
+  readonly name: PullRequestProviderName = "gitlab";
+
+  constructor(
+    private repository: string,
+    private token: string,
+    private apiUrl = GITLAB_API_URL,
+  ) {}
+
+  async openPullRequest(request: NewPullRequest): Promise<OpenedPullRequest> {
+    const mergeRequest = await requestJson<MergeRequestResponse>(this.url(""), "POST", this.headers(), {
+      source_branch: request.head,
+      target_branch: request.base,
+      title: request.title,
+      description: request.body,
+    });
+    return { number: mergeRequest.iid, url: mergeRequest.web_url };
+  }
+
+  async addComment(number: number, body: string): Promise<void> {
+    await requestJson(this.url(`/${number}/notes`), "POST", this.headers(), { body });
+  }
+
+  async getState(number: number): Promise<TaskPullRequest["state"]> {
+    const mergeRequest = await requestJson<MergeRequestResponse>(this.url(`/${number}`), "GET", this.headers());
+    if (mergeRequest.state === "merged") return "merged";
+    return mergeRequest.state === "opened" || mergeRequest.state === "locked" ? "open" : "closed";
+  }
+
+  private headers(): Record<string, string> {
+    return { "PRIVATE-TOKEN": this.token };
+  }
+
+  private url(path: string): string {
+    const project = encodeURIComponent(this.repository);
+    return `${this.apiUrl.replace(/\/$/, "")}/projects/${project}/merge_requests${path}`;
+  }
+}
@@ -0,0 +1,18 @@
+/** Send a JSON request to a git host API and parse the JSON reply; non-2xx answers throw. */
+export async function requestJson<T = unknown>(
+  url: string,
+  method: "GET" | "POST",
+  headers: Record<string, string>,
+  body?: unknown,
+): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: { ...headers, ...(body === undefined ? {} : { "Content-Type": "application/json" }) },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await res.text();
+  if (!res.ok) {
+    throw new Error(`${method} ${url} failed: ${res.status} ${text.slice(0, 300)}`);
+  }
+  return (text ? JSON.parse(text) : {}) as T;
+}
@@ -0,0 +1,33 @@
+import type { RemoteConfig } from "../types.js";
+import { GiteaProvider } from "./gitea-provider.js";
+import { GitHubProvider } from "./github-provider.js";
+import { GitLabProvider } from "./gitlab-provider.js";
+import type { PullRequestProvider } from "./pull-request-provider.js";
+
+/**
+ * Creates the PullRequestProvider for `remote.provider`, reading the API
+ * token from the environment variable named by `remote.token_env`.
+ */
+export function createPullRequestProvider(
+  remote: RemoteConfig,
+  env: Record<string, string | undefined> = process.env,
+): PullRequestProvider {
+  const token = env[remote.token_env];
+  if (!token) {
+    throw new Error(`auto_merge: pull_request needs an API token in $${remote.token_env}`);
+  }
+
+  switch (remote.provider) {
+    case "github":
+      return new GitHubProvider(remote.repository, token, remote.api_url);
+    case "gitlab":
+      return new GitLabProvider(remote.repository, token, remote.api_url);
+    case "gitea":
+      if (!remote.api_url) {
+        throw new Error("The gitea provider needs remote.api_url");
+      }
+      return new GiteaProvider(remote.repository, token, remote.api_url);
+    default:
+      throw new Error(`Unknown pull request provider: ${remote.provider as string}`);
+  }
+}
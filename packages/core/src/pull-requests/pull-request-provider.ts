@@ -0,0 +1,30 @@
+import type { PullRequestProviderName, TaskPullRequest } from "../types.js";
+
+export interface NewPullRequest {
+  /** Pushed task branch. */
+  head: string;
+  /** Branch the pull request targets. */
+  base: string;
+  title: string;
+  body: string;
+}
+
+export interface OpenedPullRequest {
+  number: number;
+  url: string;
+}
+
+/**
+ * Unified interface over the REST APIs of git hosts. GitHub, GitLab and
+ * Gitea are adapted to it; tests use an in-memory provider.
+ */
+export interface PullRequestProvider {
+  readonly name: PullRequestProviderName;
+
+  openPullRequest(request: NewPullRequest): Promise<OpenedPullRequest>;
+
+  /** Post a conversation comment on the pull request. */
+  addComment(number: number, body: string): Promise<void>;
+
+  getState(number: number): Promise<TaskPullRequest["state"]>;
+}
@@ -0,0 +1,146 @@
+import { execFile } from "node:child_process";
+import { existsSync } from "node:fs";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { EventBus } from "../event-bus.js";
+import { KanbanManager } from "../kanban.js";
+import type { PullRequestProviderName, RemoteConfig, Task, TaskPullRequest } from "../types.js";
+import { WorktreeManager } from "../worktree-manager.js";
+import type { NewPullRequest, OpenedPullRequest, PullRequestProvider } from "./pull-request-provider.js";
+import { PullRequestPublisher } from "./pull-request-publisher.js";
+
+const execFileAsync = promisify(execFile);
+const GIT_IDENTITY = ["-c", "user.name=Test", "-c", "user.email=test@local"];
+
+/** In-memory provider: records pull requests and comments; tests set the state. */
+class StubProvider implements PullRequestProvider {
+  readonly name: PullRequestProviderName = "github";
+  opened: NewPullRequest[] = [];
+  comments: Array<{ number: number; body: string }> = [];
+  state: TaskPullRequest["state"] = "open";
+
+  async openPullRequest(request: NewPullRequest): Promise<OpenedPullRequest> {
+    this.opened.push(request);
+    return { number: this.opened.length, url: `https://example.test/pull/${this.opened.length}` };
+  }
+
+  async addComment(number: number, body: string): Promise<void> {
+    this.comments.push({ number, body });
+  }
+
+  async getState(): Promise<TaskPullRequest["state"]> {
+    return this.state;
+  }
+}
+
+describe("PullRequestPublisher", () => {
+  let projectDir: string;
+  let remoteDir: string;
+  let kanban: KanbanManager;
+  let worktreeManager: WorktreeManager;
+  let provider: StubProvider;
+  let publisher: PullRequestPublisher;
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), "arkaledge-pr-project-"));
+    remoteDir = await mkdtemp(join(tmpdir(), "arkaledge-pr-remote-"));
+    await execFileAsync("git", ["init", "--bare", "--initial-branch=main", remoteDir]);
+    const eventBus = new EventBus();
+    kanban = new KanbanManager(projectDir, eventBus);
+    await kanban.init();
+    worktreeManager = new WorktreeManager(projectDir);
+    provider = new StubProvider();
+    const remote: RemoteConfig = {
+      name: "origin",
+      url: remoteDir,
+      base_branch: "main",
+      provider: "github",
+      repository: "acme/app",
+      token_env: "ARKALEDGE_GIT_TOKEN",
+      poll_interval_ms: 0,
+    };
+    publisher = new PullRequestPublisher(kanban, eventBus, worktreeManager, provider, remote);
+  });
+
+  afterEach(async () => {
+    await rm(projectDir, { recursive: true, force: true });
+    await rm(remoteDir, { recursive: true, force: true });
+  });
+
+  it("pushes the task branch to the remote and opens a pull request", async () => {
+    const task = await taskWithFile("feature.txt");
+    const pullRequest = await publisher.publish(task, "rev-1", "reviewer");
+
+    expect(pullRequest).toMatchObject({ provider: "github", number: 1, state: "open" });
+    expect(provider.opened).toMatchObject([{ head: task.branch, base: "main", title: task.title }]);
+    const { stdout } = await execFileAsync("git", ["--git-dir", remoteDir, "branch", "--list", task.branch!]);
+    expect(stdout.trim()).toBe(task.branch);
+    expect((await stored(task.id)).pullRequest?.url).toBe("https://example.test/pull/1");
+  });
+
+  it("mirrors review comments onto the pull request once", async () => {
+    const created = await taskWithFile("feature.txt");
+    await kanban.addReviewComment(created.id, { body: "Handle empty input", severity: "nit" }, "rev-1");
+    await publisher.publish(await stored(created.id), "rev-1", "reviewer", "Approved");
+    await publisher.publish(await stored(created.id), "rev-1", "reviewer");
+
+    expect(provider.opened).toHaveLength(1);
+    expect(provider.comments.map((comment) => comment.body)).toEqual([
+      "**rev-1**: [nit/other] Handle empty input",
+      "Approved",
+    ]);
+  });
+
+  it("moves the task to done and updates main when the pull request merges", async () => {
+    const task = await taskWithFile("feature.txt");
+    await publisher.publish(task, "rev-1", "reviewer");
+    // Merge on the "host": fast-forward the remote's main to the pushed branch
+    await execFileAsync("git", ["--git-dir", remoteDir, "update-ref", "refs/heads/main", `refs/heads/${task.branch!}`]);
+    provider.state = "merged";
+
+    await publisher.poll([await stored(task.id)]);
+
+    const latest = await stored(task.id);
+    expect(latest.status).toBe("done");
+    expect(latest.pullRequest?.state).toBe("merged");
+    expect(existsSync(join(projectDir, "feature.txt"))).toBe(true);
+  });
+
+  it("blocks the task when the pull request is closed without merging", async () => {
+    const task = await taskWithFile("feature.txt");
+    await publisher.publish(task, "rev-1", "reviewer");
+    provider.state = "closed";
+
+    await publisher.poll([await stored(task.id)]);
+
+    expect((await stored(task.id)).status).toBe("blocked");
+  });
+
+  /** A review-ready task whose branch adds `name`, with main already on the remote. */
+  async function taskWithFile(name: string): Promise<Task> {
+    const created = await kanban.addTask({
+      title: `Add ${name}`,
+      description: "",
+      acceptanceCriteria: ["It exists"],
+      status: "review",
+      priority: "medium",
+      createdBy: "test",
+    });
+    const branch = `task/${created.id}`;
+    const worktree = await worktreeManager.createWorktree(created.id, branch);
+    await execFileAsync("git", ["push", remoteDir, "main:main"], { cwd: projectDir });
+    await writeFile(join(worktree, name), `${name}\n`);
+    await execFileAsync("git", ["add", name], { cwd: worktree });
+    await execFileAsync("git", [...GIT_IDENTITY, "commit", "-m", `Add ${name}`], { cwd: worktree });
+    return kanban.updateTask(created.id, { branch, worktree });
+  }
+
+  async function stored(taskId: string): Promise<Task> {
+    const found = (await kanban.getAllTasks()).find((candidate) => candidate.id === taskId);
+    if (!found) throw new Error(`Task not found: ${taskId}`);
+    return found;
+  }
+});
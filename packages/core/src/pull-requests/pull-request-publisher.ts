@@ -0,0 +1,161 @@
+import type { EventBus } from "../event-bus.js";
+import type { KanbanManager } from "../kanban.js";
+import type { PluginHookRunner } from "../plugins/plugin-hooks.js";
+import { formatReviewComment } from "../review-comments.js";
+import type { RemoteConfig, ReviewComment, Task, TaskPullRequest } from "../types.js";
+import type { WorktreeManager } from "../worktree-manager.js";
+import type { PullRequestProvider } from "./pull-request-provider.js";
+
+/**
+ * The `auto_merge: pull_request` workflow. Approved task branches are pushed
+ * to the configured remote and opened as pull requests instead of being
+ * merged locally; review comments are mirrored onto the pull request. Tasks
+ * wait in review until `poll` sees their pull request merged (→ done, local
+ * main fast-forwarded from the remote) or closed (→ blocked).
+ */
+export class PullRequestPublisher {
+  private lastPollAt = 0;
+
+  constructor(
+    private kanban: KanbanManager,
+    private eventBus: EventBus,
+    private worktreeManager: WorktreeManager,
+    private provider: PullRequestProvider,
+    private remote: RemoteConfig,
+    private pluginHooks?: PluginHookRunner,
+  ) {}
+
+  /**
+   * Push the task's branch and open its pull request, or update the one
+   * already open. Review comments not yet on the pull request are posted,
+   * followed by `summary` (the approval note) when given.
+   */
+  async publish(task: Task, agentId: string, agentRole: string, summary?: string): Promise<TaskPullRequest> {
+    if (!task.branch) {
+      throw new Error(`Task has no branch to publish: ${task.id}`);
+    }
+
+    await this.worktreeManager.pushBranch(task.branch, this.remote.name, this.remote.url);
+
+    const existing = task.pullRequest?.state === "open" ? task.pullRequest : undefined;
+    const pullRequest: TaskPullRequest = existing
+      ? { ...existing, mirroredCommentIds: [...existing.mirroredCommentIds] }
+      : await this.open(task, task.branch);
+
+    for (const comment of task.reviewComments ?? []) {
+      if (pullRequest.mirroredCommentIds.includes(comment.id)) continue;
+      await this.provider.addComment(pullRequest.number, formatMirroredComment(comment));
+      pullRequest.mirroredCommentIds.push(comment.id);
+    }
+    if (summary) {
+      await this.provider.addComment(pullRequest.number, summary);
+    }
+
+    const detail = existing
+      ? `Pushed ${task.branch} to pull request #${pullRequest.number}`
+      : `Opened pull request #${pullRequest.number}: ${pullRequest.url}`;
+    await this.kanban.recordPullRequest(task.id, pullRequest, agentId, detail);
+
+    this.eventBus.emit({
+      type: "agent:message",
+      agentId,
+      agentRole,
+      timestamp: Date.now(),
+      summary: `${detail} (${task.title})`,
+      data: { taskId: task.id, branch: task.branch, pullRequest: pullRequest.number, url: pullRequest.url },
+    });
+
+    return pullRequest;
+  }
+
+  /**
+   * Check the open pull requests among `tasks`, at most once per
+   * `poll_interval_ms`. A provider error is reported and retried next poll.
+   */
+  async poll(tasks: Task[]): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastPollAt < this.remote.poll_interval_ms) return;
+    this.lastPollAt = now;
+
+    for (const task of tasks) {
+      if (task.status !== "review" || task.pullRequest?.state !== "open") continue;
+      try {
+        const state = await this.provider.getState(task.pullRequest.number);
+        if (state === "merged") {
+          await this.completeMerged(task, task.pullRequest);
+        } else if (state === "closed") {
+          await this.blockClosed(task, task.pullRequest);
+        }
+      } catch (error) {
+        this.eventBus.emit({
+          type: "agent:error",
+          agentId: "system",
+          agentRole: "system",
+          timestamp: Date.now(),
+          summary: `Failed to check pull request #${task.pullRequest.number}: ${task.title}`,
+          data: { taskId: task.id, error: error instanceof Error ? error.message : String(error) },
+        });
+      }
+    }
+  }
+
+  private async open(task: Task, branch: string): Promise<TaskPullRequest> {
+    const opened = await this.provider.openPullRequest({
+      head: branch,
+      base: this.remote.base_branch,
+      title: task.title,
+      body: buildPullRequestBody(task),
+    });
+    return { provider: this.provider.name, number: opened.number, url: opened.url, state: "open", mirroredCommentIds: [] };
+  }
+
+  private async completeMerged(task: Task, pullRequest: TaskPullRequest): Promise<void> {
+    try {
+      await this.worktreeManager.updateMainFromRemote(this.remote.name, this.remote.base_branch);
+    } catch (error) {
+      // The work has landed on the remote; a stale local main is reported, not fatal
+      this.eventBus.emit({
+        type: "agent:error",
+        agentId: "system",
+        agentRole: "system",
+        timestamp: Date.now(),
+        summary: `Pull request #${pullRequest.number} merged but local main could not be updated`,
+        data: { taskId: task.id, error: error instanceof Error ? error.message : String(error) },
+      });
+    }
+
+    if (task.branch) {
+      await this.pluginHooks?.invoke("onTaskMerged", task, task.branch);
+    }
+    await this.worktreeManager.removeWorktree(task.id);
+    await this.kanban.updateTask(task.id, { worktree: undefined, pullRequest: { ...pullRequest, state: "merged" } });
+    const doneTask = await this.kanban.moveTask(task.id, "done", "system", `Pull request #${pullRequest.number} merged`);
+    await this.pluginHooks?.invoke("onTaskComplete", doneTask);
+  }
+
+  private async blockClosed(task: Task, pullRequest: TaskPullRequest): Promise<void> {
+    const detail = `Pull request #${pullRequest.number} closed without merging`;
+    await this.kanban.updateTask(task.id, { pullRequest: { ...pullRequest, state: "closed" } });
+    await this.kanban.moveTask(task.id, "blocked", "system", detail);
+    this.eventBus.emit({
+      type: "agent:error",
+      agentId: "system",
+      agentRole: "system",
+      timestamp: Date.now(),
+      summary: `${detail}: ${task.title}`,
+      data: { taskId: task.id, url: pullRequest.url },
+    });
+  }
+}
+
+function buildPullRequestBody(task: Task): string {
+  const criteria = task.acceptanceCriteria.map((criterion) => `- ${criterion}`).join("\n");
+  return [task.description, criteria ? `## Acceptance Criteria\n${criteria}` : "", `Task: ${task.id}`]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+function formatMirroredComment(comment: ReviewComment): string {
+  const status = comment.resolved ? " (resolved)" : "";
+  return `**${comment.reviewerId}**${status}: ${formatReviewComment(comment)}`;
+}
@@ -0,0 +1,60 @@
+import type { NewReviewComment, ReviewComment, Task } from "./types.js";
+
+const DEFAULT_SEVERITY = "major";
+const DEFAULT_CATEGORY = "other";
+
+/** `path:12-14`, `path:12`, `path`, or "" when the comment is not anchored to a file. */
+export function formatCommentLocation(comment: NewReviewComment): string {
+  if (!comment.file) return "";
+  if (comment.startLine === undefined) return comment.file;
+  const end = comment.endLine !== undefined && comment.endLine !== comment.startLine ? `-${comment.endLine}` : "";
+  return `${comment.file}:${comment.startLine}${end}`;
+}
+
+/** One-line form used in task history, plugin hooks and agent prompts. */
+export function formatReviewComment(comment: NewReviewComment): string {
+  const location = formatCommentLocation(comment);
+  const tag = `[${comment.severity ?? DEFAULT_SEVERITY}/${comment.category ?? DEFAULT_CATEGORY}]`;
+  return `${tag} ${location ? `${location} — ` : ""}${comment.body}`;
+}
+
+export function unresolvedReviewComments(task: Task): ReviewComment[] {
+  return (task.reviewComments ?? []).filter((comment) => !comment.resolved);
+}
+
+/** Fill in defaults for a new comment. */
+export function createReviewComment(
+  input: NewReviewComment,
+  id: string,
+  reviewerId: string,
+  createdAt: number,
+): ReviewComment {
+  return {
+    id,
+    reviewerId,
+    body: input.body,
+    ...(input.file ? { file: input.file } : {}),
+    ...(input.file && input.startLine !== undefined
+      ? { startLine: input.startLine, endLine: input.endLine ?? input.startLine }
+      : {}),
+    severity: input.severity ?? DEFAULT_SEVERITY,
+    category: input.category ?? DEFAULT_CATEGORY,
+    resolved: false,
+    createdAt,
+  };
+}
+
+/**
+ * Boards written before comments were structured store plain strings. They
+ * become unanchored comments with stable IDs so they can still be resolved.
+ */
+export function upgradeReviewComments(task: Task, fallbackTime: number): void {
+  const stored = task.reviewComments as Array<ReviewComment | string> | undefined;
+  if (!stored?.some((comment) => typeof comment === "string")) return;
+
+  task.reviewComments = stored.map((comment, index) => (
+    typeof comment === "string"
+      ? createReviewComment({ body: comment }, `${task.id}-${index + 1}`, "reviewer", fallbackTime)
+      : comment
+  ));
+}
@@ -0,0 +1,90 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { AgentRuntime } from "../agents/agent-runtime.js";
+import { BudgetGuard } from "../budget.js";
+import { EventBus } from "../event-bus.js";
+import { KanbanManager } from "../kanban.js";
+import type { AgentMessage, BudgetConfig, Task, UsageReport, UsageTotals } from "../types.js";
+import { EngineerRole } from "./engineer.js";
+
+const SPENT: UsageTotals = { inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, costUsd: 5 };
+
+describe("EngineerRole budget stops", () => {
+  let projectDir: string;
+  let eventBus: EventBus;
+  let kanban: KanbanManager;
+  let task: Task;
+  let report: UsageReport;
+  let prompts: string[];
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), "arkaledge-engineer-"));
+    eventBus = new EventBus();
+    kanban = new KanbanManager(projectDir, eventBus);
+    await kanban.init();
+
+    const created = await kanban.addTask({
+      title: "Feature",
+      description: "",
+      acceptanceCriteria: [],
+      status: "in_progress",
+      priority: "medium",
+      createdBy: "test",
+      assignee: "eng-1",
+    });
+    task = await kanban.updateTask(created.id, { branch: "task/feature", worktree: join(projectDir, "worktree") });
+    report = { total: SPENT, byAgent: {}, byTask: {}, byModel: {}, unpricedModels: [] };
+    prompts = [];
+  });
+
+  afterEach(async () => {
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it("returns the task to the backlog unassigned when only the agent cap is spent", async () => {
+    report.byAgent["eng-1"] = SPENT;
+    const success = await engineer({ per_agent: { max_usd: 5 } }).executeTask(task, projectDir, 2);
+
+    const latest = await stored();
+    expect([success, prompts.length, latest.status, latest.assignee]).toEqual([false, 0, "backlog", undefined]);
+  });
+
+  it("blocks the task when its own cap is spent", async () => {
+    report.byAgent["eng-1"] = SPENT;
+    report.byTask[task.id] = SPENT;
+    await engineer({ per_task: { max_usd: 5 }, per_agent: { max_usd: 5 } }).executeTask(task, projectDir, 2);
+
+    const latest = await stored();
+    expect([latest.status, latest.assignee, latest.history.at(-1)?.detail]).toEqual([
+      "blocked",
+      "eng-1",
+      "Budget exceeded — task budget reached: $5.00 of $5.00",
+    ]);
+  });
+
+  function engineer(budget: BudgetConfig): EngineerRole {
+    const runtime: AgentRuntime = {
+      id: "eng-1",
+      sdk: "mock",
+      model: "mock-engineer",
+      async *run(prompt: string): AsyncIterable<AgentMessage> {
+        prompts.push(prompt);
+        yield { type: "text", content: "done", timestamp: Date.now() };
+      },
+      resume: () => {
+        throw new Error("not supported");
+      },
+      registerTools: () => undefined,
+      abort: async () => undefined,
+    };
+    return new EngineerRole(runtime, kanban, eventBus, undefined, new BudgetGuard({ getUsageReport: () => report }, budget));
+  }
+
+  async function stored(): Promise<Task> {
+    const found = (await kanban.getAllTasks()).find((candidate) => candidate.id === task.id);
+    if (!found) throw new Error(`Task not found: ${task.id}`);
+    return found;
+  }
+});
@@ -3,17 +3,22 @@ import { stat } from "node:fs/promises";
 import { basename, extname, isAbsolute, relative, resolve, sep } from "node:path";
 import { promisify } from "node:util";
 import type { AgentRuntime } from "../agents/agent-runtime.js";
+import type { BudgetGuard } from "../budget.js";
 import type { EventBus } from "../event-bus.js";
 import type { KanbanManager } from "../kanban.js";
+import { formatConflictHunk } from "../merge-conflicts.js";
+import { formatReviewComment, unresolvedReviewComments } from "../review-comments.js";
 import { consumeStreamWithWatchdog, RuntimeWatchdogError } from "../runtime-watchdog.js";
 import type {
   AgentCompletedEventData,
   AgentMessage,
+  MergeConflictReport,
   SharedProjectContext,
   Task,
   TaskArtifact,
   TaskExecutionReport,
 } from "../types.js";
+import { usageEventData } from "../usage.js";
 
 const execFileAsync = promisify(execFile);
 const ENGINEER_IDLE_TIMEOUT_MS = 120_000;
@@ -76,6 +81,7 @@ export class EngineerRole {
     private kanban: KanbanManager,
     private eventBus: EventBus,
     private sharedContext?: SharedProjectContext,
+    private budget?: BudgetGuard,
   ) {}
 
   async executeTask(task: Task, _projectDir: string, maxRetries: number): Promise<boolean> {
@@ -109,11 +115,18 @@ export class EngineerRole {
       data: { taskId: task.id, worktree: workingDirectory, branch: taskBranch },
     });
 
+    // A resumed task may already have spent its budget in an earlier run
+    let budgetReason = this.budget?.checkTask(task.id, this.runtime.id);
+    if (budgetReason) {
+      await this.stopOnBudget(task, budgetReason, null);
+      return false;
+    }
+
     const userPrompt = buildTaskPrompt(task, this.sharedContext);
     let sessionId: string | undefined;
 
     // Initial run
-    const result = await this.runAndCollect(userPrompt, workingDirectory);
+    const result = await this.runAndCollect(userPrompt, workingDirectory, task.id);
     let lastOutput = result.output;
     let lastDiagnostics = result.diagnostics;
     let lastReport = extractTaskExecutionReport(lastOutput);
@@ -123,6 +136,9 @@ export class EngineerRole {
     // Self-correction loop
     let retries = 0;
     while (!success && retries < maxRetries) {
+      budgetReason = this.budget?.checkTask(task.id, this.runtime.id);
+      if (budgetReason) break;
+
       retries++;
       await this.kanban.updateTask(task.id, { retryCount: retries });
 
@@ -138,8 +154,8 @@ export class EngineerRole {
       const retryPrompt = `The tests failed. Here is the error output:\n\n${(lastDiagnostics || lastOutput).slice(-2000)}\n\nFix the code and run the tests again.`;
 
       const retryResult = sessionId
-        ? await this.resumeAndCollect(sessionId, retryPrompt, workingDirectory)
-        : await this.runAndCollect(retryPrompt, workingDirectory);
+        ? await this.resumeAndCollect(sessionId, retryPrompt, workingDirectory, task.id)
+        : await this.runAndCollect(retryPrompt, workingDirectory, task.id);
 
       lastOutput = retryResult.output;
       lastDiagnostics = retryResult.diagnostics;
@@ -205,6 +221,8 @@ export class EngineerRole {
         summary: `Engineer completed: ${task.title}`,
         data: completedData,
       });
+    } else if (budgetReason) {
+      await this.stopOnBudget(task, budgetReason, lastReport);
     } else {
       await this.kanban.moveTask(task.id, "blocked", this.runtime.id, `Failed after ${maxRetries} retries`);
 
@@ -225,9 +243,43 @@ export class EngineerRole {
     return success;
   }
 
+  /**
+   * Block the task when its own or the run's cap is spent. When only this
+   * agent's cap is, hand the task back to the backlog unassigned so an
+   * engineer still within budget can pick it up.
+   */
+  private async stopOnBudget(task: Task, reason: string, report: TaskExecutionReport | null): Promise<void> {
+    if (!this.budget?.checkTaskOrRun(task.id)) {
+      await this.kanban.moveTask(task.id, "backlog", this.runtime.id, `Returned to backlog — ${reason}`);
+      await this.kanban.unassignTask(task.id, this.runtime.id);
+
+      this.eventBus.emit({
+        type: "agent:message",
+        agentId: this.runtime.id,
+        agentRole: "engineer",
+        timestamp: Date.now(),
+        summary: `Engineer released: ${task.title} (${reason})`,
+        data: { taskId: task.id, reason, budgetExceeded: true, executionReport: report },
+      });
+      return;
+    }
+
+    await this.kanban.moveTask(task.id, "blocked", this.runtime.id, `Budget exceeded — ${reason}`);
+
+    this.eventBus.emit({
+      type: "agent:error",
+      agentId: this.runtime.id,
+      agentRole: "engineer",
+      timestamp: Date.now(),
+      summary: `Engineer blocked on: ${task.title} (${reason})`,
+      data: { taskId: task.id, reason, budgetExceeded: true, executionReport: report },
+    });
+  }
+
   private async runAndCollect(
     prompt: string,
     workingDirectory: string,
+    taskId: string,
   ): Promise<{ output: string; diagnostics: string; sessionId?: string }> {
     let output = "";
     let diagnostics = "";
@@ -253,7 +305,7 @@ export class EngineerRole {
               agentRole: "engineer",
               timestamp: Date.now(),
               summary: message.content.slice(0, 200),
-              data: { messageType: message.type },
+              data: { messageType: message.type, ...usageEventData(message, taskId) },
             });
           },
         },
@@ -283,6 +335,7 @@ export class EngineerRole {
     sessionId: string,
     prompt: string,
     workingDirectory: string,
+    taskId: string,
   ): Promise<{ output: string; diagnostics: string; sessionId?: string }> {
     let output = "";
     let diagnostics = "";
@@ -306,7 +359,7 @@ export class EngineerRole {
               agentRole: "engineer",
               timestamp: Date.now(),
               summary: message.content.slice(0, 200),
-              data: { messageType: message.type },
+              data: { messageType: message.type, ...usageEventData(message, taskId) },
             });
           },
         },
@@ -501,7 +554,14 @@ function buildTaskPrompt(task: Task, sharedContext?: SharedProjectContext): stri
   const contextBlock = sharedContext
     ? `\n**Shared Project Context (use this first):**\n${sharedContext.prompt}\n`
     : "\n**Shared Project Context:** unavailable in this run.\n";
-  return `Implement this task:
+  const checklist = unresolvedReviewComments(task)
+    .map((comment) => `- [ ] ${formatReviewComment(comment)}`)
+    .join("\n");
+  const reviewBlock = checklist
+    ? `\n**Review Checklist (the reviewer will verify every item; fix blockers first):**\n${checklist}\n`
+    : "";
+  const conflictBlock = task.mergeConflict ? buildConflictBlock(task.mergeConflict) : "";
+  return `${task.mergeConflict ? "Resolve the merge conflicts between main and this task's branch, then finish the task:" : "Implement this task:"}
 
 **Title:** ${task.title}
 
@@ -509,7 +569,7 @@ function buildTaskPrompt(task: Task, sharedContext?: SharedProjectContext): stri
 
 **Acceptance Criteria:**
 ${criteria}
-${contextBlock}
+${contextBlock}${conflictBlock}${reviewBlock}
 
 You are operating in task worktree: ${task.worktree ?? "UNKNOWN"} on branch: ${task.branch ?? "UNKNOWN"}.
 Write the implementation code and tests. Run the tests to verify everything works.
@@ -521,6 +581,15 @@ FINAL_TASK_RESULT_JSON
 `;
 }
 
+function buildConflictBlock(report: MergeConflictReport): string {
+  const hunks = report.hunks.map(formatConflictHunk).join("\n\n");
+  return `
+**Merge Conflicts With Main (attempt ${report.attempts}):** main has moved on since this branch was created and conflicts with it in: ${report.files.join(", ")}.
+${hunks ? `\n**Conflict Hunks:**\n${hunks}\n` : ""}
+Run \`git merge main\` in the worktree and resolve every conflict, keeping the intent of both sides. Then re-run the tests and commit the merge; the task goes back to review afterwards.
+`;
+}
+
 function hasTestFailures(output: string): boolean {
   return FAILURE_PATTERNS.some((pattern) => pattern.test(output));
 }
@@ -2,7 +2,13 @@ import { z } from "zod";
 import type { AgentRuntime } from "../agents/agent-runtime.js";
 import type { EventBus } from "../event-bus.js";
 import type { KanbanManager } from "../kanban.js";
-import type { SharedProjectContext, Task } from "../types.js";
+import { consumeStreamWithWatchdog } from "../runtime-watchdog.js";
+import type { AgentMessage, SharedProjectContext, Task } from "../types.js";
+import { usageEventData } from "../usage.js";
+
+// Re-planning runs inside the Scrum Master loop, which waits for it
+const REPLAN_IDLE_TIMEOUT_MS = 60_000;
+const REPLAN_TOTAL_TIMEOUT_MS = 5 * 60_000;
 
 const taskItemSchema = z.object({
   title: z.string(),
@@ -15,6 +21,8 @@ const taskItemSchema = z.object({
 
 const taskArraySchema = z.array(taskItemSchema);
 
+type TaskItem = z.infer<typeof taskItemSchema>;
+
 const PM_SYSTEM_PROMPT = `You are a Product Manager. Your job is to break a product specification into granular, independently implementable engineering tasks.
 
 Output ONLY a JSON array — no prose, no markdown fences, no explanation.
@@ -30,6 +38,34 @@ Each task object must have:
 Order tasks by dependency — foundational tasks first, dependent tasks later.
 Keep tasks small and focused. Each task should be completable by a single engineer in one session.`;
 
+const PM_GAP_ANALYSIS_SYSTEM_PROMPT = `You are a Product Manager performing a gap analysis. Compare the delivered project against its product specification and list only the work that is still missing.
+
+Output ONLY a JSON array — no prose, no markdown fences, no explanation. Output [] when nothing is missing.
+
+Each task object must have:
+- title (string): Short, imperative task name
+- description (string): What is missing and how it should behave, referencing existing files where relevant
+- acceptanceCriteria (string[]): Measurable criteria for completion
+- priority ("high" | "medium" | "low"): Task priority
+- epic (string): Feature group this task belongs to
+- dependsOn (number[]): 0-based indices of earlier tasks in this array that must be completed first. Omit or use [] if none.
+
+Only report real gaps against the specification — not refactors, style preferences or speculative features.`;
+
+const PM_REPLAN_SYSTEM_PROMPT = `You are a Product Manager re-planning around a task that cannot be completed. Other tasks depend on it. Plan replacement tasks that give those dependents what they need by another route.
+
+Output ONLY a JSON array — no prose, no markdown fences, no explanation. Output [] when there is no workable alternative.
+
+Each task object must have:
+- title (string): Short, imperative task name
+- description (string): What to build instead, and how it avoids the reason the original task failed
+- acceptanceCriteria (string[]): Measurable criteria for completion
+- priority ("high" | "medium" | "low"): Task priority
+- epic (string): Feature group this task belongs to
+- dependsOn (number[]): 0-based indices of earlier tasks in this array that must be completed first. Omit or use [] if none.
+
+Do not repeat the approach that failed. The dependent tasks will wait for every task you output.`;
+
 /**
  * Takes a raw product spec, uses an AgentRuntime to produce structured tasks,
  * and writes them to the Kanban board.
@@ -56,31 +92,168 @@ export class ProductManagerRole {
       : "Shared project context is unavailable for this run.";
     const prompt = `Use the shared context below when planning tasks. Avoid redundant repository discovery unless needed.\n\n${contextBlock}\n\nBreak this product specification into engineering tasks:\n\n${spec}`;
 
-    // Collect all text output from the agent
+    const fullOutput = await this.collectOutput(prompt, PM_SYSTEM_PROMPT, projectDir);
+    const createdTasks = await this.createTasks(parseTaskItems(fullOutput));
+
+    this.eventBus.emit({
+      type: "agent:completed",
+      agentId: this.runtime.id,
+      agentRole: "product-manager",
+      timestamp: Date.now(),
+      summary: `PM created ${createdTasks.length} tasks`,
+      data: { taskCount: createdTasks.length },
+    });
+
+    return createdTasks;
+  }
+
+  /**
+   * Re-read the merged `main` checkout against the original spec and append
+   * follow-up backlog tasks for anything still missing. Returns the new tasks
+   * (empty when the PM considers the spec fully delivered).
+   */
+  async analyzeGaps(spec: string, projectDir: string, round: number): Promise<Task[]> {
+    this.eventBus.emit({
+      type: "agent:started",
+      agentId: this.runtime.id,
+      agentRole: "product-manager",
+      timestamp: Date.now(),
+      summary: `PM starting gap analysis (round ${round})`,
+      data: { round },
+    });
+
+    const existingTasks = await this.kanban.getAllTasks();
+    const taskList = existingTasks
+      .map((t) => `- [${t.status}] ${t.title}${t.epic ? ` (epic: ${t.epic})` : ""}`)
+      .join("\n");
+    const contextBlock = this.sharedContext
+      ? `Shared context fingerprint: ${this.sharedContext.context.fingerprint}\n${this.sharedContext.prompt}\n`
+      : "Shared project context is unavailable for this run.";
+    const prompt = `The working directory is the merged \`main\` branch of the project built from the specification below.
+
+${contextBlock}
+
+**Original specification:**
+
+${spec}
+
+**Tasks already on the board:**
+${taskList || "(none)"}
+
+Inspect the delivered code and compare it against the specification. Identify requirements that are missing, incomplete or broken.
+Do NOT re-create tasks that are already on the board, including blocked ones.
+Output ONLY a JSON array of follow-up tasks. Output [] if the specification is fully delivered.`;
+
+    const fullOutput = await this.collectOutput(prompt, PM_GAP_ANALYSIS_SYSTEM_PROMPT, projectDir);
+    const createdTasks = await this.createTasks(parseTaskItems(fullOutput));
+
+    this.eventBus.emit({
+      type: "agent:completed",
+      agentId: this.runtime.id,
+      agentRole: "product-manager",
+      timestamp: Date.now(),
+      summary: createdTasks.length > 0
+        ? `PM gap analysis found ${createdTasks.length} follow-up tasks (round ${round})`
+        : `PM gap analysis found no gaps (round ${round})`,
+      data: { taskCount: createdTasks.length, round },
+    });
+
+    return createdTasks;
+  }
+
+  /**
+   * Plan backlog tasks that replace `blocked` for the tasks that depend on it.
+   * Returns the new tasks (empty when the PM sees no way around the failure).
+   */
+  async replanAroundBlock(blocked: Task, reason: string, dependents: Task[], projectDir: string): Promise<Task[]> {
+    this.eventBus.emit({
+      type: "agent:started",
+      agentId: this.runtime.id,
+      agentRole: "product-manager",
+      timestamp: Date.now(),
+      summary: `PM re-planning around blocked task "${blocked.title}"`,
+      data: { taskId: blocked.id },
+    });
+
+    const criteria = blocked.acceptanceCriteria.map((criterion) => `- ${criterion}`).join("\n");
+    const dependentList = dependents.map((t) => `- ${t.title}: ${t.description}`).join("\n");
+    const prompt = `The working directory is the merged \`main\` branch of the project.
+
+**Blocked task:** ${blocked.title}
+
+${blocked.description}
+
+${criteria ? `Acceptance criteria:\n${criteria}\n\n` : ""}**Why it is blocked:** ${reason}
+
+**Tasks waiting on it:**
+${dependentList}
+
+Plan the smallest set of tasks that lets the waiting tasks proceed without the blocked one.
+Output ONLY a JSON array of replacement tasks. Output [] if there is no workable alternative.`;
+
+    const fullOutput = await this.collectOutput(prompt, PM_REPLAN_SYSTEM_PROMPT, projectDir, {
+      idleTimeoutMs: REPLAN_IDLE_TIMEOUT_MS,
+      totalTimeoutMs: REPLAN_TOTAL_TIMEOUT_MS,
+    });
+    const createdTasks = await this.createTasks(parseTaskItems(fullOutput));
+
+    this.eventBus.emit({
+      type: "agent:completed",
+      agentId: this.runtime.id,
+      agentRole: "product-manager",
+      timestamp: Date.now(),
+      summary: createdTasks.length > 0
+        ? `PM planned ${createdTasks.length} replacement tasks for "${blocked.title}"`
+        : `PM found no way around "${blocked.title}"`,
+      data: { taskId: blocked.id, taskCount: createdTasks.length },
+    });
+
+    return createdTasks;
+  }
+
+  /**
+   * Run the PM agent and collect its text output, forwarding every message for
+   * observability. With `timeouts`, a stalled or overlong session is aborted
+   * and the watchdog error thrown.
+   */
+  private async collectOutput(
+    prompt: string,
+    systemPrompt: string,
+    projectDir: string,
+    timeouts?: { idleTimeoutMs: number; totalTimeoutMs: number },
+  ): Promise<string> {
     let fullOutput = "";
-    for await (const message of this.runtime.run(prompt, {
-      systemPrompt: PM_SYSTEM_PROMPT,
-      workingDirectory: projectDir,
-    })) {
+    const onMessage = (message: AgentMessage): void => {
       if (message.type === "text") {
         fullOutput += message.content;
       }
-      // Forward all messages for observability
       this.eventBus.emit({
         type: "agent:message",
         agentId: this.runtime.id,
         agentRole: "product-manager",
         timestamp: Date.now(),
         summary: message.content.slice(0, 200),
-        data: { messageType: message.type },
+        data: { messageType: message.type, ...usageEventData(message) },
       });
+    };
+
+    const stream = this.runtime.run(prompt, { systemPrompt, workingDirectory: projectDir });
+    if (!timeouts) {
+      for await (const message of stream) onMessage(message);
+      return fullOutput;
     }
 
-    // Extract JSON from the output (handle markdown code fences)
-    const jsonStr = extractJson(fullOutput);
-    const parsed = JSON.parse(jsonStr) as unknown;
-    const taskItems = taskArraySchema.parse(parsed);
+    try {
+      await consumeStreamWithWatchdog(stream, { ...timeouts, onMessage });
+    } catch (error) {
+      await this.runtime.abort();
+      throw error;
+    }
+    return fullOutput;
+  }
 
+  /** Write task items to the Kanban board, resolving index-based dependencies to task IDs. */
+  private async createTasks(taskItems: TaskItem[]): Promise<Task[]> {
     // Pass 1: Create all tasks, collect IDs
     const createdTasks: Task[] = [];
     for (const item of taskItems) {
@@ -113,19 +286,15 @@ export class ProductManagerRole {
       }
     }
 
-    this.eventBus.emit({
-      type: "agent:completed",
-      agentId: this.runtime.id,
-      agentRole: "product-manager",
-      timestamp: Date.now(),
-      summary: `PM created ${createdTasks.length} tasks`,
-      data: { taskCount: createdTasks.length },
-    });
-
     return createdTasks;
   }
 }
 
+function parseTaskItems(output: string): TaskItem[] {
+  const parsed = JSON.parse(extractJson(output)) as unknown;
+  return taskArraySchema.parse(parsed);
+}
+
 /** Extract JSON array from a string, stripping markdown code fences if present. */
 function extractJson(text: string): string {
   // Try to find JSON inside code fences
@@ -0,0 +1,271 @@
+import { execFile } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { AgentRuntime } from "../agents/agent-runtime.js";
+import { BranchSync } from "../branch-sync.js";
+import { EventBus } from "../event-bus.js";
+import { KanbanManager } from "../kanban.js";
+import type { AgentMessage, ReviewPolicy, ReviewVote, SdkType, Task } from "../types.js";
+import { WorktreeManager } from "../worktree-manager.js";
+import { decideReview, ReviewPanel } from "./review-panel.js";
+import { ReviewerRole } from "./reviewer.js";
+
+const execFileAsync = promisify(execFile);
+const GIT_IDENTITY = ["-c", "user.name=Test", "-c", "user.email=test@local"];
+const APPROVE = '{"verdict": "approved", "comments": []}';
+const REJECT = '{"verdict": "rejected", "comments": ["Missing tests"]}';
+const ANCHORED_REJECT = JSON.stringify({
+  verdict: "rejected",
+  comments: [{ body: "Handle empty input", file: "feature.txt", startLine: 1, severity: "blocker", category: "correctness" }],
+});
+const SECURITY_REJECT = '{"verdict": "rejected", "comments": ["SQL injection"], "security": true}';
+
+describe("decideReview", () => {
+  it.each([
+    ["majority", ["approved", "approved", "rejected"], "approved"],
+    ["majority", ["approved", "rejected"], "rejected"],
+    ["unanimous", ["approved", "approved", "rejected"], "rejected"],
+    ["unanimous", ["approved", "approved"], "approved"],
+    ["security_veto", ["approved", "approved", "rejected"], "approved"],
+    ["security_veto", ["approved", "approved", "security"], "rejected"],
+    ["majority", ["approved", "approved", "security"], "approved"],
+  ] as const)("%s with votes %j is %s", (policy, verdicts, expected) => {
+    expect(decideReview(verdicts.map((verdict, i) => vote(`rev-${i}`, verdict)), policy).verdict).toBe(expected);
+  });
+
+  it("attributes rejection comments to their reviewer", () => {
+    const decision = decideReview([vote("rev-1", "approved"), vote("rev-2", "rejected")], "majority");
+    expect(decision.comments).toEqual([{ body: "rev-2 says rejected", reviewerId: "rev-2" }]);
+  });
+
+  it("resolves only the comments every reviewer verified", () => {
+    const decision = decideReview([
+      { ...vote("rev-1", "approved"), resolved: ["c-1", "c-2"] },
+      { ...vote("rev-2", "approved"), resolved: ["c-2"] },
+    ], "majority");
+    expect(decision.resolved).toEqual(["c-2"]);
+  });
+});
+
+describe("ReviewPanel", () => {
+  let projectDir: string;
+  let eventBus: EventBus;
+  let kanban: KanbanManager;
+  let worktreeManager: WorktreeManager;
+  let task: Task;
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), "arkaledge-review-"));
+    eventBus = new EventBus();
+    kanban = new KanbanManager(projectDir, eventBus);
+    await kanban.init();
+    worktreeManager = new WorktreeManager(projectDir);
+
+    const created = await kanban.addTask({
+      title: "Feature",
+      description: "",
+      acceptanceCriteria: [],
+      status: "review",
+      priority: "high",
+      createdBy: "test",
+      assignee: "eng-1",
+    });
+    const worktree = await worktreeManager.createWorktree(created.id, "task/feature");
+    await writeFile(join(worktree, "feature.txt"), "hello\n");
+    await git(worktree, ["add", "feature.txt"]);
+    await git(worktree, [...GIT_IDENTITY, "commit", "-m", "Add feature"]);
+    task = await kanban.updateTask(created.id, { branch: "task/feature", worktree });
+  });
+
+  afterEach(async () => {
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it("moves the task to done when the majority approves", async () => {
+    await panel("majority", [["rev-1", APPROVE], ["rev-2", APPROVE], ["rev-3", REJECT]]).reviewTask(task, projectDir);
+    expect((await stored()).status).toBe("done");
+  });
+
+  it("records every reviewer's vote on the task", async () => {
+    await panel("majority", [["rev-1", APPROVE], ["rev-2", REJECT]]).reviewTask(task, projectDir);
+    const { reviewVotes } = await stored();
+    expect(reviewVotes?.map(({ reviewerId, sdk, verdict }) => [reviewerId, sdk, verdict])).toEqual([
+      ["rev-1", "claude", "approved"],
+      ["rev-2", "codex", "rejected"],
+    ]);
+  });
+
+  it("logs each vote in the task history", async () => {
+    await panel("majority", [["rev-1", APPROVE], ["rev-2", REJECT]]).reviewTask(task, projectDir);
+    const votes = (await stored()).history.filter((event) => event.action === "review_vote");
+    expect(votes.map((event) => event.detail)).toEqual([
+      "approved (claude/model-a)",
+      "rejected (codex/model-a): [major/other] Missing tests",
+    ]);
+  });
+
+  it("sends the task back with the rejecting reviewer's comments when the vote fails", async () => {
+    await panel("unanimous", [["rev-1", APPROVE], ["rev-2", REJECT]]).reviewTask(task, projectDir);
+    const { status, reviewComments } = await stored();
+    expect(status).toBe("in_progress");
+    expect(reviewComments).toMatchObject([{ reviewerId: "rev-2", body: "Missing tests", resolved: false }]);
+  });
+
+  it("stores a comment anchored to its file and lines", async () => {
+    await panel("majority", [["rev-1", ANCHORED_REJECT]]).reviewTask(task, projectDir);
+    expect((await stored()).reviewComments).toMatchObject([{
+      file: "feature.txt",
+      startLine: 1,
+      endLine: 1,
+      severity: "blocker",
+      category: "correctness",
+    }]);
+  });
+
+  it("marks open comments resolved once the next review verifies them", async () => {
+    const commented = await kanban.addReviewComment(task.id, { body: "Handle empty input" }, "rev-1");
+    const commentId = commented.reviewComments?.[0].id;
+    const verified = JSON.stringify({ verdict: "approved", comments: [], resolved: [commentId] });
+    await panel("majority", [["rev-1", verified]]).reviewTask(commented, projectDir);
+    expect((await stored()).reviewComments?.map((comment) => comment.resolved)).toEqual([true]);
+  });
+
+  it("lets a security rejection veto an approving majority", async () => {
+    const verdict = await panel("security_veto", [["rev-1", APPROVE], ["rev-2", APPROVE], ["rev-3", SECURITY_REJECT]])
+      .reviewTask(task, projectDir);
+    expect(verdict).toBe("rejected");
+  });
+
+  it("blocks the task when a missing vote could change the outcome", async () => {
+    const errors: string[] = [];
+    eventBus.on("agent:error", (event) => errors.push(event.summary));
+    await panel("majority", [["rev-1", APPROVE], ["rev-2", new Error("process exited with code 1")]]).reviewTask(task, projectDir);
+    const latest = await stored();
+    expect([latest.status, latest.history.at(-1)?.detail]).toEqual([
+      "blocked",
+      "Review watchdog timeout/failure: process exited with code 1",
+    ]);
+    expect(errors).toContain("Review failed: Feature (1 of 2 reviewers produced no vote)");
+  });
+
+  it("decides on the votes it has when a missing vote cannot change the outcome", async () => {
+    const crash = new Error("process exited with code 1");
+    await panel("majority", [["rev-1", APPROVE], ["rev-2", crash], ["rev-3", APPROVE]]).reviewTask(task, projectDir);
+    const latest = await stored();
+    expect([latest.status, latest.reviewVotes?.map((vote) => vote.reviewerId)]).toEqual(["done", ["rev-1", "rev-3"]]);
+  });
+
+  it("never approves over a missing vote that could have been a security veto", async () => {
+    const crash = new Error("process exited with code 1");
+    await panel("security_veto", [["rev-1", APPROVE], ["rev-2", APPROVE], ["rev-3", crash]]).reviewTask(task, projectDir);
+    expect((await stored()).status).toBe("blocked");
+  });
+
+  it("sends the task back to its engineer when main conflicts with the branch", async () => {
+    await landOnMain("feature.txt", "from main\n");
+    const verdict = await panel("majority", [["rev-1", APPROVE]], true).reviewTask(task, projectDir);
+    const latest = await stored();
+    expect([verdict, latest.status, latest.assignee, latest.mergeConflict?.files]).toEqual([
+      "rejected",
+      "in_progress",
+      "eng-1",
+      ["feature.txt"],
+    ]);
+    expect(latest.mergeConflict?.hunks).toEqual([
+      { file: "feature.txt", startLine: 1, branch: "hello", main: "from main" },
+    ]);
+  });
+
+  it("blocks the task once the same conflict keeps coming back", async () => {
+    await landOnMain("feature.txt", "from main\n");
+    const report = { stage: "review" as const, files: ["feature.txt"], hunks: [], attempts: 3, detectedAt: 0 };
+    const conflicted = await kanban.updateTask(task.id, { mergeConflict: report });
+    await panel("majority", [["rev-1", APPROVE]], true).reviewTask(conflicted, projectDir);
+    const latest = await stored();
+    expect([latest.status, latest.history.at(-1)?.detail]).toEqual([
+      "blocked",
+      "Unresolved merge conflict with main after 3 attempts: feature.txt",
+    ]);
+  });
+
+  it("reviews the branch after merging main into it", async () => {
+    await landOnMain("other.txt", "from main\n");
+    await panel("majority", [["rev-1", APPROVE]], true).reviewTask(task, projectDir);
+    const latest = await stored();
+    expect([latest.status, latest.history.some((event) => event.action === "branch_synced")]).toEqual(["done", true]);
+    expect(await readFile(join(projectDir, "other.txt"), "utf-8")).toBe("from main\n");
+  });
+
+  function panel(
+    policy: ReviewPolicy,
+    reviewers: Array<[id: string, output: string | Error]>,
+    syncWithMain = false,
+  ): ReviewPanel {
+    const branchSync = syncWithMain ? new BranchSync(kanban, eventBus, worktreeManager) : undefined;
+    const sdks: SdkType[] = ["claude", "codex", "mock"];
+    const roles = reviewers.map(([id, output], i) => new ReviewerRole(
+      scriptedRuntime(id, sdks[i % sdks.length], output),
+      kanban,
+      eventBus,
+      worktreeManager,
+      syncWithMain,
+      undefined,
+      undefined,
+      undefined,
+      branchSync,
+    ));
+    return new ReviewPanel(roles, policy, kanban, eventBus, worktreeManager, branchSync);
+  }
+
+  /** Commit `name` on another task branch and merge it, so main moves ahead of the task. */
+  async function landOnMain(name: string, content: string): Promise<void> {
+    const other = await worktreeManager.createWorktree("other", "task/other");
+    await writeFile(join(other, name), content);
+    await git(other, ["add", name]);
+    await git(other, [...GIT_IDENTITY, "commit", "-m", `Add ${name}`]);
+    await worktreeManager.mergeToMain("task/other");
+  }
+
+  async function stored(): Promise<Task> {
+    const found = (await kanban.getAllTasks()).find((candidate) => candidate.id === task.id);
+    if (!found) throw new Error(`Task not found: ${task.id}`);
+    return found;
+  }
+});
+
+function vote(reviewerId: string, verdict: "approved" | "rejected" | "security"): ReviewVote {
+  return {
+    reviewerId,
+    sdk: "mock",
+    model: "model-a",
+    verdict: verdict === "security" ? "rejected" : verdict,
+    comments: verdict === "approved" ? [] : [{ body: `${reviewerId} says rejected` }],
+    ...(verdict === "security" ? { security: true } : {}),
+    timestamp: Date.now(),
+  };
+}
+
+function scriptedRuntime(id: string, sdk: SdkType, output: string | Error): AgentRuntime {
+  return {
+    id,
+    sdk,
+    model: "model-a",
+    async *run(): AsyncIterable<AgentMessage> {
+      if (output instanceof Error) throw output;
+      yield { type: "text", content: output, timestamp: Date.now() };
+    },
+    resume: () => {
+      throw new Error("not supported");
+    },
+    registerTools: () => undefined,
+    abort: async () => undefined,
+  };
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, { cwd });
+  return stdout.trim();
+}
@@ -0,0 +1,225 @@
+import type { BranchSync } from "../branch-sync.js";
+import type { EventBus } from "../event-bus.js";
+import type { KanbanManager } from "../kanban.js";
+import type { NewReviewComment, ReviewCoverage, ReviewPolicy, ReviewVerdict, ReviewVote, Task } from "../types.js";
+import type { WorktreeManager } from "../worktree-manager.js";
+import type { ReviewerRole } from "./reviewer.js";
+
+export type AttributedReviewComment = NewReviewComment & { reviewerId: string };
+
+export interface ReviewDecision {
+  verdict: ReviewVerdict;
+  /** Comments to act on: every comment when approved, rejecting reviewers' comments otherwise. */
+  comments: AttributedReviewComment[];
+  /** Earlier comment IDs that every reviewer verified as fixed. */
+  resolved: string[];
+  /** Files at least one reviewer looked at, and the ones nobody did. */
+  coverage?: ReviewCoverage;
+  reason: string;
+}
+
+/**
+ * Reviews one task with one or more reviewers in parallel and combines their
+ * votes under a `ReviewPolicy`. The first reviewer applies the outcome. With a
+ * `BranchSync`, the branch is first brought up to date with main so the diff
+ * under review is the one that will land. When some reviewers fail to vote,
+ * the others decide if no missing vote could change the outcome; otherwise
+ * the task is blocked.
+ */
+export class ReviewPanel {
+  constructor(
+    private reviewers: ReviewerRole[],
+    private policy: ReviewPolicy,
+    private kanban: KanbanManager,
+    private eventBus: EventBus,
+    private worktreeManager: WorktreeManager,
+    private branchSync?: BranchSync,
+  ) {
+    if (reviewers.length === 0) {
+      throw new Error("ReviewPanel needs at least one reviewer");
+    }
+  }
+
+  async reviewTask(task: Task, projectDir: string): Promise<ReviewVerdict> {
+    const lead = this.reviewers[0];
+
+    if (!task.branch) {
+      await this.kanban.moveTask(
+        task.id,
+        "blocked",
+        lead.id,
+        "Missing task branch metadata for review",
+      );
+      this.eventBus.emit({
+        type: "agent:error",
+        agentId: lead.id,
+        agentRole: "reviewer",
+        timestamp: Date.now(),
+        summary: `Review failed: ${task.title} (missing branch metadata)`,
+        data: { taskId: task.id },
+      });
+      return "rejected";
+    }
+
+    let syncedWithMain = false;
+    if (this.branchSync) {
+      try {
+        const status = await this.branchSync.sync(task, "review", lead.id, "reviewer");
+        if (status === "conflict") return "rejected";
+        syncedWithMain = status === "updated";
+      } catch (error) {
+        await this.kanban.moveTask(
+          task.id,
+          "blocked",
+          lead.id,
+          `Unable to update branch from main: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        this.eventBus.emit({
+          type: "agent:error",
+          agentId: lead.id,
+          agentRole: "reviewer",
+          timestamp: Date.now(),
+          summary: `Review failed: ${task.title} (sync with main failed)`,
+          data: { taskId: task.id, branch: task.branch },
+        });
+        return "rejected";
+      }
+    }
+
+    let diff: string;
+    try {
+      diff = await this.worktreeManager.getDiff(task.branch);
+    } catch (error) {
+      await this.kanban.moveTask(
+        task.id,
+        "blocked",
+        lead.id,
+        `Unable to compute branch diff: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      this.eventBus.emit({
+        type: "agent:error",
+        agentId: lead.id,
+        agentRole: "reviewer",
+        timestamp: Date.now(),
+        summary: `Review failed: ${task.title} (diff generation failed)`,
+        data: { taskId: task.id, branch: task.branch },
+      });
+      return "rejected";
+    }
+
+    const results = await Promise.allSettled(
+      this.reviewers.map((reviewer) => reviewer.castVote(task, diff, projectDir, syncedWithMain)),
+    );
+    const votes = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+    const failures = results.flatMap((result, i) => (
+      result.status === "rejected" ? [{ reviewerId: this.reviewers[i].id, reason: result.reason as unknown }] : []
+    ));
+    const decision = decideReview(votes, this.policy);
+
+    if (failures.length > 0 && !decisionStands(votes, failures.length, this.policy)) {
+      const [first] = failures;
+      const detail = first.reason instanceof Error ? first.reason.message : String(first.reason);
+      await this.kanban.moveTask(task.id, "blocked", first.reviewerId, detail);
+      this.eventBus.emit({
+        type: "agent:error",
+        agentId: lead.id,
+        agentRole: "reviewer",
+        timestamp: Date.now(),
+        summary: `Review failed: ${task.title} (${failures.length} of ${this.reviewers.length} reviewers produced no vote)`,
+        data: { taskId: task.id, policy: this.policy, failedReviewers: failures.map(({ reviewerId }) => reviewerId) },
+      });
+      return "rejected";
+    }
+
+    await this.kanban.recordReviewVotes(task.id, votes);
+
+    if (this.reviewers.length > 1) {
+      const missing = failures.length > 0 ? `, ${failures.length} reviewer(s) produced no vote` : "";
+      this.eventBus.emit({
+        type: "agent:message",
+        agentId: lead.id,
+        agentRole: "reviewer",
+        timestamp: Date.now(),
+        summary: `Review panel ${decision.verdict}: ${task.title} (${decision.reason}${missing})`,
+        data: {
+          taskId: task.id,
+          policy: this.policy,
+          verdict: decision.verdict,
+          votes: votes.map(({ reviewerId, verdict, security }) => ({ reviewerId, verdict, security })),
+          ...(failures.length > 0 ? { failedReviewers: failures.map(({ reviewerId }) => reviewerId) } : {}),
+        },
+      });
+    }
+
+    return lead.applyVerdict(task, decision);
+  }
+}
+
+/**
+ * Combine reviewer votes under `policy`. Majority needs strictly more approvals
+ * than rejections. An earlier comment counts as resolved only when every
+ * reviewer verified it.
+ */
+export function decideReview(votes: ReviewVote[], policy: ReviewPolicy): ReviewDecision {
+  const approvals = votes.filter((vote) => vote.verdict === "approved");
+  const rejections = votes.filter((vote) => vote.verdict === "rejected");
+  const tally = `${approvals.length}/${votes.length} approved`;
+  const attribute = (vote: ReviewVote): AttributedReviewComment[] => (
+    vote.comments.map((comment) => ({ ...comment, reviewerId: vote.reviewerId }))
+  );
+  const resolved = [...new Set(votes.flatMap((vote) => vote.resolved ?? []))]
+    .filter((id) => votes.every((vote) => vote.resolved?.includes(id)));
+  const coverage = mergeCoverage(votes);
+
+  const reject = (reason: string): ReviewDecision => ({
+    verdict: "rejected",
+    comments: rejections.flatMap(attribute),
+    resolved,
+    ...(coverage ? { coverage } : {}),
+    reason,
+  });
+
+  const securityRejections = rejections.filter((vote) => vote.security);
+  if (policy === "security_veto" && securityRejections.length > 0) {
+    const vetoers = securityRejections.map((vote) => vote.reviewerId).join(", ");
+    return reject(`${tally}, security rejection by ${vetoers}`);
+  }
+
+  const approved = policy === "unanimous"
+    ? rejections.length === 0
+    : approvals.length > rejections.length;
+  if (!approved) return reject(`${tally}, ${policy === "unanimous" ? "unanimous approval required" : "no majority"}`);
+
+  return {
+    verdict: "approved",
+    comments: votes.flatMap(attribute),
+    resolved,
+    ...(coverage ? { coverage } : {}),
+    reason: tally,
+  };
+}
+
+/**
+ * Whether the decision on `votes` holds however `missing` further votes would
+ * have gone. A missing vote may be a rejection, or a security veto.
+ */
+function decisionStands(votes: ReviewVote[], missing: number, policy: ReviewPolicy): boolean {
+  const approvals = votes.filter((vote) => vote.verdict === "approved").length;
+  const rejections = votes.filter((vote) => vote.verdict === "rejected");
+  if (decideReview(votes, policy).verdict === "approved") {
+    return policy === "majority" && approvals > rejections.length + missing;
+  }
+  if (policy === "unanimous" || (policy === "security_veto" && rejections.some((vote) => vote.security))) {
+    return true;
+  }
+  return rejections.length >= approvals + missing;
+}
+
+function mergeCoverage(votes: ReviewVote[]): ReviewCoverage | undefined {
+  const covered = votes.filter((vote) => vote.coverage);
+  if (covered.length === 0) return undefined;
+  const reviewed = [...new Set(covered.flatMap((vote) => vote.coverage?.reviewed ?? []))];
+  const unreviewed = [...new Set(covered.flatMap((vote) => vote.coverage?.unreviewed ?? []))]
+    .filter((path) => !reviewed.includes(path));
+  return { reviewed, unreviewed };
+}
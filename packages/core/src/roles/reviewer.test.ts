@@ -0,0 +1,103 @@
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import type { AgentRuntime } from "../agents/agent-runtime.js";
+import { EventBus } from "../event-bus.js";
+import { KanbanManager } from "../kanban.js";
+import type { AgentMessage, Task } from "../types.js";
+import { WorktreeManager } from "../worktree-manager.js";
+import { ReviewerRole } from "./reviewer.js";
+
+const APPROVE = '{"verdict": "approved", "comments": []}';
+const CHUNKING = { max_chunk_chars: 1000, max_chunks: 2 };
+
+describe("ReviewerRole.castVote", () => {
+  it("reviews a small diff in one pass and covers every file", async () => {
+    const { reviewer, prompts } = reviewerAnswering([APPROVE]);
+    const vote = await reviewer.castVote(task(), fileDiff("a.ts", 5), "/project");
+    expect([prompts.length, vote.verdict, vote.coverage]).toEqual([1, "approved", { reviewed: ["a.ts"], unreviewed: [] }]);
+  });
+
+  it("reviews a large diff in one pass per chunk", async () => {
+    const { reviewer, prompts } = reviewerAnswering([APPROVE, APPROVE]);
+    await reviewer.castVote(task(), [fileDiff("a.ts", 40), fileDiff("b.ts", 40)].join("\n"), "/project");
+    expect(prompts.map((prompt) => prompt.match(/part (\d) of (\d)/)?.slice(1))).toEqual([["1", "2"], ["2", "2"]]);
+  });
+
+  it("rejects when any chunk is rejected", async () => {
+    const { reviewer } = reviewerAnswering([APPROVE, '{"verdict": "rejected", "comments": ["Bug in b"]}']);
+    const vote = await reviewer.castVote(task(), [fileDiff("a.ts", 40), fileDiff("b.ts", 40)].join("\n"), "/project");
+    expect([vote.verdict, vote.comments.map((comment) => comment.body)]).toEqual(["rejected", ["Bug in b"]]);
+  });
+
+  it("hands overflow files to the last pass and rejects when they stay unreviewed", async () => {
+    const { reviewer, prompts } = reviewerAnswering([APPROVE, APPROVE]);
+    const diff = ["a.ts", "b.ts", "c.ts"].map((path) => fileDiff(path, 40)).join("\n");
+    const vote = await reviewer.castVote(task(), diff, "/project");
+    expect(prompts[1]).toContain("- c.ts");
+    expect([vote.verdict, vote.coverage]).toEqual(["rejected", { reviewed: ["a.ts", "b.ts"], unreviewed: ["c.ts"] }]);
+  });
+
+  it("counts overflow files the reviewer reports having pulled", async () => {
+    const { reviewer } = reviewerAnswering([APPROVE, '{"verdict": "approved", "comments": [], "reviewedFiles": ["c.ts"]}']);
+    const diff = ["a.ts", "b.ts", "c.ts"].map((path) => fileDiff(path, 40)).join("\n");
+    const vote = await reviewer.castVote(task(), diff, "/project");
+    expect([vote.verdict, vote.coverage?.unreviewed]).toEqual(["approved", []]);
+  });
+});
+
+function reviewerAnswering(outputs: string[]): { reviewer: ReviewerRole; prompts: string[] } {
+  const prompts: string[] = [];
+  const runtime: AgentRuntime = {
+    id: "rev-1",
+    sdk: "mock",
+    model: "mock-reviewer",
+    async *run(prompt: string): AsyncIterable<AgentMessage> {
+      prompts.push(prompt);
+      yield { type: "text", content: outputs[prompts.length - 1] ?? APPROVE, timestamp: Date.now() };
+    },
+    resume: () => {
+      throw new Error("not supported");
+    },
+    registerTools: () => undefined,
+    abort: async () => undefined,
+  };
+  const projectDir = join(tmpdir(), "arkaledge-reviewer-unused");
+  const eventBus = new EventBus();
+  const reviewer = new ReviewerRole(
+    runtime,
+    new KanbanManager(projectDir, eventBus),
+    eventBus,
+    new WorktreeManager(projectDir),
+    false,
+    undefined,
+    undefined,
+    CHUNKING,
+  );
+  return { reviewer, prompts };
+}
+
+function task(): Task {
+  return {
+    id: "task-1",
+    title: "Feature",
+    description: "",
+    acceptanceCriteria: [],
+    status: "review",
+    priority: "medium",
+    branch: "task/feature",
+    retryCount: 0,
+    history: [],
+    createdBy: "test",
+  };
+}
+
+function fileDiff(path: string, lineCount: number): string {
+  return [
+    `diff --git a/${path} b/${path}`,
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    `@@ -0,0 +1,${lineCount} @@`,
+    ...Array.from({ length: lineCount }, (_, i) => `+${path} line ${i}`),
+  ].join("\n");
+}
@@ -1,17 +1,38 @@
 import { z } from "zod";
 import type { AgentRuntime } from "../agents/agent-runtime.js";
+import type { BranchSync } from "../branch-sync.js";
+import { type DiffChunkPlan, planDiffChunks } from "../diff-chunks.js";
 import type { EventBus } from "../event-bus.js";
 import type { KanbanManager } from "../kanban.js";
+import type { MergeQueue } from "../merge-queue.js";
+import type { PluginHookRunner } from "../plugins/plugin-hooks.js";
+import type { PullRequestPublisher } from "../pull-requests/pull-request-publisher.js";
+import { formatReviewComment, unresolvedReviewComments } from "../review-comments.js";
 import { consumeStreamWithWatchdog, RuntimeWatchdogError } from "../runtime-watchdog.js";
-import type { SharedProjectContext, Task } from "../types.js";
-import type { WorktreeManager } from "../worktree-manager.js";
+import {
+  newReviewCommentSchema,
+  type NewReviewComment,
+  type ReviewChunkingConfig,
+  type ReviewCoverage,
+  type ReviewVerdict,
+  type ReviewVote,
+  type SharedProjectContext,
+  type Task,
+} from "../types.js";
+import { usageEventData } from "../usage.js";
+import { MergeConflictError, type WorktreeManager } from "../worktree-manager.js";
+import { type ReviewDecision, ReviewPanel } from "./review-panel.js";
 
 const verdictSchema = z.object({
   verdict: z.enum(["approved", "rejected"]),
-  comments: z.array(z.string()),
+  // Plain strings are still accepted and become unanchored comments
+  comments: z.array(z.union([newReviewCommentSchema, z.string().transform((body) => ({ body }))])),
+  resolved: z.array(z.string()).default([]),
+  security: z.boolean().optional(),
+  reviewedFiles: z.array(z.string()).default([]),
 });
 
-const DIFF_CHAR_LIMIT = 20000;
+const DEFAULT_REVIEW_CHUNKING: ReviewChunkingConfig = { max_chunk_chars: 20000, max_chunks: 8 };
 const REVIEWER_IDLE_TIMEOUT_MS = 120_000;
 const REVIEWER_TOTAL_TIMEOUT_MS = 10 * 60_000;
 
@@ -41,13 +62,41 @@ IMPORTANT:
 Output ONLY JSON with this exact shape:
 {
   "verdict": "approved" | "rejected",
-  "comments": ["comment1", "comment2"]
+  "comments": [
+    {
+      "body": "What is wrong and how to fix it",
+      "file": "src/example.ts",
+      "startLine": 12,
+      "endLine": 14,
+      "severity": "blocker" | "major" | "nit",
+      "category": "correctness" | "tests" | "security" | "error-handling" | "performance" | "style" | "other"
+    }
+  ],
+  "resolved": ["<id of an open review comment that is now fixed>"],
+  "security": false
 }
 
-If all checks pass, verdict is "approved". Otherwise "rejected" with specific, actionable comments.`;
+COMMENTS:
+- Anchor each comment to the file (path relative to the repository root) and the line range in the NEW version of the file when it concerns specific code. Omit file and lines for general comments.
+- "blocker" must be fixed before approval, "major" should be fixed, "nit" is optional polish.
+- If open review comments are listed, verify each one in the code. Put its id in "resolved" only when it is fixed; do not repeat resolved comments.
+
+If all checks pass and no blocker is left open, verdict is "approved". Otherwise "rejected" with specific, actionable comments.
+Set "security" to true only when you reject because of a security problem.`;
+
+interface ReviewPass {
+  verdict: ReviewVerdict;
+  comments: NewReviewComment[];
+  resolved: string[];
+  security: boolean;
+  /** Overflow files the reviewer reports having pulled and reviewed. */
+  reviewedFiles: string[];
+}
 
 /**
  * Reviews completed work using the task branch diff and acceptance criteria.
+ * `castVote` produces one verdict; `ReviewPanel` combines votes and calls
+ * `applyVerdict` to merge or send the task back.
  */
 export class ReviewerRole {
   constructor(
@@ -57,27 +106,33 @@ export class ReviewerRole {
     private worktreeManager: WorktreeManager,
     private autoMerge: boolean,
     private sharedContext?: SharedProjectContext,
+    private pluginHooks?: PluginHookRunner,
+    private chunking: ReviewChunkingConfig = DEFAULT_REVIEW_CHUNKING,
+    private branchSync?: BranchSync,
+    private mergeQueue?: MergeQueue,
+    private pullRequests?: PullRequestPublisher,
   ) {}
 
-  async reviewTask(task: Task, projectDir: string): Promise<"approved" | "rejected"> {
-    if (!task.branch) {
-      await this.kanban.moveTask(
-        task.id,
-        "blocked",
-        this.runtime.id,
-        "Missing task branch metadata for review",
-      );
-      this.eventBus.emit({
-        type: "agent:error",
-        agentId: this.runtime.id,
-        agentRole: "reviewer",
-        timestamp: Date.now(),
-        summary: `Review failed: ${task.title} (missing branch metadata)`,
-        data: { taskId: task.id },
-      });
-      return "rejected";
-    }
+  get id(): string {
+    return this.runtime.id;
+  }
+
+  /** Review as the only reviewer: cast a vote and apply it. */
+  async reviewTask(task: Task, projectDir: string): Promise<ReviewVerdict> {
+    return new ReviewPanel([this], "majority", this.kanban, this.eventBus, this.worktreeManager, this.branchSync)
+      .reviewTask(task, projectDir);
+  }
 
+  /**
+   * Run the review agent against `diff` and return its vote. A diff larger
+   * than one prompt is reviewed in several passes (see `planDiffChunks`)
+   * whose findings merge into one vote; `coverage` lists the files that were
+   * and were not reviewed, and an approval that leaves files unreviewed is
+   * turned into a rejection. `syncedWithMain` tells the reviewer that main was
+   * just merged into the branch, so the tests must be re-run. Unparseable
+   * output counts as a rejection; a watchdog timeout or crash throws.
+   */
+  async castVote(task: Task, diff: string, projectDir: string, syncedWithMain = false): Promise<ReviewVote> {
     this.eventBus.emit({
       type: "review:started",
       agentId: this.runtime.id,
@@ -87,34 +142,83 @@ export class ReviewerRole {
       data: { taskId: task.id, branch: task.branch, worktree: task.worktree },
     });
 
-    let diff: string;
-    try {
-      diff = await this.worktreeManager.getDiff(task.branch);
-    } catch (error) {
-      await this.kanban.moveTask(
-        task.id,
-        "blocked",
-        this.runtime.id,
-        `Unable to compute branch diff: ${error instanceof Error ? error.message : String(error)}`,
-      );
-      this.eventBus.emit({
-        type: "agent:error",
-        agentId: this.runtime.id,
-        agentRole: "reviewer",
-        timestamp: Date.now(),
-        summary: `Review failed: ${task.title} (diff generation failed)`,
-        data: { taskId: task.id, branch: task.branch },
+    const trimmedDiff = diff.trim();
+    const plan = planDiffChunks(trimmedDiff, this.chunking.max_chunk_chars, this.chunking.max_chunks);
+    const passes: ReviewPass[] = [];
+
+    if (trimmedDiff.length <= this.chunking.max_chunk_chars || plan.chunks.length === 0) {
+      const diffSection = `**Diff (main...${task.branch}):**
+\`\`\`diff
+${trimmedDiff.slice(0, this.chunking.max_chunk_chars) || "(No diff output)"}
+\`\`\``;
+      passes.push(await this.runPass(task, this.buildPrompt(task, diffSection, syncedWithMain), projectDir));
+    } else {
+      for (const [index, chunk] of plan.chunks.entries()) {
+        const part = `${index + 1} of ${plan.chunks.length}`;
+        this.eventBus.emit({
+          type: "agent:message",
+          agentId: this.runtime.id,
+          agentRole: "reviewer",
+          timestamp: Date.now(),
+          summary: `Reviewing part ${part} of ${task.title} (${chunk.files.length} files)`,
+          data: { taskId: task.id, part: index + 1, parts: plan.chunks.length, files: chunk.files },
+        });
+        const overflow = index === plan.chunks.length - 1 ? plan.overflow : [];
+        passes.push(await this.runPass(
+          task,
+          this.buildPrompt(task, chunkSection(task, plan, index, overflow), syncedWithMain),
+          projectDir,
+        ));
+      }
+    }
+
+    const reported = new Set(passes.flatMap((pass) => pass.reviewedFiles));
+    const coverage: ReviewCoverage = {
+      reviewed: plan.files.filter((path) => !plan.overflow.includes(path) || reported.has(path)),
+      unreviewed: plan.overflow.filter((path) => !reported.has(path)),
+    };
+
+    let verdict: ReviewVerdict = passes.some((pass) => pass.verdict === "rejected") ? "rejected" : "approved";
+    const comments = passes.flatMap((pass) => pass.comments);
+    const resolved = [...new Set(passes.flatMap((pass) => pass.resolved))];
+    const security = passes.some((pass) => pass.security);
+    if (coverage.unreviewed.length > 0) {
+      verdict = "rejected";
+      comments.push({
+        body: `Not reviewed — the diff was too large to cover: ${coverage.unreviewed.join(", ")}`,
+        severity: "blocker",
+        category: "other",
       });
-      return "rejected";
     }
 
-    const trimmedDiff = diff.trim().slice(0, DIFF_CHAR_LIMIT);
+    await this.pluginHooks?.invoke("onReviewVerdict", task, {
+      verdict,
+      comments: comments.map(formatReviewComment),
+      reviewerId: this.runtime.id,
+    });
+
+    return {
+      reviewerId: this.runtime.id,
+      sdk: this.runtime.sdk,
+      model: this.runtime.model,
+      verdict,
+      comments,
+      ...(resolved.length > 0 ? { resolved } : {}),
+      ...(security && verdict === "rejected" ? { security } : {}),
+      ...(plan.files.length > 0 ? { coverage } : {}),
+      timestamp: Date.now(),
+    };
+  }
+
+  private buildPrompt(task: Task, diffSection: string, syncedWithMain: boolean): string {
     const criteria = task.acceptanceCriteria.map((c) => `- ${c}`).join("\n");
-    const reviewHistory = (task.reviewComments ?? []).map((c) => `- ${c}`).join("\n");
+    const openComments = unresolvedReviewComments(task)
+      .map((comment) => `- (id: ${comment.id}) ${formatReviewComment(comment)}`)
+      .join("\n");
     const contextBlock = this.sharedContext
       ? `**Shared Project Context:**\n${this.sharedContext.prompt}\n`
       : "**Shared Project Context:** unavailable in this run.\n";
-    const userPrompt = `Review the implementation for this task:
+    return `Review the implementation for this task:
 
 **Title:** ${task.title}
 
@@ -126,19 +230,18 @@ ${contextBlock}
 
 **Branch:** ${task.branch}
 
-**Diff (main...${task.branch}):**
-\`\`\`diff
-${trimmedDiff || "(No diff output)"}
-\`\`\`
+${diffSection}
 
-${reviewHistory ? `**Previous Review Feedback:**\n${reviewHistory}\n` : ""}
+${openComments ? `**Open Review Comments (verify each one):**\n${openComments}\n` : ""}${syncedWithMain ? "**Updated From Main:** main was just merged into this branch. Re-run the tests so the approval covers the combined code.\n" : ""}
 Read the relevant files in the task worktree, validate acceptance criteria, and run tests if they exist.`;
+  }
 
-    // Collect agent output with watchdog protection.
+  /** Run one review prompt with watchdog protection and parse its verdict. */
+  private async runPass(task: Task, prompt: string, projectDir: string): Promise<ReviewPass> {
     let fullOutput = "";
     try {
       await consumeStreamWithWatchdog(
-        this.runtime.run(userPrompt, {
+        this.runtime.run(prompt, {
           systemPrompt: REVIEWER_SYSTEM_PROMPT,
           workingDirectory: task.worktree ?? projectDir,
         }),
@@ -155,7 +258,7 @@ Read the relevant files in the task worktree, validate acceptance criteria, and
               agentRole: "reviewer",
               timestamp: Date.now(),
               summary: message.content.slice(0, 200),
-              data: { messageType: message.type },
+              data: { messageType: message.type, ...usageEventData(message, task.id) },
             });
           },
         },
@@ -163,12 +266,6 @@ Read the relevant files in the task worktree, validate acceptance criteria, and
     } catch (error) {
       await this.runtime.abort();
       const detail = error instanceof Error ? error.message : String(error);
-      await this.kanban.moveTask(
-        task.id,
-        "blocked",
-        this.runtime.id,
-        `Review watchdog timeout/failure: ${detail}`,
-      );
       this.eventBus.emit({
         type: "agent:error",
         agentId: this.runtime.id,
@@ -182,34 +279,63 @@ Read the relevant files in the task worktree, validate acceptance criteria, and
           timeoutKind: error instanceof RuntimeWatchdogError ? error.kind : "unknown",
         },
       });
-      return "rejected";
+      throw new Error(`Review watchdog timeout/failure: ${detail}`);
     }
 
-    // Parse the verdict
-    const jsonStr = extractJson(fullOutput);
-    let verdict: "approved" | "rejected";
-    let comments: string[];
+    return parseVerdict(fullOutput);
+  }
 
-    try {
-      const parsed = JSON.parse(jsonStr) as unknown;
-      const result = verdictSchema.parse(parsed);
-      verdict = result.verdict;
-      comments = result.comments;
-    } catch {
-      // If we can't parse, treat as rejected with the raw output as comment
-      verdict = "rejected";
-      comments = ["Failed to parse review verdict. Raw output: " + fullOutput.slice(0, 500)];
+  /**
+   * Merge (or close) an approved task, or send a rejected one back with its
+   * comments. Comments listed in `resolved` are marked resolved either way.
+   * Before merging, the branch is synced with main once more: if main moved
+   * during the review the task goes back to review, and a conflict (found by
+   * the sync or by the merge itself) sends it to its engineer. With a
+   * `MergeQueue`, a merge whose tests fail is sent back too. All of these
+   * return "rejected" since nothing was merged. With a `PullRequestPublisher`
+   * the approved branch is pushed and opened as a pull request instead, and
+   * the task stays in review until the pull request is merged.
+   */
+  async applyVerdict(task: Task, decision: ReviewDecision): Promise<ReviewVerdict> {
+    const { verdict, comments, resolved, coverage } = decision;
+    if (!task.branch) {
+      throw new Error(`Task has no branch to apply a review verdict to: ${task.id}`);
+    }
+
+    if (resolved.length > 0) {
+      await this.kanban.resolveReviewComments(task.id, resolved, this.runtime.id);
+    }
+
+    if (verdict === "approved" && this.pullRequests) {
+      return this.openPullRequest(task, decision, this.pullRequests);
     }
 
     if (verdict === "approved") {
       const preserveWorktreeForUi = shouldPreserveWorktreeForUi(task);
+      let doneTask: Task;
       if (this.autoMerge) {
         try {
-          await this.worktreeManager.mergeToMain(task.branch);
+          const syncStatus = await this.branchSync?.sync(task, "merge", this.runtime.id, "reviewer");
+          if (syncStatus === "conflict") return "rejected";
+          if (syncStatus === "updated") {
+            await this.kanban.moveTask(task.id, "review", this.runtime.id, "Main moved during review — re-reviewing the updated branch");
+            return "rejected";
+          }
+          if (this.mergeQueue) {
+            const outcome = await this.mergeQueue.merge(task, this.runtime.id, "reviewer");
+            if (outcome.status === "failed") return "rejected";
+          } else {
+            await this.worktreeManager.mergeToMain(task.branch);
+          }
+          await this.pluginHooks?.invoke("onTaskMerged", task, task.branch);
           if (!preserveWorktreeForUi) {
             await this.worktreeManager.removeWorktree(task.id);
           }
         } catch (error) {
+          if (error instanceof MergeConflictError && this.branchSync) {
+            await this.branchSync.reportConflict(task, "merge", error.files, error.hunks, this.runtime.id, "reviewer");
+            return "rejected";
+          }
           const detail = error instanceof Error ? error.message : String(error);
           await this.kanban.moveTask(task.id, "blocked", this.runtime.id, `Merge/cleanup failed: ${detail}`);
 
@@ -238,7 +364,7 @@ Read the relevant files in the task worktree, validate acceptance criteria, and
           });
         }
 
-        await this.kanban.moveTask(
+        doneTask = await this.kanban.moveTask(
           task.id,
           "done",
           this.runtime.id,
@@ -247,7 +373,7 @@ Read the relevant files in the task worktree, validate acceptance criteria, and
             : "Review approved and merged to main",
         );
       } else {
-        await this.kanban.moveTask(task.id, "done", this.runtime.id, "Review approved (manual merge required)");
+        doneTask = await this.kanban.moveTask(task.id, "done", this.runtime.id, "Review approved (manual merge required)");
       }
 
       this.eventBus.emit({
@@ -256,12 +382,14 @@ Read the relevant files in the task worktree, validate acceptance criteria, and
         agentRole: "reviewer",
         timestamp: Date.now(),
         summary: `Review approved: ${task.title}`,
-        data: { taskId: task.id, comments, branch: task.branch, autoMerge: this.autoMerge },
+        data: { taskId: task.id, comments, coverage, branch: task.branch, autoMerge: this.autoMerge },
       });
+
+      await this.pluginHooks?.invoke("onTaskComplete", doneTask);
     } else {
       // Add each comment to the task
-      for (const comment of comments) {
-        await this.kanban.addReviewComment(task.id, comment);
+      for (const { reviewerId, ...comment } of comments) {
+        await this.kanban.addReviewComment(task.id, comment, reviewerId);
       }
 
       // Move back to in_progress for the engineer to fix
@@ -273,12 +401,100 @@ Read the relevant files in the task worktree, validate acceptance criteria, and
         agentRole: "reviewer",
         timestamp: Date.now(),
         summary: `Review rejected: ${task.title} (${comments.length} comments)`,
-        data: { taskId: task.id, comments, branch: task.branch, worktree: task.worktree },
+        data: { taskId: task.id, comments, coverage, branch: task.branch, worktree: task.worktree },
       });
     }
 
     return verdict;
   }
+
+  private async openPullRequest(
+    task: Task,
+    decision: ReviewDecision,
+    pullRequests: PullRequestPublisher,
+  ): Promise<ReviewVerdict> {
+    const { comments, coverage } = decision;
+    try {
+      const syncStatus = await this.branchSync?.sync(task, "merge", this.runtime.id, "reviewer");
+      if (syncStatus === "conflict") return "rejected";
+      if (syncStatus === "updated") {
+        await this.kanban.moveTask(task.id, "review", this.runtime.id, "Main moved during review — re-reviewing the updated branch");
+        return "rejected";
+      }
+      const current = (await this.kanban.getAllTasks()).find((candidate) => candidate.id === task.id) ?? task;
+      const summary = [
+        `Approved by ${this.runtime.id}: ${decision.reason}`,
+        ...comments.map((comment) => `- ${formatReviewComment(comment)}`),
+      ].join("\n");
+      await pullRequests.publish(current, this.runtime.id, "reviewer", summary);
+    } catch (error) {
+      const detail = error instanceof Error ? error.message : String(error);
+      await this.kanban.moveTask(task.id, "blocked", this.runtime.id, `Pull request failed: ${detail}`);
+
+      this.eventBus.emit({
+        type: "agent:error",
+        agentId: this.runtime.id,
+        agentRole: "reviewer",
+        timestamp: Date.now(),
+        summary: `Review approved but pull request failed: ${task.title}`,
+        data: { taskId: task.id, branch: task.branch, error: detail },
+      });
+
+      return "rejected";
+    }
+
+    this.eventBus.emit({
+      type: "review:approved",
+      agentId: this.runtime.id,
+      agentRole: "reviewer",
+      timestamp: Date.now(),
+      summary: `Review approved, pull request open: ${task.title}`,
+      data: { taskId: task.id, comments, coverage, branch: task.branch, autoMerge: "pull_request" },
+    });
+
+    return "approved";
+  }
+}
+
+function parseVerdict(output: string): ReviewPass {
+  try {
+    const result = verdictSchema.parse(JSON.parse(extractJson(output)) as unknown);
+    return {
+      verdict: result.verdict,
+      comments: result.comments.filter((comment) => comment.body.trim() !== ""),
+      resolved: result.resolved,
+      security: result.verdict === "rejected" && result.security === true,
+      reviewedFiles: result.reviewedFiles,
+    };
+  } catch {
+    // If we can't parse, treat as rejected with the raw output as comment
+    return {
+      verdict: "rejected",
+      comments: [{ body: "Failed to parse review verdict. Raw output: " + output.slice(0, 500), severity: "blocker" }],
+      resolved: [],
+      security: false,
+      reviewedFiles: [],
+    };
+  }
+}
+
+/** Diff section for one pass of a chunked review, plus the files left for the reviewer to pull. */
+function chunkSection(task: Task, plan: DiffChunkPlan, index: number, overflow: string[]): string {
+  const chunk = plan.chunks[index];
+  const overflowBlock = overflow.length > 0
+    ? `
+
+**Files not included in any part:** inspect each one with \`git diff main...HEAD -- <path>\` in the worktree and list the ones you reviewed in "reviewedFiles":
+${overflow.map((path) => `- ${path}`).join("\n")}`
+    : "";
+  return `**Diff (main...${task.branch}), part ${index + 1} of ${plan.chunks.length}:**
+\`\`\`diff
+${chunk.text}
+\`\`\`
+
+The diff is too large for one review, so it is split into ${plan.chunks.length} parts reviewed separately. Review the files in this part (${chunk.files.join(", ")}); only comment on other files when this part depends on them.
+
+**All changed files:** ${plan.files.join(", ")}${overflowBlock}`;
 }
 
 /** Extract JSON object from a string, stripping markdown code fences if present. */
@@ -0,0 +1,131 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { AgentRuntime } from "../agents/agent-runtime.js";
+import { EventBus } from "../event-bus.js";
+import { KanbanManager } from "../kanban.js";
+import type { AgentConfig, AgentEvent, AgentMessage, Task } from "../types.js";
+import { ScrumMasterPlanner } from "./scrum-master-planner.js";
+
+type EngineerMap = Map<string, { runtime: AgentRuntime; config: AgentConfig }>;
+
+describe("ScrumMasterPlanner", () => {
+  let projectDir: string;
+  let eventBus: EventBus;
+  let kanban: KanbanManager;
+  let task: Task;
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), "arkaledge-planner-"));
+    eventBus = new EventBus();
+    kanban = new KanbanManager(projectDir, eventBus);
+    await kanban.init();
+    task = await kanban.addTask({
+      title: "Build parser",
+      description: "",
+      acceptanceCriteria: ["Parses input"],
+      status: "backlog",
+      priority: "high",
+      createdBy: "test",
+    });
+  });
+
+  afterEach(async () => {
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  describe("chooseEngineer", () => {
+    it("returns the engineer the agent picked", async () => {
+      const planner = plannerAnswering('{"engineerId": "eng-2", "reason": "Strong at parsers"}');
+      expect(await planner.chooseEngineer(task, ["eng-1", "eng-2"], engineers(), [task])).toBe("eng-2");
+    });
+
+    it("records the decision in the task history", async () => {
+      const planner = plannerAnswering('{"engineerId": "eng-2", "reason": "Strong at parsers"}');
+      await planner.chooseEngineer(task, ["eng-1", "eng-2"], engineers(), [task]);
+      const [stored] = await kanban.getAllTasks();
+      expect(stored.history.at(-1)).toMatchObject({
+        agentId: "sm",
+        action: "decision",
+        detail: "Assign to eng-2: Strong at parsers",
+      });
+    });
+
+    it("falls back when the agent names an engineer that is not idle", async () => {
+      const planner = plannerAnswering('{"engineerId": "eng-3", "reason": "Busy one"}');
+      expect(await planner.chooseEngineer(task, ["eng-1", "eng-2"], engineers(), [task])).toBeUndefined();
+    });
+
+    it("falls back with an error event when the answer is not JSON", async () => {
+      const errors = collectEvents(eventBus, "agent:error");
+      const planner = plannerAnswering("eng-2 looks good");
+      await planner.chooseEngineer(task, ["eng-1", "eng-2"], engineers(), [task]);
+      expect(errors.map((event) => event.data?.decision)).toEqual(["assignment"]);
+    });
+  });
+
+  describe("resolveFailure", () => {
+    it("parses a split decision inside code fences", async () => {
+      const planner = plannerAnswering([
+        "```json",
+        '{"action": "split", "reason": "Too big", "subtasks": [',
+        '{"title": "Lexer", "description": "", "acceptanceCriteria": []},',
+        '{"title": "Parser", "description": "", "acceptanceCriteria": [], "dependsOn": [0]}',
+        "]}",
+        "```",
+      ].join("\n"));
+      const decision = await planner.resolveFailure(task, "Failed after 3 retries", engineers(), [task]);
+      expect(decision).toMatchObject({ action: "split", subtasks: [{ title: "Lexer" }, { title: "Parser" }] });
+    });
+
+    it("rejects a reassignment back to the failing engineer", async () => {
+      const failing = await kanban.assignTask(task.id, "eng-1");
+      const planner = plannerAnswering('{"action": "reassign", "engineerId": "eng-1", "reason": "Try again"}');
+      expect(await planner.resolveFailure(failing, "Failed after 3 retries", engineers(), [failing])).toBeUndefined();
+    });
+
+    it("records an escalation in the task history", async () => {
+      const planner = plannerAnswering('{"action": "block", "reason": "Needs an API key"}');
+      await planner.resolveFailure(task, "Failed after 3 retries", engineers(), [task]);
+      const [stored] = await kanban.getAllTasks();
+      expect(stored.history.at(-1)?.detail).toBe("Escalate to a human: Needs an API key");
+    });
+  });
+
+  function plannerAnswering(output: string): ScrumMasterPlanner {
+    return new ScrumMasterPlanner(scriptedRuntime("sm", output), kanban, eventBus, projectDir);
+  }
+});
+
+function scriptedRuntime(id: string, output: string): AgentRuntime {
+  return {
+    id,
+    sdk: "mock",
+    model: "mock-sm",
+    async *run(): AsyncIterable<AgentMessage> {
+      yield { type: "text", content: output, timestamp: Date.now() };
+    },
+    resume: () => {
+      throw new Error("not supported");
+    },
+    registerTools: () => undefined,
+    abort: async () => undefined,
+  };
+}
+
+function engineers(): EngineerMap {
+  return new Map(["eng-1", "eng-2"].map((id) => [
+    id,
+    {
+      runtime: scriptedRuntime(id, ""),
+      config: { role: "engineer", id, sdk: "mock", model: "mock-engineer", tools: [] },
+    },
+  ]));
+}
+
+function collectEvents(eventBus: EventBus, type: AgentEvent["type"]): AgentEvent[] {
+  const events: AgentEvent[] = [];
+  eventBus.on(type, (event) => events.push(event));
+  return events;
+}
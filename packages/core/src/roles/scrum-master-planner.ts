@@ -0,0 +1,211 @@
+import { z } from "zod";
+import type { AgentRuntime } from "../agents/agent-runtime.js";
+import type { EventBus } from "../event-bus.js";
+import type { KanbanManager } from "../kanban.js";
+import { consumeStreamWithWatchdog } from "../runtime-watchdog.js";
+import type { AgentConfig, Task } from "../types.js";
+import { usageEventData } from "../usage.js";
+
+const DECISION_IDLE_TIMEOUT_MS = 60_000;
+const DECISION_TOTAL_TIMEOUT_MS = 180_000;
+const HISTORY_TASKS_PER_ENGINEER = 5;
+
+const SM_SYSTEM_PROMPT = `You are a Scrum Master coordinating a team of AI engineers. You make one planning decision at a time.
+
+Output ONLY a JSON object — no prose, no markdown fences, no explanation.
+Always include "reason" (string): one or two sentences explaining the decision for the task history.`;
+
+const assignmentSchema = z.object({
+  engineerId: z.string(),
+  reason: z.string(),
+});
+
+const splitTaskSchema = z.object({
+  title: z.string().min(1),
+  description: z.string(),
+  acceptanceCriteria: z.array(z.string()),
+  dependsOn: z.array(z.number().int().min(0)).optional(),
+});
+
+const failureDecisionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("reassign"), engineerId: z.string(), reason: z.string() }),
+  z.object({ action: z.literal("split"), subtasks: z.array(splitTaskSchema).min(2), reason: z.string() }),
+  z.object({ action: z.literal("block"), reason: z.string() }),
+]);
+
+export type SplitTask = z.infer<typeof splitTaskSchema>;
+export type FailureDecision = z.infer<typeof failureDecisionSchema>;
+
+type EngineerPool = Map<string, { runtime: AgentRuntime; config: AgentConfig }>;
+
+/**
+ * Consults the configured scrum-master runtime at planning decision points
+ * (`workflow.scrum_master_mode: llm`). Every decision is written to the task
+ * history. Returns undefined when the agent fails or answers with something
+ * unusable, so callers fall back to the rule-based scheduler.
+ */
+export class ScrumMasterPlanner {
+  constructor(
+    private runtime: AgentRuntime,
+    private kanban: KanbanManager,
+    private eventBus: EventBus,
+    private projectDir: string,
+  ) {}
+
+  get id(): string {
+    return this.runtime.id;
+  }
+
+  /** Pick which of the idle `candidates` should take `task`. */
+  async chooseEngineer(
+    task: Task,
+    candidates: string[],
+    engineers: EngineerPool,
+    tasks: Task[],
+  ): Promise<string | undefined> {
+    const prompt = `Choose the engineer best suited to the task below, judging by SDK, model and how their past tasks went.
+
+**Task:**
+${describeTask(task)}
+
+**Idle engineers:**
+${describeEngineers(candidates, engineers, tasks)}
+
+Respond with {"engineerId": "<one of the idle engineer IDs>", "reason": "..."}.`;
+
+    const decision = await this.decide(task, "assignment", prompt, assignmentSchema);
+    if (!decision) return undefined;
+    if (!candidates.includes(decision.engineerId)) {
+      this.emitFallback(task, "assignment", `unknown or busy engineer "${decision.engineerId}"`);
+      return undefined;
+    }
+
+    await this.kanban.recordDecision(task.id, this.runtime.id, `Assign to ${decision.engineerId}: ${decision.reason}`);
+    return decision.engineerId;
+  }
+
+  /**
+   * Decide what happens to a task that has used up its retries: hand it to a
+   * specific engineer, split it into smaller tasks, or block it with an
+   * escalation note for a human.
+   */
+  async resolveFailure(
+    task: Task,
+    failureReason: string,
+    engineers: EngineerPool,
+    tasks: Task[],
+  ): Promise<FailureDecision | undefined> {
+    const alternates = [...engineers.keys()].filter((id) => id !== task.assignee);
+    const prompt = `The task below keeps failing and has used all of its retries.
+
+**Task:**
+${describeTask(task)}
+
+**Latest failure:** ${failureReason}
+**Previous assignee:** ${task.assignee ?? "(none)"}
+
+**Other engineers:**
+${alternates.length > 0 ? describeEngineers(alternates, engineers, tasks) : "(none)"}
+
+Choose exactly one action:
+- {"action": "reassign", "engineerId": "<one of the other engineer IDs>", "reason": "..."} when another engineer is likely to succeed.
+- {"action": "split", "subtasks": [{"title", "description", "acceptanceCriteria", "dependsOn"}], "reason": "..."} when the task is too large. Give at least two subtasks that together cover the acceptance criteria; dependsOn holds 0-based indices of earlier subtasks.
+- {"action": "block", "reason": "..."} when a human must step in. Explain what is blocking and what the human should do.`;
+
+    const decision = await this.decide(task, "failure", prompt, failureDecisionSchema);
+    if (!decision) return undefined;
+    if (decision.action === "reassign" && !alternates.includes(decision.engineerId)) {
+      this.emitFallback(task, "failure", `unknown engineer "${decision.engineerId}"`);
+      return undefined;
+    }
+
+    await this.kanban.recordDecision(task.id, this.runtime.id, describeFailureDecision(decision));
+    return decision;
+  }
+
+  private async decide<T>(
+    task: Task,
+    kind: string,
+    prompt: string,
+    schema: z.ZodType<T>,
+  ): Promise<T | undefined> {
+    let output = "";
+    try {
+      await consumeStreamWithWatchdog(
+        this.runtime.run(prompt, {
+          systemPrompt: SM_SYSTEM_PROMPT,
+          workingDirectory: this.projectDir,
+        }),
+        {
+          idleTimeoutMs: DECISION_IDLE_TIMEOUT_MS,
+          totalTimeoutMs: DECISION_TOTAL_TIMEOUT_MS,
+          onMessage: (message) => {
+            if (message.type === "text") output += message.content;
+            this.eventBus.emit({
+              type: "agent:message",
+              agentId: this.runtime.id,
+              agentRole: "scrum-master",
+              timestamp: Date.now(),
+              summary: message.content.slice(0, 200),
+              data: { taskId: task.id, messageType: message.type, decision: kind, ...usageEventData(message, task.id) },
+            });
+          },
+        },
+      );
+      return schema.parse(JSON.parse(extractJsonObject(output)));
+    } catch (error) {
+      await this.runtime.abort();
+      this.emitFallback(task, kind, error instanceof Error ? error.message : String(error));
+      return undefined;
+    }
+  }
+
+  private emitFallback(task: Task, kind: string, detail: string): void {
+    this.eventBus.emit({
+      type: "agent:error",
+      agentId: this.runtime.id,
+      agentRole: "scrum-master",
+      timestamp: Date.now(),
+      summary: `Scrum Master ${kind} decision for "${task.title}" failed — using rule-based scheduling: ${detail.slice(0, 200)}`,
+      data: { taskId: task.id, decision: kind, error: detail },
+    });
+  }
+}
+
+function describeTask(task: Task): string {
+  const criteria = task.acceptanceCriteria.map((c) => `- ${c}`).join("\n");
+  return `${task.title} (priority: ${task.priority}${task.epic ? `, epic: ${task.epic}` : ""})
+${task.description}
+${criteria ? `Acceptance criteria:\n${criteria}` : ""}`.trim();
+}
+
+/** One block per engineer: SDK/model plus the latest tasks it was assigned and where they stand now. */
+function describeEngineers(ids: string[], engineers: EngineerPool, tasks: Task[]): string {
+  return ids.map((id) => {
+    const config = engineers.get(id)?.config;
+    const assigned = tasks
+      .filter((t) => t.history.some((event) => event.action === "assigned" && event.agentId === id))
+      .slice(-HISTORY_TASKS_PER_ENGINEER)
+      .map((t) => `  - "${t.title}": ${t.assignee === id ? t.status : "reassigned"}${t.retryCount > 0 ? ` (${t.retryCount} retries)` : ""}`);
+    return `- ${id} (sdk: ${config?.sdk ?? "unknown"}, model: ${config?.model ?? "unknown"})\n${assigned.length > 0 ? assigned.join("\n") : "  - no tasks yet"}`;
+  }).join("\n");
+}
+
+function describeFailureDecision(decision: FailureDecision): string {
+  switch (decision.action) {
+    case "reassign": return `Reassign to ${decision.engineerId}: ${decision.reason}`;
+    case "split": return `Split into ${decision.subtasks.length} subtasks: ${decision.reason}`;
+    case "block": return `Escalate to a human: ${decision.reason}`;
+  }
+}
+
+/** Extract a JSON object from a string, stripping markdown code fences if present. */
+function extractJsonObject(text: string): string {
+  const fenceMatch = text.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+  if (fenceMatch) return fenceMatch[1].trim();
+
+  const objectMatch = text.match(/\{[\s\S]*\}/);
+  if (objectMatch) return objectMatch[0];
+
+  return text.trim();
+}
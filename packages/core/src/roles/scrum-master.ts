@@ -1,16 +1,29 @@
 import { AgentHealthRegistry } from "../agent-health.js";
 import type { AgentRuntime } from "../agents/agent-runtime.js";
+import { BranchSync } from "../branch-sync.js";
+import type { BudgetGuard } from "../budget.js";
+import { analyzeDependencies, type DependencyGraphReport } from "../dependency-graph.js";
 import type { EventBus } from "../event-bus.js";
-import { FailureHandler } from "../failure-handler.js";
-import type { KanbanManager } from "../kanban.js";
+import { type BlockReplanner, FailureHandler } from "../failure-handler.js";
+import { dependenciesMet, type KanbanManager } from "../kanban.js";
+import { MergeQueue } from "../merge-queue.js";
+import type { PluginHookRunner } from "../plugins/plugin-hooks.js";
+import { createPullRequestProvider } from "../pull-requests/provider-factory.js";
+import type { PullRequestProvider } from "../pull-requests/pull-request-provider.js";
+import { PullRequestPublisher } from "../pull-requests/pull-request-publisher.js";
 import { consumeStreamWithWatchdog } from "../runtime-watchdog.js";
-import type { AgentConfig, AgentMessage, SharedProjectContext, WorkflowConfig } from "../types.js";
+import { SchedulerSignal } from "../scheduler-signal.js";
+import type { AgentConfig, AgentMessage, SchedulerMode, SharedProjectContext, WorkflowConfig } from "../types.js";
 import type { Task } from "../types.js";
-import type { WorktreeManager } from "../worktree-manager.js";
+import { usageEventData } from "../usage.js";
+import { MergeConflictError, type WorktreeManager } from "../worktree-manager.js";
 import { EngineerRole } from "./engineer.js";
+import { ReviewPanel } from "./review-panel.js";
 import { ReviewerRole } from "./reviewer.js";
+import type { ScrumMasterPlanner } from "./scrum-master-planner.js";
 
-const POLL_INTERVAL_MS = 2000;
+// Longest the loop sleeps without an event; covers cooldowns and out-of-process board edits
+const IDLE_RECHECK_MS = 10_000;
 const HEALTH_PROBE_IDLE_TIMEOUT_MS = 25_000;
 const HEALTH_PROBE_TOTAL_TIMEOUT_MS = 40_000;
 const HEALTH_PROBE_SYSTEM_PROMPT = "You are a harness health probe. Reply with exactly HEALTH_OK.";
@@ -24,29 +37,81 @@ const PROBE_FAILURE_PATTERNS = [
   /process exited with code/i,
 ];
 
+type AgentPool = Map<string, { runtime: AgentRuntime; config: AgentConfig }>;
+
+interface ReviewPanelSeat {
+  reviewerId: string;
+  /** Idle set the reviewer returns to when the review ends. */
+  idlePool: Set<string>;
+  sdk: string;
+}
+
 /**
- * Coordination loop: assigns tasks to idle engineers, triggers reviews,
- * handles blockers. Runs until all tasks are done.
+ * Coordination loop: assigns tasks to idle engineers, hands reviews to the
+ * reviewer pool (falling back to idle engineers when allowed), handles
+ * blockers. Runs until all tasks are done, or until active work finishes
+ * after `drain()`. Between passes it sleeps until a task or agent event, or
+ * an agent session finishing, signals that something changed.
  */
 export class ScrumMasterRole {
   private stopped = false;
+  private mode: SchedulerMode = "running";
   private idleEngineers: Set<string>;
+  private idleReviewers: Set<string>;
   private activeWork = new Map<string, Promise<void>>();
   private activeReviewTasks = new Set<string>();
   private failureHandler: FailureHandler;
   private healthRegistry: AgentHealthRegistry;
+  private budgetHaltAnnounced = false;
+  private reportedDependencyProblems = new Set<string>();
+  private branchSync: BranchSync;
+  private mergeQueue?: MergeQueue;
+  private pullRequests?: PullRequestPublisher;
+  private signal: SchedulerSignal;
 
   constructor(
-    private engineers: Map<string, { runtime: AgentRuntime; config: AgentConfig }>,
+    private engineers: AgentPool,
     private kanban: KanbanManager,
     private eventBus: EventBus,
     private workflowConfig: WorkflowConfig,
     private worktreeManager: WorktreeManager,
     private sharedContext?: SharedProjectContext,
+    private pluginHooks?: PluginHookRunner,
+    private budget?: BudgetGuard,
+    private reviewers: AgentPool = new Map(),
+    private planner?: ScrumMasterPlanner,
+    replanner?: BlockReplanner,
+    pullRequestProvider?: PullRequestProvider,
   ) {
     this.idleEngineers = new Set(engineers.keys());
-    this.failureHandler = new FailureHandler(kanban, eventBus, workflowConfig.max_retries);
-    this.healthRegistry = new AgentHealthRegistry([...engineers.keys()]);
+    this.idleReviewers = new Set(reviewers.keys());
+    this.signal = new SchedulerSignal(eventBus);
+    this.branchSync = new BranchSync(
+      kanban,
+      eventBus,
+      worktreeManager,
+      workflowConfig.branch_sync ?? "merge",
+      workflowConfig.max_retries,
+    );
+    if (workflowConfig.auto_merge === "pull_request" && workflowConfig.remote) {
+      this.pullRequests = new PullRequestPublisher(
+        kanban,
+        eventBus,
+        worktreeManager,
+        pullRequestProvider ?? createPullRequestProvider(workflowConfig.remote),
+        workflowConfig.remote,
+        pluginHooks,
+      );
+    }
+    this.failureHandler = new FailureHandler(
+      kanban,
+      eventBus,
+      workflowConfig.max_retries,
+      planner,
+      this.branchSync,
+      replanner,
+    );
+    this.healthRegistry = new AgentHealthRegistry([...engineers.keys(), ...reviewers.keys()]);
   }
 
   async run(projectDir: string): Promise<void> {
@@ -58,10 +123,30 @@ export class ScrumMasterRole {
       summary: "Scrum Master starting coordination loop",
     });
 
-    await this.preflightEngineerHealth(projectDir);
+    this.mergeQueue = new MergeQueue(
+      this.kanban,
+      this.eventBus,
+      this.worktreeManager,
+      projectDir,
+      this.workflowConfig.merge_queue,
+    );
+    await this.preflightAgentHealth(projectDir);
 
+    this.signal.attach();
     while (!this.stopped) {
-      await this.refreshEngineerHealth(projectDir);
+      if (this.mode === "draining" && this.activeWork.size === 0) break;
+
+      // Paused or draining: let in-flight sessions finish, start nothing new
+      if (this.mode !== "running") {
+        await this.signal.wait(IDLE_RECHECK_MS);
+        continue;
+      }
+
+      await this.refreshAgentHealth(projectDir);
+
+      if (this.pullRequests) {
+        await this.pullRequests.poll(await this.kanban.getAllTasks());
+      }
 
       const tasks = await this.kanban.getAllTasks();
 
@@ -77,19 +162,56 @@ export class ScrumMasterRole {
       const activeTasks = currentTasks.filter((t) => t.status !== "done");
       if (activeTasks.length === 0) break;
 
-      // 2. Assign backlog tasks and orphaned in_progress tasks to idle engineers
+      // Near the run budget: start nothing new and exit once in-flight work lands
+      const runBudgetReason = this.budget?.checkRunHeadroom();
+      if (runBudgetReason) {
+        if (!this.budgetHaltAnnounced) {
+          this.budgetHaltAnnounced = true;
+          this.eventBus.emit({
+            type: "agent:message",
+            agentId: "scrum-master",
+            agentRole: "scrum-master",
+            timestamp: Date.now(),
+            summary: `No new work will be assigned: ${runBudgetReason}`,
+            data: { reason: runBudgetReason, budgetExceeded: true, active: this.activeWork.size },
+          });
+        }
+        if (this.activeWork.size === 0) break;
+        await this.signal.wait(IDLE_RECHECK_MS);
+        continue;
+      }
+
+      const engineersWithBudget = [...this.engineers.keys()].filter((id) => !this.budget?.checkAgent(id));
+      if (engineersWithBudget.length === 0 && this.activeWork.size === 0) {
+        this.eventBus.emit({
+          type: "agent:error",
+          agentId: "scrum-master",
+          agentRole: "scrum-master",
+          timestamp: Date.now(),
+          summary: "Every engineer has reached its agent budget — stopping",
+          data: { budgetExceeded: true },
+        });
+        break;
+      }
+
+      // 2. Assign backlog tasks and orphaned in_progress tasks to idle engineers,
+      //    those heading the longest chain of remaining work first, then by priority
+      const graph = analyzeDependencies(currentTasks);
+      this.reportDependencyProblems(graph, currentTasks);
       const candidateTasks = currentTasks
         .filter((t) => t.status === "backlog" || (t.status === "in_progress" && (!t.assignee || (this.idleEngineers.has(t.assignee) && !this.activeWork.has(t.assignee)))))
-        .sort((a, b) => priorityWeight(a.priority) - priorityWeight(b.priority));
+        .sort((a, b) => (graph.chainLength[b.id] ?? 0) - (graph.chainLength[a.id] ?? 0)
+          || priorityWeight(a.priority) - priorityWeight(b.priority));
 
       // Filter out tasks whose dependencies haven't been met
       const schedulableTasks: Task[] = [];
       for (const task of candidateTasks) {
-        if (await this.kanban.areDependenciesMet(task)) {
+        if (dependenciesMet(task, currentTasks)) {
           schedulableTasks.push(task);
         }
       }
 
+      // Tasks with an open pull request wait for it to merge, keeping the loop alive
       const pendingReviewTasks = currentTasks.filter(
         (t) => t.status === "review" && !this.activeReviewTasks.has(t.id),
       );
@@ -102,7 +224,7 @@ export class ScrumMasterRole {
           agentRole: "scrum-master",
           timestamp: Date.now(),
           summary: `No schedulable tasks remain (${blockedCount} blocked, ${backlogCount} backlog)`,
-          data: { blockedCount, backlogCount },
+          data: { blockedCount, backlogCount, unschedulable: graph.unschedulable },
         });
         break;
       }
@@ -110,7 +232,7 @@ export class ScrumMasterRole {
       for (const task of schedulableTasks) {
         if (this.idleEngineers.size === 0) break;
 
-        const engineerId = this.pickSchedulableEngineer(task.assignee);
+        const engineerId = await this.chooseEngineer(task, currentTasks);
         if (!engineerId) {
           this.eventBus.emit({
             type: "agent:message",
@@ -156,7 +278,13 @@ export class ScrumMasterRole {
         }
 
         const engineer = this.engineers.get(engineerId)!;
-        const engineerRole = new EngineerRole(engineer.runtime, this.kanban, this.eventBus, this.sharedContext);
+        const engineerRole = new EngineerRole(
+          engineer.runtime,
+          this.kanban,
+          this.eventBus,
+          this.sharedContext,
+          this.budget,
+        );
 
         const workPromise = engineerRole
           .executeTask(runnableTask, projectDir, this.workflowConfig.max_retries)
@@ -166,12 +294,14 @@ export class ScrumMasterRole {
             }
             this.activeWork.delete(engineerId);
             this.idleEngineers.add(engineerId);
+            this.signal.notify();
           })
           .catch((err) => {
             const detail = err instanceof Error ? err.message : String(err);
             this.healthRegistry.markRuntimeCrash(engineerId, detail);
             this.activeWork.delete(engineerId);
             this.idleEngineers.add(engineerId);
+            this.signal.notify();
             this.eventBus.emit({
               type: "agent:error",
               agentId: engineerId,
@@ -184,64 +314,92 @@ export class ScrumMasterRole {
         this.activeWork.set(engineerId, workPromise);
       }
 
-      // 3. Assign review tasks to idle engineers (different from author)
+      // 3. Assign review tasks to reviewers, or idle engineers other than the author
       if (this.workflowConfig.review_required) {
-        const reviewTasks = currentTasks.filter((t) => t.status === "review" && !this.activeReviewTasks.has(t.id));
+        const reviewTasks = currentTasks.filter(
+          (t) => t.status === "review" && !this.activeReviewTasks.has(t.id) && !hasOpenPullRequest(t),
+        );
 
         for (const task of reviewTasks) {
-          // Find an idle engineer who is NOT the author
-          const reviewerId = this.pickSchedulableEngineer(undefined, new Set([task.assignee ?? ""]));
-          if (!reviewerId) continue;
+          const eligible = this.reviewersWithBudget(task);
+          if (eligible.length === 0) {
+            await this.blockUnreviewable(task);
+            continue;
+          }
+          const panel = this.pickReviewPanel(task, eligible.length);
+          if (!panel) continue;
 
-          this.idleEngineers.delete(reviewerId);
+          for (const { reviewerId, idlePool } of panel) idlePool.delete(reviewerId);
           this.activeReviewTasks.add(task.id);
 
-          const reviewer = this.engineers.get(reviewerId)!;
-          const reviewerRole = new ReviewerRole(
-            reviewer.runtime,
+          const reviewerRoles = panel.map(({ reviewerId }) => {
+            const reviewer = (this.reviewers.get(reviewerId) ?? this.engineers.get(reviewerId))!;
+            return new ReviewerRole(
+              reviewer.runtime,
+              this.kanban,
+              this.eventBus,
+              this.worktreeManager,
+              this.workflowConfig.auto_merge === true,
+              this.sharedContext,
+              this.pluginHooks,
+              this.workflowConfig.review_chunking,
+              this.branchSync,
+              this.mergeQueue,
+              this.pullRequests,
+            );
+          });
+          const reviewPanel = new ReviewPanel(
+            reviewerRoles,
+            this.workflowConfig.review_quorum?.policy ?? "majority",
             this.kanban,
             this.eventBus,
             this.worktreeManager,
-            this.workflowConfig.auto_merge,
-            this.sharedContext,
+            this.branchSync,
           );
 
-          const reviewPromise = reviewerRole
+          const release = (): void => {
+            for (const { reviewerId, idlePool } of panel) {
+              this.activeWork.delete(reviewerId);
+              idlePool.add(reviewerId);
+            }
+            this.activeReviewTasks.delete(task.id);
+            this.signal.notify();
+          };
+
+          const reviewPromise = reviewPanel
             .reviewTask(task, projectDir)
             .then(() => {
-              this.healthRegistry.markHealthy(reviewerId);
-              this.activeWork.delete(reviewerId);
-              this.idleEngineers.add(reviewerId);
-              this.activeReviewTasks.delete(task.id);
+              for (const { reviewerId } of panel) this.healthRegistry.markHealthy(reviewerId);
+              release();
             })
             .catch((err) => {
               const detail = err instanceof Error ? err.message : String(err);
-              this.healthRegistry.markRuntimeCrash(reviewerId, detail);
-              this.activeWork.delete(reviewerId);
-              this.idleEngineers.add(reviewerId);
-              this.activeReviewTasks.delete(task.id);
+              for (const { reviewerId } of panel) this.healthRegistry.markRuntimeCrash(reviewerId, detail);
+              release();
+              const reviewerIds = panel.map(({ reviewerId }) => reviewerId).join(", ");
               this.eventBus.emit({
                 type: "agent:error",
-                agentId: reviewerId,
+                agentId: panel[0].reviewerId,
                 agentRole: "reviewer",
                 timestamp: Date.now(),
-                summary: `Reviewer ${reviewerId} crashed: ${detail}`,
+                summary: `Reviewer ${reviewerIds} crashed: ${detail}`,
               });
             });
 
-          this.activeWork.set(reviewerId, reviewPromise);
+          for (const { reviewerId } of panel) this.activeWork.set(reviewerId, reviewPromise);
         }
       } else {
         // If review not required, auto-approve review tasks.
-        const reviewTasks = currentTasks.filter((t) => t.status === "review");
+        const reviewTasks = currentTasks.filter((t) => t.status === "review" && !hasOpenPullRequest(t));
         for (const task of reviewTasks) {
           if (!this.workflowConfig.auto_merge) {
-            await this.kanban.moveTask(
+            const doneTask = await this.kanban.moveTask(
               task.id,
               "done",
               "scrum-master",
               "Auto-approved (manual merge required)",
             );
+            await this.pluginHooks?.invoke("onTaskComplete", doneTask);
             continue;
           }
 
@@ -255,8 +413,33 @@ export class ScrumMasterRole {
             continue;
           }
 
+          if (this.pullRequests) {
+            try {
+              const syncStatus = await this.branchSync.sync(task, "merge", "scrum-master", "scrum-master");
+              if (syncStatus === "conflict") continue;
+              await this.pullRequests.publish(task, "scrum-master", "scrum-master", "Auto-approved (review not required)");
+            } catch (error) {
+              await this.kanban.moveTask(
+                task.id,
+                "blocked",
+                "scrum-master",
+                `Pull request failed: ${error instanceof Error ? error.message : String(error)}`,
+              );
+            }
+            continue;
+          }
+
+          let doneTask: Task;
           try {
-            await this.worktreeManager.mergeToMain(task.branch);
+            const syncStatus = await this.branchSync.sync(task, "merge", "scrum-master", "scrum-master");
+            if (syncStatus === "conflict") continue;
+            if (this.mergeQueue) {
+              const outcome = await this.mergeQueue.merge(task, "scrum-master", "scrum-master");
+              if (outcome.status === "failed") continue;
+            } else {
+              await this.worktreeManager.mergeToMain(task.branch);
+            }
+            await this.pluginHooks?.invoke("onTaskMerged", task, task.branch);
             const preserveWorktreeForUi = shouldPreserveWorktreeForUi(task);
             if (task.worktree && !preserveWorktreeForUi) {
               await this.worktreeManager.removeWorktree(task.id);
@@ -272,7 +455,7 @@ export class ScrumMasterRole {
                 data: { taskId: task.id, worktree: task.worktree },
               });
             }
-            await this.kanban.moveTask(
+            doneTask = await this.kanban.moveTask(
               task.id,
               "done",
               "scrum-master",
@@ -281,13 +464,19 @@ export class ScrumMasterRole {
                 : "Auto-approved and merged to main",
             );
           } catch (error) {
+            if (error instanceof MergeConflictError) {
+              await this.branchSync.reportConflict(task, "merge", error.files, error.hunks, "scrum-master", "scrum-master");
+              continue;
+            }
             await this.kanban.moveTask(
               task.id,
               "blocked",
               "scrum-master",
               `Auto-approval merge failed: ${error instanceof Error ? error.message : String(error)}`,
             );
+            continue;
           }
+          await this.pluginHooks?.invoke("onTaskComplete", doneTask);
         }
       }
 
@@ -304,12 +493,14 @@ export class ScrumMasterRole {
           done: latestTasks.filter((t) => t.status === "done").length,
           total: latestTasks.length,
           idle: this.idleEngineers.size,
+          idleReviewers: this.idleReviewers.size,
           active: this.activeWork.size,
         },
       });
 
-      await sleep(POLL_INTERVAL_MS);
+      await this.signal.wait(IDLE_RECHECK_MS);
     }
+    this.signal.detach();
 
     // Wait for any remaining active work to finish
     if (this.activeWork.size > 0) {
@@ -325,44 +516,186 @@ export class ScrumMasterRole {
     });
   }
 
-  private async preflightEngineerHealth(projectDir: string): Promise<void> {
-    const probes = [...this.engineers.entries()].map(([id, { runtime }]) => (
-      this.probeEngineerRuntime(id, runtime, projectDir, true)
+  private async preflightAgentHealth(projectDir: string): Promise<void> {
+    const probes = this.probeTargets().map(([id, role, runtime]) => (
+      this.probeAgentRuntime(id, role, runtime, projectDir, true)
     ));
     await Promise.allSettled(probes);
   }
 
-  private async refreshEngineerHealth(projectDir: string): Promise<void> {
-    for (const [id, { runtime }] of this.engineers.entries()) {
+  private async refreshAgentHealth(projectDir: string): Promise<void> {
+    for (const [id, role, runtime] of this.probeTargets()) {
       if (!this.healthRegistry.shouldProbe(id)) continue;
       this.healthRegistry.markPendingProbe(id);
-      await this.probeEngineerRuntime(id, runtime, projectDir, false);
+      await this.probeAgentRuntime(id, role, runtime, projectDir, false);
+    }
+  }
+
+  private probeTargets(): Array<[string, "engineer" | "reviewer", AgentRuntime]> {
+    return [
+      ...[...this.engineers.entries()].map(([id, { runtime }]) => [id, "engineer", runtime] as [string, "engineer", AgentRuntime]),
+      ...[...this.reviewers.entries()].map(([id, { runtime }]) => [id, "reviewer", runtime] as [string, "reviewer", AgentRuntime]),
+    ];
+  }
+
+  /**
+   * Report each dependency cycle, unknown dependency and task stuck behind a
+   * blocked one the first time it appears, so starving tasks are visible.
+   */
+  private reportDependencyProblems(graph: DependencyGraphReport, tasks: Task[]): void {
+    const title = (id: string): string => tasks.find((t) => t.id === id)?.title ?? id;
+    const problems = [
+      ...graph.cycles.map((cycle) => ({
+        key: `cycle:${cycle.join(",")}`,
+        summary: `Dependency cycle: ${[...cycle, cycle[0]].map(title).join(" → ")}`,
+        data: { cycle },
+      })),
+      ...graph.dangling.map(({ taskId, dependsOn }) => ({
+        key: `dangling:${taskId}:${dependsOn}`,
+        summary: `"${title(taskId)}" depends on unknown task ${dependsOn} and cannot start`,
+        data: { taskId, dependsOn },
+      })),
+      ...graph.unschedulable
+        .filter((entry) => entry.reason === "blocked")
+        .map(({ taskId, rootTaskId, chain }) => ({
+          key: `blocked:${taskId}:${rootTaskId}`,
+          summary: `"${title(taskId)}" cannot start while "${title(rootTaskId)}" is blocked`,
+          data: { taskId, rootTaskId, chain },
+        })),
+    ];
+
+    for (const problem of problems) {
+      if (this.reportedDependencyProblems.has(problem.key)) continue;
+      this.reportedDependencyProblems.add(problem.key);
+      this.eventBus.emit({
+        type: "agent:error",
+        agentId: "scrum-master",
+        agentRole: "scrum-master",
+        timestamp: Date.now(),
+        summary: problem.summary,
+        data: problem.data,
+      });
     }
   }
 
   private pickSchedulableEngineer(preferredId?: string, exclude = new Set<string>()): string | undefined {
-    if (
-      preferredId
-      && this.idleEngineers.has(preferredId)
-      && !exclude.has(preferredId)
-      && this.healthRegistry.isSchedulable(preferredId)
-      && !this.activeWork.has(preferredId)
-    ) {
-      return preferredId;
+    return this.pickSchedulableAgent(this.idleEngineers, preferredId, exclude);
+  }
+
+  /** Let the planner match an unassigned task to one of several idle engineers; otherwise use the rules. */
+  private async chooseEngineer(task: Task, tasks: Task[]): Promise<string | undefined> {
+    if (!this.planner || task.assignee) return this.pickSchedulableEngineer(task.assignee);
+
+    const candidates = this.schedulableAgents(this.idleEngineers);
+    if (candidates.length < 2) return candidates[0];
+    return await this.planner.chooseEngineer(task, candidates, this.engineers, tasks) ?? candidates[0];
+  }
+
+  /**
+   * Pick the reviewers for one task, or undefined until enough are idle. The
+   * panel size comes from `review_quorum`, capped at the `eligible` agents
+   * still within their budget. Dedicated reviewers come first; engineers other
+   * than the author step in when `reviewer_fallback_to_engineers` allows it —
+   * by default only if no reviewer agents are configured. Distinct SDKs are
+   * preferred.
+   */
+  private pickReviewPanel(task: Task, eligible: number): ReviewPanelSeat[] | undefined {
+    const exclude = new Set([task.assignee ?? ""]);
+    const fallback = this.reviewerFallback();
+
+    const candidates: ReviewPanelSeat[] = [
+      ...this.schedulableAgents(this.idleReviewers, exclude).map((reviewerId) => ({
+        reviewerId,
+        idlePool: this.idleReviewers,
+        sdk: this.reviewers.get(reviewerId)!.config.sdk,
+      })),
+      ...(fallback ? this.schedulableAgents(this.idleEngineers, exclude) : []).map((reviewerId) => ({
+        reviewerId,
+        idlePool: this.idleEngineers,
+        sdk: this.engineers.get(reviewerId)!.config.sdk,
+      })),
+    ];
+
+    const size = Math.min(this.reviewPanelSize(task), eligible);
+    if (candidates.length < size) return undefined;
+
+    const panel: ReviewPanelSeat[] = [];
+    const seenSdks = new Set<string>();
+    for (const candidate of candidates) {
+      if (panel.length === size) break;
+      if (seenSdks.has(candidate.sdk)) continue;
+      seenSdks.add(candidate.sdk);
+      panel.push(candidate);
     }
+    for (const candidate of candidates) {
+      if (panel.length === size) break;
+      if (!panel.includes(candidate)) panel.push(candidate);
+    }
+    return panel;
+  }
 
-    for (const id of this.idleEngineers) {
-      if (exclude.has(id)) continue;
-      if (this.activeWork.has(id)) continue;
-      if (!this.healthRegistry.isSchedulable(id)) continue;
-      return id;
+  /**
+   * Reviewers, plus engineers other than the author when the fallback allows
+   * it, that have not used up their agent budget. Busy or unhealthy agents
+   * count, since they become available again; over-budget ones never do.
+   */
+  private reviewersWithBudget(task: Task): string[] {
+    const engineers = this.reviewerFallback()
+      ? [...this.engineers.keys()].filter((id) => id !== task.assignee)
+      : [];
+    return [...this.reviewers.keys(), ...engineers].filter((id) => !this.budget?.checkAgent(id));
+  }
+
+  private reviewerFallback(): boolean {
+    return this.workflowConfig.reviewer_fallback_to_engineers ?? this.reviewers.size === 0;
+  }
+
+  /** No agent that could review `task` has budget left, so it can never pass review. */
+  private async blockUnreviewable(task: Task): Promise<void> {
+    const reason = "Budget exceeded — every agent that could review this task has reached its agent budget";
+    await this.kanban.moveTask(task.id, "blocked", "scrum-master", reason);
+    this.eventBus.emit({
+      type: "agent:error",
+      agentId: "scrum-master",
+      agentRole: "scrum-master",
+      timestamp: Date.now(),
+      summary: `Task "${task.title}" blocked: no reviewer within budget`,
+      data: { taskId: task.id, reason, budgetExceeded: true },
+    });
+  }
+
+  private reviewPanelSize(task: Task): number {
+    const quorum = this.workflowConfig.review_quorum;
+    if (!quorum) return 1;
+    return task.priority === "high" ? quorum.high_priority_reviewers ?? quorum.reviewers : quorum.reviewers;
+  }
+
+  private pickSchedulableAgent(
+    idlePool: Set<string>,
+    preferredId?: string,
+    exclude = new Set<string>(),
+  ): string | undefined {
+    if (preferredId && this.canSchedule(preferredId, idlePool, exclude)) {
+      return preferredId;
     }
+    return this.schedulableAgents(idlePool, exclude)[0];
+  }
 
-    return undefined;
+  private schedulableAgents(idlePool: Set<string>, exclude = new Set<string>()): string[] {
+    return [...idlePool].filter((id) => this.canSchedule(id, idlePool, exclude));
   }
 
-  private async probeEngineerRuntime(
-    engineerId: string,
+  private canSchedule(agentId: string, idlePool: Set<string>, exclude: Set<string>): boolean {
+    return idlePool.has(agentId)
+      && !exclude.has(agentId)
+      && !this.activeWork.has(agentId)
+      && this.healthRegistry.isSchedulable(agentId)
+      && !this.budget?.checkAgent(agentId);
+  }
+
+  private async probeAgentRuntime(
+    agentId: string,
+    agentRole: "engineer" | "reviewer",
     runtime: AgentRuntime,
     projectDir: string,
     startup: boolean,
@@ -379,21 +712,32 @@ export class ScrumMasterRole {
           totalTimeoutMs: HEALTH_PROBE_TOTAL_TIMEOUT_MS,
           onMessage: (message) => {
             transcript += probeMessageText(message);
+            // Probes are otherwise silent; surface their token spend for accounting
+            const usageData = usageEventData(message);
+            if (usageData.usage) {
+              this.eventBus.emit({
+                type: "agent:message",
+                agentId,
+                agentRole,
+                timestamp: Date.now(),
+                summary: `Health probe used ${usageData.usage.inputTokens + usageData.usage.outputTokens} tokens`,
+                data: { messageType: "usage", ...usageData },
+              });
+            }
           },
         },
       );
     } catch (error) {
       await runtime.abort();
       const detail = error instanceof Error ? error.message : String(error);
-      const health = this.healthRegistry.markProbeFailure(engineerId, detail);
+      const health = this.healthRegistry.markProbeFailure(agentId, detail);
       this.eventBus.emit({
         type: "agent:error",
-        agentId: engineerId,
-        agentRole: "engineer",
+        agentId,
+        agentRole,
         timestamp: Date.now(),
-        summary: `Health probe failed for ${engineerId}: ${detail}`,
+        summary: `Health probe failed for ${agentId}: ${detail}`,
         data: {
-          engineerId,
           cooldownUntil: health.cooldownUntil,
           startup,
         },
@@ -403,17 +747,16 @@ export class ScrumMasterRole {
 
     if (isUnhealthyProbeTranscript(transcript)) {
       const health = this.healthRegistry.markProbeFailure(
-        engineerId,
+        agentId,
         transcript.slice(0, 300) || "Probe response indicated harness failure",
       );
       this.eventBus.emit({
         type: "agent:error",
-        agentId: engineerId,
-        agentRole: "engineer",
+        agentId,
+        agentRole,
         timestamp: Date.now(),
-        summary: `Health probe marked ${engineerId} unavailable`,
+        summary: `Health probe marked ${agentId} unavailable`,
         data: {
-          engineerId,
           reason: health.reason,
           cooldownUntil: health.cooldownUntil,
           startup,
@@ -422,21 +765,55 @@ export class ScrumMasterRole {
       return;
     }
 
-    this.healthRegistry.markHealthy(engineerId);
+    this.healthRegistry.markHealthy(agentId);
     this.eventBus.emit({
       type: "agent:message",
-      agentId: engineerId,
-      agentRole: "engineer",
+      agentId,
+      agentRole,
       timestamp: Date.now(),
       summary: startup
-        ? `Health probe passed for ${engineerId}`
-        : `Health probe recovery passed for ${engineerId}`,
-      data: { engineerId, startup },
+        ? `Health probe passed for ${agentId}`
+        : `Health probe recovery passed for ${agentId}`,
+      data: { startup },
     });
   }
 
   stop(): void {
     this.stopped = true;
+    this.signal.notify();
+  }
+
+  getMode(): SchedulerMode {
+    return this.mode;
+  }
+
+  /** Stop assigning new work; active engineer and reviewer sessions keep running. */
+  pause(): void {
+    this.setMode("paused", "Scrum Master paused — no new assignments until resumed");
+  }
+
+  /** Continue assigning work after `pause()` or `drain()`. */
+  resume(): void {
+    this.setMode("running", "Scrum Master resumed");
+  }
+
+  /** Stop assigning new work and exit the loop once active work has finished. */
+  drain(): void {
+    this.setMode("draining", `Scrum Master draining — waiting for ${this.activeWork.size} active sessions`);
+  }
+
+  private setMode(mode: SchedulerMode, summary: string): void {
+    if (this.mode === mode) return;
+    this.mode = mode;
+    this.signal.notify();
+    this.eventBus.emit({
+      type: "agent:message",
+      agentId: "scrum-master",
+      agentRole: "scrum-master",
+      timestamp: Date.now(),
+      summary,
+      data: { schedulerMode: mode, active: this.activeWork.size },
+    });
   }
 }
 
@@ -457,15 +834,15 @@ function buildTaskBranchName(task: Task): string {
   return `task/${task.id}${slug ? `-${slug}` : ""}`;
 }
 
+function hasOpenPullRequest(task: Task): boolean {
+  return task.pullRequest?.state === "open";
+}
+
 function shouldPreserveWorktreeForUi(task: Task): boolean {
   if (!task.worktree) return false;
   return (task.artifacts ?? []).some((artifact) => artifact.kind === "ui");
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
 function probeMessageText(message: AgentMessage): string {
   if (message.type === "text" || message.type === "tool_result" || message.type === "error") {
     return `${message.content}\n`;
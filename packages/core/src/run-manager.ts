@@ -0,0 +1,284 @@
+import { readFile, readdir, stat } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { nanoid } from "nanoid";
+import { loadConfig } from "./config-loader.js";
+import type { EventBus } from "./event-bus.js";
+import { EventLog } from "./event-log.js";
+import { KanbanManager } from "./kanban.js";
+import { Orchestrator } from "./orchestrator.js";
+import { createKanbanStorage } from "./storage/storage-factory.js";
+import type { OrchestrationRun, SchedulerControl, StartRunRequest, UsageSource } from "./types.js";
+
+interface RunEntry {
+  run: OrchestrationRun;
+  kanban: KanbanManager;
+  eventLog: EventLog;
+  orchestrator?: Orchestrator;
+}
+
+/**
+ * Starts and tracks orchestration runs inside a long-lived process (the
+ * dashboard API server). Only one run may be active at a time because all
+ * runs share the process-wide event bus.
+ */
+export class RunManager {
+  private entries = new Map<string, RunEntry>();
+  private currentRunId: string | undefined;
+  private runSwitchListeners = new Set<(run: OrchestrationRun) => void>();
+
+  constructor(
+    private eventBus: EventBus,
+    private baseDir: string = process.cwd(),
+  ) {}
+
+  /** All runs known to this process, most recent first. */
+  listRuns(): OrchestrationRun[] {
+    return Array.from(this.entries.values())
+      .map((entry) => ({ ...entry.run }))
+      .sort((a, b) => b.startedAt - a.startedAt);
+  }
+
+  getRun(runId: string): OrchestrationRun | undefined {
+    const entry = this.entries.get(runId);
+    return entry ? { ...entry.run } : undefined;
+  }
+
+  getActiveRun(): OrchestrationRun | undefined {
+    for (const entry of this.entries.values()) {
+      if (isActive(entry.run)) return { ...entry.run };
+    }
+    return undefined;
+  }
+
+  /** Pause/resume/drain controls of the active run's Scrum Master. */
+  getActiveScheduler(): SchedulerControl | undefined {
+    for (const entry of this.entries.values()) {
+      if (isActive(entry.run)) return entry.orchestrator;
+    }
+    return undefined;
+  }
+
+  /** Kanban of the most recently started run, used to serve the board. */
+  getCurrentKanban(): KanbanManager | undefined {
+    return this.currentRunId ? this.entries.get(this.currentRunId)?.kanban : undefined;
+  }
+
+  /** Usage totals of the most recently started run. */
+  getCurrentUsage(): UsageSource | undefined {
+    return this.currentRunId ? this.entries.get(this.currentRunId)?.orchestrator : undefined;
+  }
+
+  getCurrentRunId(): string | undefined {
+    return this.currentRunId;
+  }
+
+  /**
+   * Called when a launch makes a different run current, once its event log
+   * records. Returns an unsubscribe function.
+   */
+  onRunSwitched(listener: (run: OrchestrationRun) => void): () => void {
+    this.runSwitchListeners.add(listener);
+    return () => {
+      this.runSwitchListeners.delete(listener);
+    };
+  }
+
+  /** Event log of the most recently started run, used for SSE replay. */
+  getCurrentEventLog(): EventLog | undefined {
+    return this.currentRunId ? this.entries.get(this.currentRunId)?.eventLog : undefined;
+  }
+
+  /**
+   * Validate inputs and launch a new run in the background.
+   * Resolves once the orchestrator has been started, not when it finishes.
+   */
+  async startRun(request: StartRunRequest): Promise<OrchestrationRun> {
+    this.assertNoActiveRun();
+
+    const run: OrchestrationRun = {
+      id: nanoid(8),
+      specFile: resolve(this.baseDir, request.specFile),
+      configFile: resolve(this.baseDir, request.configFile),
+      outputDir: resolve(this.baseDir, request.outputDir),
+      status: "running",
+      startedAt: Date.now(),
+      resumeCount: 0,
+    };
+
+    const resume = request.resume ?? false;
+    await assertOutputMode(run.outputDir, resume);
+    const entry: RunEntry = {
+      run,
+      kanban: new KanbanManager(run.outputDir, this.eventBus),
+      eventLog: new EventLog(run.outputDir),
+    };
+    await this.launch(entry, resume);
+    return { ...run };
+  }
+
+  /** Restart a stopped, failed or completed run from its existing kanban state. */
+  async resumeRun(runId: string): Promise<OrchestrationRun> {
+    const entry = this.getEntryOrThrow(runId);
+    if (isActive(entry.run)) {
+      throw new Error(`Run ${runId} is already ${entry.run.status}`);
+    }
+    this.assertNoActiveRun();
+    await assertOutputMode(entry.run.outputDir, true);
+
+    entry.run.status = "running";
+    entry.run.startedAt = Date.now();
+    entry.run.resumeCount += 1;
+    delete entry.run.endedAt;
+    delete entry.run.error;
+
+    await this.launch(entry, true);
+    return { ...entry.run };
+  }
+
+  /** Ask the run's orchestrator to stop. The run becomes "stopped" once it unwinds. */
+  async stopRun(runId: string): Promise<OrchestrationRun> {
+    const entry = this.getEntryOrThrow(runId);
+    if (entry.run.status !== "running") {
+      throw new Error(`Run ${runId} is not running (status: ${entry.run.status})`);
+    }
+
+    entry.run.status = "stopping";
+    this.emitMessage(entry.run, `Stopping run ${runId}`);
+    await entry.orchestrator?.stop();
+    return { ...entry.run };
+  }
+
+  /** Stop every active run, e.g. on process shutdown. */
+  async stopAll(): Promise<void> {
+    const active = Array.from(this.entries.values()).filter((entry) => entry.run.status === "running");
+    await Promise.allSettled(active.map((entry) => this.stopRun(entry.run.id)));
+  }
+
+  private async launch(entry: RunEntry, resume: boolean): Promise<void> {
+    const { run } = entry;
+    let spec: string;
+    try {
+      spec = await readFile(run.specFile, "utf-8");
+      const config = await loadConfig(run.configFile);
+      entry.kanban = new KanbanManager(run.outputDir, this.eventBus, createKanbanStorage(run.outputDir, config.workflow.storage));
+      await entry.kanban.init();
+      await entry.eventLog.init();
+      entry.orchestrator = new Orchestrator(config, run.outputDir, { resume });
+    } catch (error) {
+      // Nothing was launched: a fresh run is never recorded, a resumed one is marked failed.
+      run.status = "failed";
+      run.error = errorMessage(error);
+      run.endedAt = Date.now();
+      throw error;
+    }
+
+    this.entries.set(run.id, entry);
+    const switched = this.currentRunId !== run.id;
+    this.currentRunId = run.id;
+    // Only the active run records events; they all share the process-wide bus
+    for (const other of this.entries.values()) other.eventLog.detach();
+    entry.eventLog.attach(this.eventBus);
+    if (switched) {
+      for (const listener of this.runSwitchListeners) listener({ ...run });
+    }
+    this.emitMessage(run, `${resume ? "Resuming" : "Starting"} run ${run.id} → ${run.outputDir}`);
+
+    const orchestrator = entry.orchestrator;
+    orchestrator.start(spec).then(
+      () => {
+        const drained = orchestrator.getSchedulerMode() === "draining";
+        run.status = run.status === "stopping" || drained ? "stopped" : "completed";
+        run.endedAt = Date.now();
+      },
+      (error: unknown) => {
+        const wasStopping = run.status === "stopping";
+        run.status = wasStopping ? "stopped" : "failed";
+        run.endedAt = Date.now();
+        if (wasStopping) return;
+
+        run.error = errorMessage(error);
+        this.eventBus.emit({
+          type: "agent:error",
+          agentId: "run-manager",
+          agentRole: "system",
+          timestamp: Date.now(),
+          summary: `Run ${run.id} failed: ${run.error}`,
+          data: { runId: run.id },
+        });
+      },
+    );
+  }
+
+  private assertNoActiveRun(): void {
+    const active = this.getActiveRun();
+    if (active) {
+      throw new Error(`Run ${active.id} is still ${active.status}; stop it before starting another`);
+    }
+  }
+
+  private getEntryOrThrow(runId: string): RunEntry {
+    const entry = this.entries.get(runId);
+    if (!entry) {
+      throw new Error(`Run not found: ${runId}`);
+    }
+    return entry;
+  }
+
+  private emitMessage(run: OrchestrationRun, summary: string): void {
+    this.eventBus.emit({
+      type: "agent:message",
+      agentId: "run-manager",
+      agentRole: "system",
+      timestamp: Date.now(),
+      summary,
+      data: { runId: run.id, status: run.status },
+    });
+  }
+}
+
+/**
+ * Fresh runs need an empty (or missing) output directory; resumed runs need
+ * existing kanban state in it.
+ */
+export async function assertOutputMode(outputDir: string, resume: boolean): Promise<void> {
+  const outputExists = await pathExists(outputDir);
+  const kanbanPath = join(outputDir, ".arkaledge", "kanban.json");
+  const hasKanban = await pathExists(kanbanPath) || await pathExists(join(outputDir, ".arkaledge", "kanban.db"));
+
+  if (resume) {
+    if (!outputExists || !hasKanban) {
+      throw new Error(
+        `Cannot resume: expected existing run state at ${kanbanPath}. `
+        + "Use a prior output directory or run without --resume for a fresh project.",
+      );
+    }
+    return;
+  }
+
+  if (!outputExists) return;
+
+  const entries = await readdir(outputDir);
+  if (entries.length > 0) {
+    throw new Error(
+      `Output directory is not empty: ${outputDir}. `
+      + "Use a fresh --output directory, or rerun with --resume to continue an existing run.",
+    );
+  }
+}
+
+function isActive(run: OrchestrationRun): boolean {
+  return run.status === "running" || run.status === "stopping";
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { consumeStreamWithWatchdog, RuntimeWatchdogError } from "./runtime-watchdog.js";
+import type { AgentMessage } from "./types.js";
+
+const IDLE_TIMEOUT_MS = 100;
+const TOTAL_TIMEOUT_MS = 400;
+
+describe("consumeStreamWithWatchdog", () => {
+  it("delivers every message of a stream that finishes in time", async () => {
+    const received: string[] = [];
+    await consumeStreamWithWatchdog(messages(["a", "b", "c"], 5), {
+      idleTimeoutMs: IDLE_TIMEOUT_MS,
+      totalTimeoutMs: TOTAL_TIMEOUT_MS,
+      onMessage: (message) => received.push(message.content),
+    });
+    expect(received).toEqual(["a", "b", "c"]);
+  });
+
+  it("fails with an idle timeout when the stream goes quiet", async () => {
+    const error = await watchdogError(messages(["a"], IDLE_TIMEOUT_MS * 3));
+    expect(error.kind).toBe("idle");
+  });
+
+  it("fails with a total timeout when a chatty stream runs too long", async () => {
+    const error = await watchdogError(messages(Array.from({ length: 100 }, String), 10));
+    expect(error.kind).toBe("total");
+  });
+
+  it("resets the idle timer on every message", async () => {
+    // Each gap stays under the idle timeout while the sum exceeds it
+    const received: string[] = [];
+    await consumeStreamWithWatchdog(messages(["a", "b", "c", "d"], IDLE_TIMEOUT_MS / 2), {
+      idleTimeoutMs: IDLE_TIMEOUT_MS,
+      totalTimeoutMs: TOTAL_TIMEOUT_MS,
+      onMessage: (message) => received.push(message.content),
+    });
+    expect(received).toHaveLength(4);
+  });
+
+  it("reports the configured timeout in the error", async () => {
+    const error = await watchdogError(messages(["a"], IDLE_TIMEOUT_MS * 3));
+    expect(error.message).toBe(`Runtime stream idle timeout after ${IDLE_TIMEOUT_MS}ms`);
+  });
+});
+
+async function* messages(contents: string[], delayMs: number): AsyncIterable<AgentMessage> {
+  for (const content of contents) {
+    await sleep(delayMs);
+    yield { type: "text", content, timestamp: Date.now() };
+  }
+}
+
+async function watchdogError(stream: AsyncIterable<AgentMessage>): Promise<RuntimeWatchdogError> {
+  try {
+    await consumeStreamWithWatchdog(stream, {
+      idleTimeoutMs: IDLE_TIMEOUT_MS,
+      totalTimeoutMs: TOTAL_TIMEOUT_MS,
+      onMessage: () => undefined,
+    });
+  } catch (error) {
+    if (error instanceof RuntimeWatchdogError) return error;
+    throw error;
+  }
+  throw new Error("Expected the watchdog to time out");
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
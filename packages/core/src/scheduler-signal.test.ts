@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { EventBus } from "./event-bus.js";
+import { SchedulerSignal } from "./scheduler-signal.js";
+import type { EventType } from "./types.js";
+
+describe("SchedulerSignal", () => {
+  let eventBus: EventBus;
+  let signal: SchedulerSignal;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    eventBus = new EventBus();
+    signal = new SchedulerSignal(eventBus);
+    signal.attach();
+  });
+
+  afterEach(() => {
+    signal.detach();
+    vi.useRealTimers();
+  });
+
+  it("wakes a waiting loop on a task event", async () => {
+    const woke = vi.fn();
+    const waiting = signal.wait(10_000).then(woke);
+    emit("task:status_changed");
+    await waiting;
+    expect(woke).toHaveBeenCalled();
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("ignores agent chatter", async () => {
+    const woke = vi.fn();
+    void signal.wait(10_000).then(woke);
+    emit("agent:message");
+    await vi.advanceTimersByTimeAsync(9_999);
+    expect(woke).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(woke).toHaveBeenCalled();
+  });
+
+  it("returns at once for a signal that arrived while the loop was busy", async () => {
+    emit("task:created");
+    await signal.wait(10_000);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it("consumes the pending signal", async () => {
+    signal.notify();
+    await signal.wait(10_000);
+    const woke = vi.fn();
+    void signal.wait(10_000).then(woke);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(woke).not.toHaveBeenCalled();
+    signal.notify();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(woke).toHaveBeenCalled();
+  });
+
+  it("stops listening once detached", async () => {
+    signal.detach();
+    const woke = vi.fn();
+    void signal.wait(10_000).then(woke);
+    emit("task:created");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(woke).not.toHaveBeenCalled();
+    signal.notify();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(woke).toHaveBeenCalled();
+  });
+
+  function emit(type: EventType): void {
+    eventBus.emit({ type, agentId: "test", agentRole: "system", timestamp: Date.now(), summary: type });
+  }
+});
@@ -0,0 +1,64 @@
+import type { EventBus } from "./event-bus.js";
+import type { AgentEvent, EventType } from "./types.js";
+
+/**
+ * Events after which new work may be schedulable. `agent:message` and
+ * `agent:started` are chatter (including the loop's own status updates) and
+ * do not wake the loop.
+ */
+const WAKE_EVENTS: ReadonlySet<EventType> = new Set<EventType>([
+  "task:created",
+  "task:assigned",
+  "task:status_changed",
+  "task:updated",
+  "agent:completed",
+  "agent:error",
+  "review:approved",
+  "review:rejected",
+]);
+
+/**
+ * Wakes the Scrum Master loop when the board or an agent changes, so work is
+ * assigned as soon as it becomes possible instead of on the next poll. A
+ * signal that arrives while the loop is busy is kept and ends the next `wait`
+ * at once. The `wait` timeout covers changes that emit no event, such as
+ * another process editing kanban.json or a health probe cooling down.
+ */
+export class SchedulerSignal {
+  private pending = false;
+  private wake?: () => void;
+  private readonly onEvent = (event: AgentEvent): void => {
+    if (WAKE_EVENTS.has(event.type)) this.notify();
+  };
+
+  constructor(private eventBus: EventBus) {}
+
+  /** Start listening for wake events on the bus. */
+  attach(): void {
+    this.eventBus.on("*", this.onEvent);
+  }
+
+  detach(): void {
+    this.eventBus.off("*", this.onEvent);
+  }
+
+  notify(): void {
+    this.pending = true;
+    this.wake?.();
+  }
+
+  /** Resolve on the next signal (or one already pending), or after `timeoutMs`. */
+  async wait(timeoutMs: number): Promise<void> {
+    if (!this.pending) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(() => this.wake?.(), timeoutMs);
+        this.wake = () => {
+          clearTimeout(timer);
+          this.wake = undefined;
+          resolve();
+        };
+      });
+    }
+    this.pending = false;
+  }
+}
@@ -2,6 +2,35 @@
 // These are dynamically imported at runtime; these shims prevent TS errors.
 
 declare module "@anthropic-ai/claude-agent-sdk" {
+  export interface CallToolResult {
+    content: Array<{ type: "text"; text: string }>;
+    isError?: boolean;
+  }
+
+  export interface SdkMcpToolDefinition {
+    name: string;
+    description: string;
+  }
+
+  export interface McpSdkServerConfigWithInstance {
+    type: "sdk";
+    name: string;
+    instance: unknown;
+  }
+
+  export function tool(
+    name: string,
+    description: string,
+    inputSchema: Record<string, unknown>,
+    handler: (args: Record<string, unknown>, extra: unknown) => Promise<CallToolResult>,
+  ): SdkMcpToolDefinition;
+
+  export function createSdkMcpServer(options: {
+    name: string;
+    version?: string;
+    tools?: SdkMcpToolDefinition[];
+  }): McpSdkServerConfigWithInstance;
+
   export function query(options: {
     prompt: string;
     options: {
@@ -10,6 +39,7 @@ declare module "@anthropic-ai/claude-agent-sdk" {
       model?: string;
       cwd?: string;
       abortController?: AbortController;
+      mcpServers?: Record<string, McpSdkServerConfigWithInstance>;
     };
   }): AsyncIterable<unknown>;
 }
@@ -0,0 +1,87 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, stat, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { nanoid } from "nanoid";
+import lockfile from "proper-lockfile";
+import { upgradeReviewComments } from "../review-comments.js";
+import type { KanbanState } from "../types.js";
+import { type BoardUpdate, KANBAN_DIR, type KanbanStorage } from "./kanban-storage.js";
+import { enqueueWrite } from "./write-queue.js";
+
+export const KANBAN_JSON_FILE = "kanban.json";
+const LOCK_OPTIONS = { retries: { retries: 5, minTimeout: 100, randomize: true } };
+
+/** Parsed board plus the file identity it was read from. */
+interface BoardSnapshot {
+  state: KanbanState;
+  version: string;
+}
+
+/**
+ * The default backend: the whole board in `.arkaledge/kanban.json`, rewritten
+ * under a file lock on every update. The parsed board is kept in memory and
+ * re-read only when the file changes on disk (another process wrote it), so
+ * reads cost one `stat`.
+ */
+export class JsonKanbanStorage implements KanbanStorage {
+  private dirPath: string;
+  private filePath: string;
+  private snapshot?: BoardSnapshot;
+
+  constructor(projectDir: string) {
+    this.dirPath = join(projectDir, KANBAN_DIR);
+    this.filePath = join(this.dirPath, KANBAN_JSON_FILE);
+  }
+
+  async init(): Promise<void> {
+    await mkdir(this.dirPath, { recursive: true });
+    if (!existsSync(this.filePath)) {
+      const initial: KanbanState = {
+        projectId: nanoid(8),
+        tasks: [],
+        lastUpdated: Date.now(),
+      };
+      await writeFile(this.filePath, JSON.stringify(initial, null, 2));
+    }
+  }
+
+  async read(): Promise<KanbanState> {
+    return structuredClone(await this.cached());
+  }
+
+  async update<T>(fn: BoardUpdate<T>): Promise<T> {
+    return enqueueWrite(this.filePath, async () => {
+      const release = await lockfile.lock(this.filePath, LOCK_OPTIONS);
+      try {
+        const { state, result } = await fn(await this.read());
+        await this.write(state);
+        return result;
+      } finally {
+        await release();
+      }
+    });
+  }
+
+  private async write(state: KanbanState): Promise<void> {
+    state.lastUpdated = Date.now();
+    await writeFile(this.filePath, JSON.stringify(state, null, 2));
+    this.snapshot = { state: structuredClone(state), version: await this.fileVersion() };
+  }
+
+  /** The cached board, re-parsed when kanban.json changed since it was read. Never hand it out uncopied. */
+  private async cached(): Promise<KanbanState> {
+    const version = await this.fileVersion();
+    if (this.snapshot?.version === version) return this.snapshot.state;
+
+    const raw = await readFile(this.filePath, "utf-8");
+    const state = JSON.parse(raw) as KanbanState;
+    for (const task of state.tasks) upgradeReviewComments(task, state.lastUpdated);
+    this.snapshot = { state, version };
+    return state;
+  }
+
+  private async fileVersion(): Promise<string> {
+    const stats = await stat(this.filePath);
+    return `${stats.ino}:${stats.size}:${stats.mtimeMs}`;
+  }
+}
@@ -0,0 +1,22 @@
+import type { KanbanState } from "../types.js";
+
+/** Board files live under `<projectDir>/.arkaledge/`. */
+export const KANBAN_DIR = ".arkaledge";
+
+/** A read-modify-write step: gets the current board, returns the board to persist. */
+export type BoardUpdate<T> = (state: KanbanState) => Promise<{ state: KanbanState; result: T }>;
+
+/**
+ * Where `KanbanManager` keeps the board. Implementations serialize writers in
+ * this process and guard against other processes (file lock, database
+ * transaction); `update` must persist all of a step's changes or none.
+ */
+export interface KanbanStorage {
+  /** Create an empty board if none exists, migrating older formats. */
+  init(): Promise<void>;
+
+  /** The whole board. The caller owns the returned copy. */
+  read(): Promise<KanbanState>;
+
+  update<T>(fn: BoardUpdate<T>): Promise<T>;
+}
@@ -0,0 +1,125 @@
+import { existsSync } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import Database from "better-sqlite3";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { EventBus } from "../event-bus.js";
+import { KanbanManager } from "../kanban.js";
+import type { Task } from "../types.js";
+import { JsonKanbanStorage } from "./json-storage.js";
+import { SqliteKanbanStorage } from "./sqlite-storage.js";
+import { createKanbanStorage } from "./storage-factory.js";
+
+const CONCURRENT_WRITERS = 12;
+
+describe("SqliteKanbanStorage", () => {
+  let projectDir: string;
+  let kanban: KanbanManager;
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), "arkaledge-sqlite-"));
+    kanban = sqliteManager();
+    await kanban.init();
+  });
+
+  afterEach(async () => {
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it("keeps history entries and review comments in their own tables", async () => {
+    const task = await addTask(kanban, "Stored");
+    await kanban.moveTask(task.id, "in_progress", "eng-1", "Started");
+    await kanban.addReviewComment(task.id, { body: "Off by one", file: "a.ts", startLine: 3 }, "rev-1");
+
+    expect(count("tasks")).toBe(1);
+    expect(count("task_history")).toBe(3);
+    expect(count("review_comments")).toBe(1);
+    const [stored] = await sqliteManager().getAllTasks();
+    expect(stored.history.map((entry) => entry.action)).toEqual(["created", "status_changed", "review_comment"]);
+    expect(stored.reviewComments).toMatchObject([{ body: "Off by one", file: "a.ts", startLine: 3, reviewerId: "rev-1" }]);
+  });
+
+  it("appends history without rewriting earlier rows", async () => {
+    const task = await addTask(kanban, "Busy");
+    const firstRowId = rowIds("task_history")[0];
+    await kanban.moveTask(task.id, "in_progress", "eng-1");
+    await kanban.moveTask(task.id, "review", "eng-1");
+    expect(rowIds("task_history")[0]).toBe(firstRowId);
+    expect(count("task_history")).toBe(3);
+  });
+
+  it("serializes writers from separate managers on the same board", async () => {
+    const other = sqliteManager();
+    await Promise.all(
+      Array.from({ length: CONCURRENT_WRITERS }, (_, i) => addTask(i % 2 === 0 ? kanban : other, `Task ${i}`)),
+    );
+    expect(await kanban.getAllTasks()).toHaveLength(CONCURRENT_WRITERS);
+  });
+
+  it("sees tasks committed through another connection", async () => {
+    await addTask(kanban, "Cached");
+    await addTask(sqliteManager(), "Written elsewhere");
+    expect((await kanban.getAllTasks()).map((task) => task.title)).toEqual(["Cached", "Written elsewhere"]);
+  });
+
+  it("leaves the board unchanged when an update fails", async () => {
+    const task = await addTask(kanban, "Untouched");
+    await expect(kanban.moveTask("missing", "done", "eng-1")).rejects.toThrow("Task not found: missing");
+    expect((await sqliteManager().getAllTasks()).map(({ id, status }) => ({ id, status }))).toEqual([
+      { id: task.id, status: "backlog" },
+    ]);
+  });
+
+  it("imports an existing kanban.json once and moves it aside", async () => {
+    const legacyDir = await mkdtemp(join(tmpdir(), "arkaledge-sqlite-legacy-"));
+    try {
+      const json = new KanbanManager(legacyDir, new EventBus(), new JsonKanbanStorage(legacyDir));
+      await json.init();
+      const task = await addTask(json, "Legacy", []);
+      await json.moveTask(task.id, "review", "eng-1");
+      await json.addReviewComment(task.id, "Needs tests", "rev-1");
+      const before = await json.getAllTasks();
+
+      const migrated = new KanbanManager(legacyDir, new EventBus(), new SqliteKanbanStorage(legacyDir));
+      await migrated.init();
+
+      expect(await migrated.getAllTasks()).toEqual(before);
+      const arkaledgeDir = join(legacyDir, ".arkaledge");
+      expect([existsSync(join(arkaledgeDir, "kanban.json")), existsSync(join(arkaledgeDir, "kanban.json.migrated"))])
+        .toEqual([false, true]);
+      expect(createKanbanStorage(legacyDir)).toBeInstanceOf(SqliteKanbanStorage);
+    } finally {
+      await rm(legacyDir, { recursive: true, force: true });
+    }
+  });
+
+  function sqliteManager(): KanbanManager {
+    return new KanbanManager(projectDir, new EventBus(), new SqliteKanbanStorage(projectDir));
+  }
+
+  function count(table: string): number {
+    return rowIds(table).length;
+  }
+
+  function rowIds(table: string): number[] {
+    const db = new Database(join(projectDir, ".arkaledge", "kanban.db"), { readonly: true });
+    try {
+      return (db.prepare(`SELECT rowid FROM ${table} ORDER BY rowid`).all() as Array<{ rowid: number }>)
+        .map((row) => row.rowid);
+    } finally {
+      db.close();
+    }
+  }
+});
+
+function addTask(kanban: KanbanManager, title: string, acceptanceCriteria: string[] = ["Works"]): Promise<Task> {
+  return kanban.addTask({
+    title,
+    description: "",
+    acceptanceCriteria,
+    status: "backlog",
+    priority: "medium",
+    createdBy: "test",
+  });
+}
@@ -0,0 +1,314 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rename } from "node:fs/promises";
+import { join } from "node:path";
+import type Database from "better-sqlite3";
+import { nanoid } from "nanoid";
+import { upgradeReviewComments } from "../review-comments.js";
+import type { KanbanState, ReviewComment, Task, TaskEvent } from "../types.js";
+import { KANBAN_JSON_FILE } from "./json-storage.js";
+import { type BoardUpdate, KANBAN_DIR, type KanbanStorage } from "./kanban-storage.js";
+import { enqueueWrite } from "./write-queue.js";
+
+export const KANBAN_SQLITE_FILE = "kanban.db";
+const BUSY_TIMEOUT_MS = 5000;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS tasks (
+  id TEXT PRIMARY KEY,
+  position INTEGER NOT NULL,
+  status TEXT NOT NULL,
+  data TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS task_history (
+  task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  seq INTEGER NOT NULL,
+  timestamp INTEGER NOT NULL,
+  agent_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  detail TEXT,
+  PRIMARY KEY (task_id, seq)
+);
+CREATE TABLE IF NOT EXISTS review_comments (
+  task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  data TEXT NOT NULL,
+  PRIMARY KEY (task_id, id)
+);
+CREATE INDEX IF NOT EXISTS tasks_status ON tasks(status);
+`;
+
+interface TaskRow {
+  id: string;
+  position: number;
+  data: string;
+}
+
+interface HistoryRow {
+  task_id: string;
+  timestamp: number;
+  agent_id: string;
+  action: string;
+  detail: string | null;
+}
+
+interface CommentRow {
+  task_id: string;
+  id: string;
+  position: number;
+  data: string;
+}
+
+/** What is stored for one task, so an update writes only the rows it changed. */
+interface StoredTask {
+  data: string;
+  position: number;
+  historyLength: number;
+  /** Comment ID → position and JSON. */
+  comments: Map<string, string>;
+}
+
+interface BoardSnapshot {
+  state: KanbanState;
+  stored: Map<string, StoredTask>;
+  /** SQLite's `data_version`; it changes when another connection commits. */
+  dataVersion: number;
+}
+
+/**
+ * SQLite backend (`storage: sqlite`) in `.arkaledge/kanban.db`, using the
+ * optional `better-sqlite3` package. Task fields, history entries and review
+ * comments live in separate tables. An update runs in one `BEGIN IMMEDIATE`
+ * transaction and writes only the rows it changed; history is appended, never
+ * rewritten, so writes stay small however long it grows. On first open an
+ * existing kanban.json is imported and renamed to `kanban.json.migrated`.
+ */
+export class SqliteKanbanStorage implements KanbanStorage {
+  private dirPath: string;
+  private dbPath: string;
+  private opening?: Promise<Database.Database>;
+  private snapshot?: BoardSnapshot;
+
+  constructor(projectDir: string) {
+    this.dirPath = join(projectDir, KANBAN_DIR);
+    this.dbPath = join(this.dirPath, KANBAN_SQLITE_FILE);
+  }
+
+  async init(): Promise<void> {
+    await mkdir(this.dirPath, { recursive: true });
+    const db = await this.open();
+    if (readMeta(db, "project_id")) return;
+
+    const legacyPath = join(this.dirPath, KANBAN_JSON_FILE);
+    const legacy = existsSync(legacyPath) ? await readLegacyBoard(legacyPath) : undefined;
+    const migrated = await enqueueWrite(this.dbPath, async () => transaction(db, () => {
+      // Another process may have created or migrated the board meanwhile
+      if (readMeta(db, "project_id")) return false;
+      const state = legacy ?? { projectId: nanoid(8), tasks: [], lastUpdated: Date.now() };
+      this.snapshot = { state, stored: writeBoard(db, state, new Map()), dataVersion: dataVersion(db) };
+      return legacy !== undefined;
+    }));
+    if (migrated) {
+      await rename(legacyPath, `${legacyPath}.migrated`);
+    }
+  }
+
+  async read(): Promise<KanbanState> {
+    return structuredClone(this.current(await this.open()).state);
+  }
+
+  async update<T>(fn: BoardUpdate<T>): Promise<T> {
+    const db = await this.open();
+    return enqueueWrite(this.dbPath, async () => {
+      db.exec("BEGIN IMMEDIATE");
+      try {
+        const before = this.current(db);
+        const { state, result } = await fn(structuredClone(before.state));
+        state.lastUpdated = Date.now();
+        const stored = writeBoard(db, state, before.stored);
+        db.exec("COMMIT");
+        this.snapshot = { state: structuredClone(state), stored, dataVersion: dataVersion(db) };
+        return result;
+      } catch (error) {
+        if (db.inTransaction) db.exec("ROLLBACK");
+        throw error;
+      }
+    });
+  }
+
+  /** The cached board, reloaded when another connection committed since it was read. */
+  private current(db: Database.Database): BoardSnapshot {
+    const version = dataVersion(db);
+    if (this.snapshot?.dataVersion === version) return this.snapshot;
+    this.snapshot = { ...loadBoard(db), dataVersion: version };
+    return this.snapshot;
+  }
+
+  private open(): Promise<Database.Database> {
+    this.opening ??= openDatabase(this.dbPath);
+    return this.opening;
+  }
+}
+
+async function openDatabase(path: string): Promise<Database.Database> {
+  let Sqlite: typeof Database;
+  try {
+    ({ default: Sqlite } = await import("better-sqlite3"));
+  } catch {
+    throw new Error("storage: sqlite needs better-sqlite3. Run: npm install better-sqlite3");
+  }
+
+  const db = new Sqlite(path, { timeout: BUSY_TIMEOUT_MS });
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  db.exec(SCHEMA);
+  return db;
+}
+
+function transaction<T>(db: Database.Database, fn: () => T): T {
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    const result = fn();
+    db.exec("COMMIT");
+    return result;
+  } catch (error) {
+    if (db.inTransaction) db.exec("ROLLBACK");
+    throw error;
+  }
+}
+
+async function readLegacyBoard(path: string): Promise<KanbanState> {
+  const state = JSON.parse(await readFile(path, "utf-8")) as KanbanState;
+  for (const task of state.tasks) upgradeReviewComments(task, state.lastUpdated);
+  return state;
+}
+
+function dataVersion(db: Database.Database): number {
+  return db.pragma("data_version", { simple: true }) as number;
+}
+
+function readMeta(db: Database.Database, key: string): string | undefined {
+  const row = db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined;
+  return row?.value;
+}
+
+function loadBoard(db: Database.Database): Omit<BoardSnapshot, "dataVersion"> {
+  const taskRows = db.prepare("SELECT id, position, data FROM tasks ORDER BY position").all() as TaskRow[];
+  const historyRows = db.prepare(
+    "SELECT task_id, timestamp, agent_id, action, detail FROM task_history ORDER BY task_id, seq",
+  ).all() as HistoryRow[];
+  const commentRows = db.prepare(
+    "SELECT task_id, id, position, data FROM review_comments ORDER BY task_id, position",
+  ).all() as CommentRow[];
+
+  const history = groupBy(historyRows, (row): TaskEvent => ({
+    timestamp: row.timestamp,
+    agentId: row.agent_id,
+    action: row.action,
+    ...(row.detail === null ? {} : { detail: row.detail }),
+  }));
+  const comments = groupBy(commentRows, (row) => row);
+
+  const stored = new Map<string, StoredTask>();
+  const tasks = taskRows.map((row): Task => {
+    const taskHistory = history.get(row.id) ?? [];
+    const taskComments = comments.get(row.id) ?? [];
+    stored.set(row.id, {
+      data: row.data,
+      position: row.position,
+      historyLength: taskHistory.length,
+      comments: new Map(taskComments.map((comment) => [comment.id, `${comment.position}:${comment.data}`])),
+    });
+    return {
+      ...(JSON.parse(row.data) as Omit<Task, "history" | "reviewComments">),
+      history: taskHistory,
+      ...(taskComments.length > 0
+        ? { reviewComments: taskComments.map((comment) => JSON.parse(comment.data) as ReviewComment) }
+        : {}),
+    };
+  });
+
+  return {
+    state: {
+      projectId: readMeta(db, "project_id") ?? "",
+      tasks,
+      lastUpdated: Number(readMeta(db, "last_updated") ?? 0),
+    },
+    stored,
+  };
+}
+
+/**
+ * Write the rows of `state` that differ from `previous` (what the database
+ * holds now) and return the new stored form. Call inside a transaction.
+ */
+function writeBoard(db: Database.Database, state: KanbanState, previous: Map<string, StoredTask>): Map<string, StoredTask> {
+  const upsertTask = db.prepare(`
+    INSERT INTO tasks (id, position, status, data) VALUES (?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET position = excluded.position, status = excluded.status, data = excluded.data
+  `);
+  const insertHistory = db.prepare(
+    "INSERT INTO task_history (task_id, seq, timestamp, agent_id, action, detail) VALUES (?, ?, ?, ?, ?, ?)",
+  );
+  const upsertComment = db.prepare(`
+    INSERT INTO review_comments (task_id, id, position, data) VALUES (?, ?, ?, ?)
+    ON CONFLICT(task_id, id) DO UPDATE SET position = excluded.position, data = excluded.data
+  `);
+
+  const next = new Map<string, StoredTask>();
+  for (const [position, task] of state.tasks.entries()) {
+    const { history, reviewComments, ...fields } = task;
+    const data = JSON.stringify(fields);
+    const before = previous.get(task.id);
+    if (!before || before.data !== data || before.position !== position) {
+      upsertTask.run(task.id, position, task.status, data);
+    }
+
+    let seq = before?.historyLength ?? 0;
+    if (history.length < seq) {
+      db.prepare("DELETE FROM task_history WHERE task_id = ?").run(task.id);
+      seq = 0;
+    }
+    for (; seq < history.length; seq++) {
+      const entry = history[seq];
+      insertHistory.run(task.id, seq, entry.timestamp, entry.agentId, entry.action, entry.detail ?? null);
+    }
+
+    const comments = new Map<string, string>();
+    for (const [index, comment] of (reviewComments ?? []).entries()) {
+      const json = JSON.stringify(comment);
+      comments.set(comment.id, `${index}:${json}`);
+      if (before?.comments.get(comment.id) !== `${index}:${json}`) {
+        upsertComment.run(task.id, comment.id, index, json);
+      }
+    }
+    for (const id of before?.comments.keys() ?? []) {
+      if (!comments.has(id)) db.prepare("DELETE FROM review_comments WHERE task_id = ? AND id = ?").run(task.id, id);
+    }
+
+    next.set(task.id, { data, position, historyLength: history.length, comments });
+  }
+
+  for (const id of previous.keys()) {
+    if (!next.has(id)) db.prepare("DELETE FROM tasks WHERE id = ?").run(id);
+  }
+
+  const setMeta = db.prepare("INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value");
+  setMeta.run("project_id", state.projectId);
+  setMeta.run("last_updated", String(state.lastUpdated));
+  return next;
+}
+
+function groupBy<R extends { task_id: string }, V>(rows: R[], map: (row: R) => V): Map<string, V[]> {
+  const groups = new Map<string, V[]>();
+  for (const row of rows) {
+    const group = groups.get(row.task_id) ?? [];
+    group.push(map(row));
+    groups.set(row.task_id, group);
+  }
+  return groups;
+}
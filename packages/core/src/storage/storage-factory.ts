@@ -0,0 +1,16 @@
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import type { KanbanStorageBackend } from "../types.js";
+import { JsonKanbanStorage } from "./json-storage.js";
+import { KANBAN_DIR, type KanbanStorage } from "./kanban-storage.js";
+import { KANBAN_SQLITE_FILE, SqliteKanbanStorage } from "./sqlite-storage.js";
+
+/**
+ * Creates the board storage for `projectDir`. Without an explicit `backend`
+ * a project that already has a kanban.db keeps using SQLite; everything else
+ * uses kanban.json.
+ */
+export function createKanbanStorage(projectDir: string, backend?: KanbanStorageBackend): KanbanStorage {
+  const resolved = backend ?? (existsSync(join(projectDir, KANBAN_DIR, KANBAN_SQLITE_FILE)) ? "sqlite" : "json");
+  return resolved === "sqlite" ? new SqliteKanbanStorage(projectDir) : new JsonKanbanStorage(projectDir);
+}
@@ -0,0 +1,17 @@
+/**
+ * Pending writes per board file. Writers in this process queue up here so the
+ * file lock (or database lock) only has to arbitrate between processes.
+ */
+const writeQueues = new Map<string, Promise<void>>();
+
+export async function enqueueWrite<T>(path: string, fn: () => Promise<T>): Promise<T> {
+  const previous = writeQueues.get(path) ?? Promise.resolve();
+  const run = previous.then(fn);
+  const settled = run.then(() => undefined, () => undefined);
+  writeQueues.set(path, settled);
+  try {
+    return await run;
+  } finally {
+    if (writeQueues.get(path) === settled) writeQueues.delete(path);
+  }
+}
@@ -37,7 +37,7 @@ export interface RunOptions {
 
 // ─── Agent Config ───
 
-export type SdkType = "claude" | "codex";
+export type SdkType = "claude" | "codex" | "mock";
 export type AgentRole = "product-manager" | "scrum-master" | "engineer" | "reviewer";
 
 export interface AgentConfig {
@@ -46,6 +46,8 @@ export interface AgentConfig {
   sdk: SdkType;
   model: string;
   tools: string[];
+  /** Scripted message fixture replayed by the `mock` SDK. */
+  fixture?: string;
 }
 
 // ─── Kanban ───
@@ -73,6 +75,101 @@ export interface TaskArtifact {
   metadata?: Record<string, unknown>;
 }
 
+export type ReviewVerdict = "approved" | "rejected";
+
+export type ReviewSeverity = "blocker" | "major" | "nit";
+
+export type ReviewCategory =
+  | "correctness"
+  | "tests"
+  | "security"
+  | "error-handling"
+  | "performance"
+  | "style"
+  | "other";
+
+/** A comment as a reviewer or human writes it. Location is optional; lines refer to the new side of the diff. */
+export interface NewReviewComment {
+  body: string;
+  file?: string;
+  startLine?: number;
+  endLine?: number;
+  severity?: ReviewSeverity;
+  category?: ReviewCategory;
+}
+
+/** A stored review comment. Stays on the task until a later review verifies it as resolved. */
+export interface ReviewComment {
+  id: string;
+  reviewerId: string;
+  body: string;
+  file?: string;
+  startLine?: number;
+  endLine?: number;
+  severity: ReviewSeverity;
+  category: ReviewCategory;
+  resolved: boolean;
+  createdAt: number;
+  resolvedAt?: number;
+}
+
+/** Which changed files a review actually looked at. */
+export interface ReviewCoverage {
+  reviewed: string[];
+  unreviewed: string[];
+}
+
+/** One reviewer's verdict from the latest review round. */
+export interface ReviewVote {
+  reviewerId: string;
+  sdk: SdkType;
+  model: string;
+  verdict: ReviewVerdict;
+  comments: NewReviewComment[];
+  /** IDs of earlier comments this reviewer verified as fixed. */
+  resolved?: string[];
+  /** Set when the reviewer rejected over a security problem. */
+  security?: boolean;
+  coverage?: ReviewCoverage;
+  timestamp: number;
+}
+
+/** One region git could not combine, with both sides as they stood at the conflict. */
+export interface ConflictHunk {
+  file: string;
+  /** Line of the `<<<<<<<` marker in the conflicted file. */
+  startLine: number;
+  /** The task branch's side. */
+  branch: string;
+  /** main's side. */
+  main: string;
+}
+
+/**
+ * Set when combining a task branch with main hit conflicts, and cleared once
+ * the branch syncs cleanly again.
+ */
+export interface MergeConflictReport {
+  /** Whether the sync before review or the step merging into main found the conflict. */
+  stage: "review" | "merge";
+  files: string[];
+  /** Conflict regions in text files, capped so the report fits in a prompt. */
+  hunks: ConflictHunk[];
+  /** Conflicts found in a row without a clean sync in between. */
+  attempts: number;
+  detectedAt: number;
+}
+
+/** Pull request opened for an approved task when `auto_merge` is "pull_request". */
+export interface TaskPullRequest {
+  provider: PullRequestProviderName;
+  number: number;
+  url: string;
+  state: "open" | "merged" | "closed";
+  /** Review comment IDs already posted on the pull request. */
+  mirroredCommentIds: string[];
+}
+
 export interface Task {
   id: string;
   title: string;
@@ -87,12 +184,23 @@ export interface Task {
   retryCount: number;
   history: TaskEvent[];
   createdBy: string;
-  reviewComments?: string[];
+  reviewComments?: ReviewComment[];
+  /** Votes from the most recent review round; every round is also in `history`. */
+  reviewVotes?: ReviewVote[];
+  mergeConflict?: MergeConflictReport;
+  pullRequest?: TaskPullRequest;
   dependsOn?: string[];
+  /** The permanently blocked task this one waits on; set when a block cascades to dependents. */
+  blockedBy?: string;
   contextFingerprint?: string;
   artifacts?: TaskArtifact[];
+  /** Tokens and cost spent on this task by engineers and reviewers. */
+  usage?: UsageTotals;
 }
 
+/** Task fields a human may edit through the API without touching workflow state. */
+export type TaskEditableFields = Partial<Pick<Task, "title" | "description" | "acceptanceCriteria" | "priority" | "epic">>;
+
 export interface KanbanState {
   projectId: string;
   tasks: Task[];
@@ -101,11 +209,102 @@ export interface KanbanState {
 
 // ─── Workflow Config ───
 
+export type ScrumMasterMode = "rules" | "llm";
+
+/** Where the board is stored: `.arkaledge/kanban.json` or `.arkaledge/kanban.db`. */
+export type KanbanStorageBackend = "json" | "sqlite";
+
+/** How task branches pick up commits that landed on main since they were created. */
+export type BranchSyncStrategy = "merge" | "rebase" | "none";
+
+/**
+ * How votes combine when several reviewers look at one task. `security_veto`
+ * is a majority vote that any security-flagged rejection overrides.
+ */
+export type ReviewPolicy = "unanimous" | "majority" | "security_veto";
+
+/** How a diff too large for one prompt is split across several review passes. */
+export interface ReviewChunkingConfig {
+  /** Largest diff sent in one prompt (default 20000 characters). */
+  max_chunk_chars: number;
+  /** Passes per review (default 8); files beyond them are listed for the reviewer to pull itself. */
+  max_chunks: number;
+}
+
+/** `true` merges locally, "pull_request" pushes the branch and opens a pull request instead. */
+export type AutoMergeMode = boolean | "pull_request";
+
+export type PullRequestProviderName = "github" | "gitlab" | "gitea";
+
+export interface RemoteConfig {
+  /** Git remote task branches are pushed to (default "origin"). */
+  name: string;
+  /** Added to, or updated on, the project repository when set. */
+  url?: string;
+  /** Branch pull requests target (default "main"). */
+  base_branch: string;
+  provider: PullRequestProviderName;
+  /** `owner/repo`, or the project path on GitLab. */
+  repository: string;
+  /** REST API root; defaults to the public GitHub or GitLab API, required for Gitea. */
+  api_url?: string;
+  /** Environment variable holding the API token (default ARKALEDGE_GIT_TOKEN). */
+  token_env: string;
+  /** How often open pull requests are checked for a merge (default 30000 ms). */
+  poll_interval_ms: number;
+}
+
+export interface MergeQueueConfig {
+  /** Run the project's test command on the merged result before main moves (default true). */
+  verify: boolean;
+  /** Limit for one verification run (default 600000 ms). */
+  timeout_ms: number;
+}
+
+export interface ReviewQuorumConfig {
+  /** Reviewers per task (default 1). */
+  reviewers: number;
+  policy: ReviewPolicy;
+  /** Reviewers for `priority: high` tasks; defaults to `reviewers`. */
+  high_priority_reviewers?: number;
+}
+
 export interface WorkflowConfig {
   columns: TaskStatus[];
   max_retries: number;
   review_required: boolean;
-  auto_merge: boolean;
+  auto_merge: AutoMergeMode;
+  max_gap_rounds: number;
+  /** Let idle engineers review when no reviewer agent is free. Defaults to true only when no reviewers are configured. */
+  reviewer_fallback_to_engineers?: boolean;
+  /** `llm` consults the scrum-master agent for assignments and failed tasks. Defaults to `rules`. */
+  scrum_master_mode?: ScrumMasterMode;
+  review_quorum?: ReviewQuorumConfig;
+  review_chunking?: ReviewChunkingConfig;
+  /** Update task branches from main before review and before merge (default "merge"). */
+  branch_sync?: BranchSyncStrategy;
+  merge_queue?: MergeQueueConfig;
+  /** Where branches are pushed and pull requests opened when `auto_merge` is "pull_request". */
+  remote?: RemoteConfig;
+  /** Board storage. Unset: SQLite if the project already has a kanban.db, else JSON. */
+  storage?: KanbanStorageBackend;
+  /** Ask the product manager for replacement work when a task others depend on is permanently blocked. */
+  replan_on_block?: boolean;
+  budget?: BudgetConfig;
+}
+
+/** Spend cap. Tokens count input, cached input and output. */
+export interface BudgetLimit {
+  max_tokens?: number;
+  max_usd?: number;
+}
+
+export interface BudgetConfig {
+  per_task?: BudgetLimit;
+  per_agent?: BudgetLimit;
+  per_run?: BudgetLimit;
+  /** Fraction of `per_run` at which the Scrum Master stops assigning new work (default 0.9). */
+  run_stop_ratio?: number;
 }
 
 // ─── Plugin Config ───
@@ -115,12 +314,55 @@ export interface PluginRef {
   path: string;
 }
 
+// ─── Usage & Pricing ───
+
+/**
+ * Token counts normalized across SDKs: `inputTokens` excludes cache reads
+ * (Claude cache writes are counted as input).
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+}
+
+/** Usage reported by a runtime on `AgentMessage.metadata.usage`. */
+export interface MessageUsage extends TokenUsage {
+  model: string;
+}
+
+export interface UsageTotals extends TokenUsage {
+  costUsd: number;
+}
+
+/** USD per million tokens. `cached_input_per_mtok` defaults to the input price. */
+export interface ModelPrice {
+  input_per_mtok: number;
+  cached_input_per_mtok?: number;
+  output_per_mtok: number;
+}
+
+export interface UsageReport {
+  total: UsageTotals;
+  byAgent: Record<string, UsageTotals>;
+  byTask: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  /** Models that reported usage but have no entry in `TeamConfig.pricing`. */
+  unpricedModels: string[];
+}
+
+export interface UsageSource {
+  getUsageReport(): UsageReport;
+}
+
 // ─── Team Config ───
 
 export interface TeamConfig {
   team: AgentConfig[];
   workflow: WorkflowConfig;
   plugins: PluginRef[];
+  /** Price table keyed by model name. */
+  pricing: Record<string, ModelPrice>;
 }
 
 // ─── Shared Project Context ───
@@ -149,6 +391,43 @@ export interface SharedProjectContext {
   markdownPath: string;
 }
 
+// ─── Orchestration Runs ───
+
+/**
+ * Scrum Master scheduling mode. `paused` stops new assignments while active
+ * work finishes; `draining` does the same and exits once nothing is active.
+ */
+export type SchedulerMode = "running" | "paused" | "draining";
+
+export interface SchedulerControl {
+  getSchedulerMode(): SchedulerMode;
+  pause(): void;
+  resume(): void;
+  drain(): void;
+}
+
+export type OrchestrationRunStatus = "running" | "stopping" | "stopped" | "completed" | "failed";
+
+export interface StartRunRequest {
+  specFile: string;
+  configFile: string;
+  outputDir: string;
+  resume?: boolean;
+}
+
+export interface OrchestrationRun {
+  id: string;
+  specFile: string;
+  configFile: string;
+  outputDir: string;
+  status: OrchestrationRunStatus;
+  startedAt: number;
+  endedAt?: number;
+  error?: string;
+  /** Number of times the run was resumed after stopping or failing. */
+  resumeCount: number;
+}
+
 // ─── Event System ───
 
 export type EventType =
@@ -159,6 +438,7 @@ export type EventType =
   | "task:created"
   | "task:assigned"
   | "task:status_changed"
+  | "task:updated"
   | "review:started"
   | "review:approved"
   | "review:rejected"
@@ -194,21 +474,104 @@ export interface GenericAgentEvent extends BaseAgentEvent {
 
 export type AgentEvent = AgentCompletedEvent | GenericAgentEvent;
 
+/** An event as stored in `.arkaledge/events.jsonl`, with its monotonic log id. */
+export type PersistedEvent = AgentEvent & { id: number };
+
+export interface EventLogQuery {
+  /** Only events with an id greater than this. */
+  afterId?: number;
+  types?: string[];
+  agentId?: string;
+  taskId?: string;
+}
+
 // ─── Zod Schemas for Config Validation ───
 
 export const agentConfigSchema = z.object({
   role: z.enum(["product-manager", "scrum-master", "engineer", "reviewer"]),
   id: z.string().optional(),
-  sdk: z.enum(["claude", "codex"]),
+  sdk: z.enum(["claude", "codex", "mock"]),
   model: z.string(),
   tools: z.array(z.string()),
+  fixture: z.string().optional(),
+}).refine((agent) => agent.sdk !== "mock" || agent.fixture !== undefined, {
+  message: "fixture is required when sdk is mock",
+  path: ["fixture"],
+});
+
+export const budgetLimitSchema = z.object({
+  max_tokens: z.number().int().positive().optional(),
+  max_usd: z.number().positive().optional(),
+});
+
+export const budgetConfigSchema = z.object({
+  per_task: budgetLimitSchema.optional(),
+  per_agent: budgetLimitSchema.optional(),
+  per_run: budgetLimitSchema.optional(),
+  run_stop_ratio: z.number().gt(0).max(1).optional(),
+});
+
+export const reviewQuorumConfigSchema = z.object({
+  reviewers: z.number().int().min(1).default(1),
+  policy: z.enum(["unanimous", "majority", "security_veto"]).default("majority"),
+  high_priority_reviewers: z.number().int().min(1).optional(),
+});
+
+export const reviewChunkingConfigSchema = z.object({
+  max_chunk_chars: z.number().int().min(1000).default(20000),
+  max_chunks: z.number().int().min(1).default(8),
+});
+
+export const mergeQueueConfigSchema = z.object({
+  verify: z.boolean().default(true),
+  timeout_ms: z.number().int().min(1000).default(600_000),
+});
+
+export const remoteConfigSchema = z.object({
+  name: z.string().min(1).default("origin"),
+  url: z.string().min(1).optional(),
+  base_branch: z.string().min(1).default("main"),
+  provider: z.enum(["github", "gitlab", "gitea"]),
+  repository: z.string().min(1),
+  api_url: z.string().url().optional(),
+  token_env: z.string().min(1).default("ARKALEDGE_GIT_TOKEN"),
+  poll_interval_ms: z.number().int().min(1000).default(30_000),
+}).refine((remote) => remote.provider !== "gitea" || remote.api_url !== undefined, {
+  message: "api_url is required for the gitea provider",
+  path: ["api_url"],
+});
+
+export const newReviewCommentSchema = z.object({
+  body: z.string().trim().min(1),
+  file: z.string().trim().min(1).optional(),
+  startLine: z.number().int().min(1).optional(),
+  endLine: z.number().int().min(1).optional(),
+  severity: z.enum(["blocker", "major", "nit"]).optional(),
+  category: z.enum(["correctness", "tests", "security", "error-handling", "performance", "style", "other"]).optional(),
+}).refine((comment) => comment.endLine === undefined || (comment.startLine !== undefined && comment.endLine >= comment.startLine), {
+  message: "endLine needs a startLine at or before it",
+  path: ["endLine"],
 });
 
 export const workflowConfigSchema = z.object({
   columns: z.array(z.enum(["backlog", "in_progress", "review", "done", "blocked"])),
   max_retries: z.number().int().min(0).default(3),
   review_required: z.boolean().default(true),
-  auto_merge: z.boolean().default(true),
+  auto_merge: z.union([z.boolean(), z.literal("pull_request")]).default(true),
+  max_gap_rounds: z.number().int().min(0).default(2),
+  reviewer_fallback_to_engineers: z.boolean().optional(),
+  scrum_master_mode: z.enum(["rules", "llm"]).optional(),
+  review_quorum: reviewQuorumConfigSchema.optional(),
+  review_chunking: reviewChunkingConfigSchema.optional(),
+  branch_sync: z.enum(["merge", "rebase", "none"]).optional(),
+  storage: z.enum(["json", "sqlite"]).optional(),
+  replan_on_block: z.boolean().optional(),
+  merge_queue: mergeQueueConfigSchema.optional(),
+  remote: remoteConfigSchema.optional(),
+  budget: budgetConfigSchema.optional(),
+}).refine((workflow) => workflow.auto_merge !== "pull_request" || workflow.remote !== undefined, {
+  message: "auto_merge: pull_request needs a remote",
+  path: ["remote"],
 });
 
 export const pluginRefSchema = z.object({
@@ -216,8 +579,15 @@ export const pluginRefSchema = z.object({
   path: z.string(),
 });
 
+export const modelPriceSchema = z.object({
+  input_per_mtok: z.number().min(0),
+  cached_input_per_mtok: z.number().min(0).optional(),
+  output_per_mtok: z.number().min(0),
+});
+
 export const teamConfigSchema = z.object({
   team: z.array(agentConfigSchema),
   workflow: workflowConfigSchema,
   plugins: z.array(pluginRefSchema).default([]),
+  pricing: z.record(z.string(), modelPriceSchema).default({}),
 });
@@ -0,0 +1,155 @@
+import type { EventBus } from "./event-bus.js";
+import type { KanbanManager } from "./kanban.js";
+import type {
+  AgentEvent,
+  AgentMessage,
+  MessageUsage,
+  ModelPrice,
+  UsageReport,
+  UsageTotals,
+} from "./types.js";
+
+const TOKENS_PER_MTOK = 1_000_000;
+
+/**
+ * Aggregates token usage reported on agent events (`data.usage`) into per-run,
+ * per-agent, per-model and per-task totals, priced from `TeamConfig.pricing`.
+ * Task totals are also persisted to the task record on the board.
+ */
+export class UsageTracker {
+  private total: UsageTotals = emptyTotals();
+  private byAgent = new Map<string, UsageTotals>();
+  private byTask = new Map<string, UsageTotals>();
+  private byModel = new Map<string, UsageTotals>();
+  private unpricedModels = new Set<string>();
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    private kanban: KanbanManager,
+    private eventBus: EventBus,
+    private pricing: Record<string, ModelPrice>,
+  ) {}
+
+  /** Seed task totals from the board so resumed runs keep counting. */
+  async init(): Promise<void> {
+    for (const task of await this.kanban.getAllTasks()) {
+      if (task.usage) this.byTask.set(task.id, { ...task.usage });
+    }
+  }
+
+  attach(): void {
+    this.eventBus.on("*", this.handleEvent);
+  }
+
+  detach(): void {
+    this.eventBus.off("*", this.handleEvent);
+  }
+
+  getReport(): UsageReport {
+    return {
+      total: { ...this.total },
+      byAgent: toRecord(this.byAgent),
+      byTask: toRecord(this.byTask),
+      byModel: toRecord(this.byModel),
+      unpricedModels: [...this.unpricedModels],
+    };
+  }
+
+  /** Wait for queued task-usage writes to reach the board. */
+  async flush(): Promise<void> {
+    await this.pendingWrite;
+  }
+
+  private handleEvent = (event: AgentEvent): void => {
+    const usage = parseMessageUsage(event.data?.usage);
+    if (!usage) return;
+
+    const price = this.pricing[usage.model];
+    if (!price) this.unpricedModels.add(usage.model);
+    const totals: UsageTotals = {
+      inputTokens: usage.inputTokens,
+      cachedInputTokens: usage.cachedInputTokens,
+      outputTokens: usage.outputTokens,
+      costUsd: price ? priceUsage(usage, price) : 0,
+    };
+
+    addInto(this.total, totals);
+    addInto(getOrCreate(this.byAgent, event.agentId), totals);
+    addInto(getOrCreate(this.byModel, usage.model), totals);
+
+    const taskId = event.data?.taskId;
+    if (typeof taskId === "string") {
+      addInto(getOrCreate(this.byTask, taskId), totals);
+      // Serialize writes so concurrent turns don't contend for the kanban lock
+      this.pendingWrite = this.pendingWrite
+        .then(() => this.kanban.recordUsage(taskId, totals))
+        .then(() => undefined, () => undefined);
+    }
+  };
+}
+
+/** Read normalized usage from a runtime message, if the SDK reported any. */
+export function getMessageUsage(message: AgentMessage): MessageUsage | undefined {
+  return parseMessageUsage(message.metadata?.usage);
+}
+
+/**
+ * Event data fields for a message that reports usage, so `UsageTracker` can
+ * attribute it. Empty for messages without usage.
+ */
+export function usageEventData(message: AgentMessage, taskId?: string): { usage?: MessageUsage; taskId?: string } {
+  const usage = getMessageUsage(message);
+  if (!usage) return {};
+  return taskId ? { usage, taskId } : { usage };
+}
+
+/** Cost in USD of the given token counts at the given per-million-token prices. */
+export function priceUsage(usage: MessageUsage | UsageTotals, price: ModelPrice): number {
+  const cachedPrice = price.cached_input_per_mtok ?? price.input_per_mtok;
+  return (
+    usage.inputTokens * price.input_per_mtok
+    + usage.cachedInputTokens * cachedPrice
+    + usage.outputTokens * price.output_per_mtok
+  ) / TOKENS_PER_MTOK;
+}
+
+function parseMessageUsage(value: unknown): MessageUsage | undefined {
+  if (typeof value !== "object" || value === null) return undefined;
+  const record = value as Record<string, unknown>;
+  if (typeof record.model !== "string") return undefined;
+
+  return {
+    model: record.model,
+    inputTokens: toCount(record.inputTokens),
+    cachedInputTokens: toCount(record.cachedInputTokens),
+    outputTokens: toCount(record.outputTokens),
+  };
+}
+
+function toCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+function emptyTotals(): UsageTotals {
+  return { inputTokens: 0, cachedInputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function addInto(target: UsageTotals, delta: UsageTotals): void {
+  target.inputTokens += delta.inputTokens;
+  target.cachedInputTokens += delta.cachedInputTokens;
+  target.outputTokens += delta.outputTokens;
+  target.costUsd += delta.costUsd;
+}
+
+function getOrCreate(map: Map<string, UsageTotals>, key: string): UsageTotals {
+  let totals = map.get(key);
+  if (!totals) {
+    totals = emptyTotals();
+    map.set(key, totals);
+  }
+  return totals;
+}
+
+function toRecord(map: Map<string, UsageTotals>): Record<string, UsageTotals> {
+  return Object.fromEntries([...map.entries()].map(([key, totals]) => [key, { ...totals }]));
+}
@@ -0,0 +1,151 @@
+import { execFile } from "node:child_process";
+import { existsSync } from "node:fs";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { MergeConflictError, WorktreeManager } from "./worktree-manager.js";
+
+const execFileAsync = promisify(execFile);
+const GIT_IDENTITY = ["-c", "user.name=Test", "-c", "user.email=test@local"];
+
+describe("WorktreeManager", () => {
+  let projectDir: string;
+  let manager: WorktreeManager;
+
+  beforeEach(async () => {
+    projectDir = await mkdtemp(join(tmpdir(), "arkaledge-worktree-"));
+    manager = new WorktreeManager(projectDir);
+  });
+
+  afterEach(async () => {
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it("initializes a repository with a main branch on first use", async () => {
+    await manager.createWorktree("t1", "task/t1");
+    expect(await git(projectDir, ["rev-parse", "--abbrev-ref", "HEAD"])).toBe("main");
+  });
+
+  it("checks out the task branch in the created worktree", async () => {
+    const worktree = await manager.createWorktree("t1", "task/t1");
+    expect(await git(worktree, ["rev-parse", "--abbrev-ref", "HEAD"])).toBe("task/t1");
+  });
+
+  it("places worktrees under .arkaledge/worktrees with a sanitized task id", async () => {
+    const worktree = await manager.createWorktree("a/b c", "task/abc");
+    expect(worktree).toBe(join(projectDir, ".arkaledge", "worktrees", "a-b-c"));
+  });
+
+  it("reuses an existing branch when the worktree is recreated", async () => {
+    const worktree = await manager.createWorktree("t1", "task/t1");
+    await commitFile(worktree, "kept.txt", "kept\n");
+    await manager.removeWorktree("t1");
+
+    const recreated = await manager.createWorktree("t1", "task/t1");
+    expect(existsSync(join(recreated, "kept.txt"))).toBe(true);
+  });
+
+  it("diffs the task branch against main", async () => {
+    const worktree = await manager.createWorktree("t1", "task/t1");
+    await commitFile(worktree, "feature.txt", "hello\n");
+    expect(await manager.getDiff("task/t1")).toContain("+hello");
+  });
+
+  it("merges the task branch into main", async () => {
+    const worktree = await manager.createWorktree("t1", "task/t1");
+    await commitFile(worktree, "feature.txt", "hello\n");
+    await manager.mergeToMain("task/t1");
+    expect(await readFile(join(projectDir, "feature.txt"), "utf-8")).toBe("hello\n");
+  });
+
+  it("refuses to merge over untracked local files the branch changes", async () => {
+    const worktree = await manager.createWorktree("t1", "task/t1");
+    await commitFile(worktree, "feature.txt", "from branch\n");
+    await writeFile(join(projectDir, "feature.txt"), "local edit\n");
+    await expect(manager.mergeToMain("task/t1")).rejects.toThrow("Local files conflict with merge target");
+  });
+
+  it("aborts a conflicting merge and leaves main clean", async () => {
+    const first = await manager.createWorktree("t1", "task/t1");
+    const second = await manager.createWorktree("t2", "task/t2");
+    await commitFile(first, "shared.txt", "one\n");
+    await commitFile(second, "shared.txt", "two\n");
+    await manager.mergeToMain("task/t1");
+
+    await expect(manager.mergeToMain("task/t2")).rejects.toThrow(MergeConflictError);
+    expect(await git(projectDir, ["status", "--porcelain", "--untracked-files=no"])).toBe("");
+  });
+
+  it("reports the conflicting files and hunks of a failed merge", async () => {
+    const first = await manager.createWorktree("t1", "task/t1");
+    const second = await manager.createWorktree("t2", "task/t2");
+    await commitFile(first, "shared.txt", "one\n");
+    await commitFile(second, "shared.txt", "two\n");
+    await manager.mergeToMain("task/t1");
+
+    const error = await manager.mergeToMain("task/t2").catch((caught: unknown) => caught);
+    expect(error).toMatchObject({
+      files: ["shared.txt"],
+      hunks: [{ file: "shared.txt", startLine: 1, branch: "two", main: "one" }],
+    });
+  });
+
+  it("reports a branch that already contains main as up to date", async () => {
+    const worktree = await manager.createWorktree("t1", "task/t1");
+    await commitFile(worktree, "feature.txt", "hello\n");
+    expect((await manager.syncWithMain(worktree, "merge")).status).toBe("up_to_date");
+  });
+
+  it.each(["merge", "rebase"] as const)("brings the task branch up to date with main (%s)", async (strategy) => {
+    const first = await manager.createWorktree("t1", "task/t1");
+    const second = await manager.createWorktree("t2", "task/t2");
+    await commitFile(first, "one.txt", "one\n");
+    await commitFile(second, "two.txt", "two\n");
+    await manager.mergeToMain("task/t1");
+
+    expect((await manager.syncWithMain(second, strategy)).status).toBe("updated");
+    expect(await readFile(join(second, "one.txt"), "utf-8")).toBe("one\n");
+  });
+
+  it.each(["merge", "rebase"] as const)("aborts a conflicting %s and reports the files and hunks", async (strategy) => {
+    const first = await manager.createWorktree("t1", "task/t1");
+    const second = await manager.createWorktree("t2", "task/t2");
+    await commitFile(first, "shared.txt", "one\n");
+    await commitFile(second, "shared.txt", "two\n");
+    await manager.mergeToMain("task/t1");
+
+    expect(await manager.syncWithMain(second, strategy)).toEqual({
+      status: "conflict",
+      conflictedFiles: ["shared.txt"],
+      hunks: [{ file: "shared.txt", startLine: 1, branch: "two", main: "one" }],
+    });
+    expect(await readFile(join(second, "shared.txt"), "utf-8")).toBe("two\n");
+    expect(await git(second, ["status", "--porcelain"])).toBe("");
+  });
+
+  it("removes the worktree directory", async () => {
+    const worktree = await manager.createWorktree("t1", "task/t1");
+    await manager.removeWorktree("t1");
+    expect(existsSync(worktree)).toBe(false);
+  });
+
+  it("serializes concurrent worktree creation", async () => {
+    const worktrees = await Promise.all(
+      ["t1", "t2", "t3"].map((id) => manager.createWorktree(id, `task/${id}`)),
+    );
+    expect(worktrees.every((worktree) => existsSync(worktree))).toBe(true);
+  });
+});
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, { cwd });
+  return stdout.trim();
+}
+
+async function commitFile(worktree: string, name: string, content: string): Promise<void> {
+  await writeFile(join(worktree, name), content);
+  await git(worktree, ["add", name]);
+  await git(worktree, [...GIT_IDENTITY, "commit", "-m", `Add ${name}`]);
+}
@@ -3,11 +3,39 @@ import { existsSync } from "node:fs";
 import { mkdir, rm } from "node:fs/promises";
 import { join } from "node:path";
 import { promisify } from "node:util";
+import { collectConflictHunks } from "./merge-conflicts.js";
+import type { ConflictHunk } from "./types.js";
 
 const execFileAsync = promisify(execFile);
 const WORKTREE_ROOT_DIR = ".arkaledge/worktrees";
 const INITIAL_COMMIT_MESSAGE = "chore: initialize arkaledge repository";
 
+export interface BranchSyncResult {
+  /** "updated" when the sync added commits from main to the task branch. */
+  status: "up_to_date" | "updated" | "conflict";
+  /** Files git could not combine; empty unless `status` is "conflict". */
+  conflictedFiles: string[];
+  hunks: ConflictHunk[];
+}
+
+/** Thrown by `mergeToMain` when the branch conflicts with main; the merge has been aborted. */
+export class MergeConflictError extends Error {
+  constructor(
+    readonly branchName: string,
+    readonly files: string[],
+    readonly hunks: ConflictHunk[],
+  ) {
+    super(`Merge conflict merging ${branchName} into main: ${files.join(", ")}`);
+    this.name = "MergeConflictError";
+  }
+}
+
+export interface IntegrationWorktree {
+  path: string;
+  /** Temporary branch holding main plus the merged task branch. */
+  branch: string;
+}
+
 interface ExecError extends Error {
   stdout?: string;
   stderr?: string;
@@ -82,10 +110,113 @@ export class WorktreeManager {
       try {
         await this.git(["merge", "--no-ff", branchName, "-m", `Merge ${branchName} into main`]);
       } catch (error) {
+        const conflictedFiles = splitLines(await this.git(["diff", "--name-only", "--diff-filter=U"]).catch(() => ""));
+        const hunks = await collectConflictHunks(this.projectDir, conflictedFiles, "main");
         // Abort the merge to leave the index clean for subsequent operations
         await this.tryGit(["merge", "--abort"]);
+        if (conflictedFiles.length > 0) throw new MergeConflictError(branchName, conflictedFiles, hunks);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Merge `branchName` into a temporary integration branch cut from main and
+   * check it out in its own worktree, so the result can be verified before
+   * main moves. Throws `MergeConflictError` (leaving nothing behind) when the
+   * branch conflicts with main.
+   */
+  async createIntegrationWorktree(taskId: string, branchName: string): Promise<IntegrationWorktree> {
+    return this.withQueue(async () => {
+      await this.ensureRepositoryReady();
+      await mkdir(this.worktreeRoot, { recursive: true });
+
+      const integration = this.resolveIntegration(taskId);
+      await this.removeWorktreeDir(integration.path);
+      await this.git(["worktree", "add", "-B", integration.branch, integration.path, "main"]);
+
+      try {
+        await this.ensureGitIdentity();
+        await this.git(["-C", integration.path, "merge", "--no-ff", branchName, "-m", `Merge ${branchName} into main`]);
+      } catch (error) {
+        const conflictedFiles = splitLines(
+          await this.git(["-C", integration.path, "diff", "--name-only", "--diff-filter=U"]).catch(() => ""),
+        );
+        const hunks = await collectConflictHunks(integration.path, conflictedFiles, "main");
+        await this.discardIntegration(integration);
+        if (conflictedFiles.length > 0) throw new MergeConflictError(branchName, conflictedFiles, hunks);
         throw error;
       }
+      return integration;
+    });
+  }
+
+  /** Move main to a verified integration branch. Fails rather than merge if main moved meanwhile. */
+  async fastForwardMain(integrationBranch: string): Promise<void> {
+    return this.withQueue(async () => {
+      await this.ensureRepositoryReady();
+      await this.assertNoLocalMergeConflicts(integrationBranch);
+      await this.git(["merge", "--ff-only", integrationBranch]);
+    });
+  }
+
+  async removeIntegrationWorktree(taskId: string): Promise<void> {
+    return this.withQueue(async () => {
+      await this.discardIntegration(this.resolveIntegration(taskId));
+    });
+  }
+
+  /**
+   * Push a task branch to `remote`, first adding the remote (or updating its
+   * URL) when `url` is given. Rewritten history is pushed with a lease.
+   */
+  async pushBranch(branchName: string, remote: string, url?: string): Promise<void> {
+    return this.withQueue(async () => {
+      await this.ensureRepositoryReady();
+      if (url) {
+        const known = await this.tryGit(["remote", "get-url", remote]);
+        await this.git(known ? ["remote", "set-url", remote, url] : ["remote", "add", remote, url]);
+      }
+      await this.git(["push", "--force-with-lease", remote, `${branchName}:${branchName}`]);
+    });
+  }
+
+  /** Fast-forward local main to `remote`'s base branch after a pull request merged there. */
+  async updateMainFromRemote(remote: string, baseBranch: string): Promise<void> {
+    return this.withQueue(async () => {
+      await this.ensureRepositoryReady();
+      await this.git(["fetch", remote, baseBranch]);
+      await this.git(["merge", "--ff-only", "FETCH_HEAD"]);
+    });
+  }
+
+  /**
+   * Bring the branch checked out in `worktreePath` up to date with main by
+   * merging or rebasing. A conflicting update is aborted so the worktree is
+   * left exactly as it was, and the conflicting files and hunks are reported.
+   */
+  async syncWithMain(worktreePath: string, strategy: "merge" | "rebase"): Promise<BranchSyncResult> {
+    return this.withQueue(async () => {
+      await this.ensureRepositoryReady();
+      const inWorktree = (args: string[]): string[] => ["-C", worktreePath, ...args];
+
+      const behind = Number(await this.git(inWorktree(["rev-list", "--count", "HEAD..main"])));
+      if (behind === 0) return { status: "up_to_date", conflictedFiles: [], hunks: [] };
+
+      await this.ensureGitIdentity();
+      try {
+        await this.git(inWorktree(strategy === "rebase" ? ["rebase", "main"] : ["merge", "--no-edit", "main"]));
+        return { status: "updated", conflictedFiles: [], hunks: [] };
+      } catch (error) {
+        const conflictedFiles = splitLines(
+          await this.git(inWorktree(["diff", "--name-only", "--diff-filter=U"])).catch(() => ""),
+        );
+        // A rebase replays the branch onto main, so main is HEAD in the conflict markers
+        const hunks = await collectConflictHunks(worktreePath, conflictedFiles, strategy === "rebase" ? "main" : "branch");
+        await this.tryGit(inWorktree([strategy, "--abort"]));
+        if (conflictedFiles.length === 0) throw error;
+        return { status: "conflict", conflictedFiles, hunks };
+      }
     });
   }
 
@@ -147,6 +278,29 @@ export class WorktreeManager {
     return join(this.worktreeRoot, sanitizeTaskId(taskId));
   }
 
+  private resolveIntegration(taskId: string): IntegrationWorktree {
+    const id = sanitizeTaskId(taskId);
+    return {
+      path: join(this.worktreeRoot, `integration-${id}`),
+      branch: `integration/${id}`,
+    };
+  }
+
+  private async discardIntegration(integration: IntegrationWorktree): Promise<void> {
+    await this.removeWorktreeDir(integration.path);
+    await this.git(["worktree", "prune"]);
+    await this.tryGit(["branch", "-D", integration.branch]);
+  }
+
+  private async removeWorktreeDir(worktreePath: string): Promise<void> {
+    if (!existsSync(worktreePath)) return;
+    try {
+      await this.git(["worktree", "remove", "--force", worktreePath]);
+    } catch {
+      await rm(worktreePath, { recursive: true, force: true });
+    }
+  }
+
   private async assertNoLocalMergeConflicts(branchName: string): Promise<void> {
     const branchChangedPaths = new Set(splitLines(await this.git(["diff", "--name-only", `main...${branchName}`])));
     if (branchChangedPaths.size === 0) return;
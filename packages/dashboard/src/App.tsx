@@ -1,7 +1,18 @@
 import { useMemo, useState } from "react";
 import "./App.css";
-import { useApi } from "./hooks/useApi";
-import type { AgentEvent, Artifact, Task, TaskStatus } from "./types";
+import { DependencyGraph } from "./components/DependencyGraph";
+import { ProjectLauncher } from "./components/ProjectLauncher";
+import { TaskDetail } from "./components/TaskDetail";
+import { useApi, useTaskDiff, type SchedulerAction } from "./hooks/useApi";
+import type {
+  AgentEvent,
+  Artifact,
+  OrchestrationRun,
+  Task,
+  TaskStatus,
+  UsageReport,
+  UsageTotals,
+} from "./types";
 
 const COLUMNS: { status: TaskStatus; label: string }[] = [
   { status: "backlog", label: "BACKLOG" },
@@ -44,6 +55,14 @@ function roleLabel(role: string): string {
   return role.toUpperCase();
 }
 
+function formatUsage(usage: UsageTotals): string {
+  const tokens = usage.inputTokens + usage.cachedInputTokens + usage.outputTokens;
+  const compact = tokens >= 1_000_000
+    ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1_000 ? `${(tokens / 1_000).toFixed(1)}K` : String(tokens);
+  return `${compact} TOK · $${usage.costUsd.toFixed(2)}`;
+}
+
 function artifactLabel(artifact: Artifact, idx: number): string {
   const label = artifact.label.trim();
   if (label) return label;
@@ -215,7 +234,7 @@ function AgentFeed({
   );
 }
 
-function TeamStatus({ events }: { events: AgentEvent[] }) {
+function TeamStatus({ events, usage }: { events: AgentEvent[]; usage: UsageReport | null }) {
   const agentStates = new Map<string, { role: string; status: string; activity: string }>();
 
   for (let i = events.length - 1; i >= 0; i--) {
@@ -260,8 +279,18 @@ function TeamStatus({ events }: { events: AgentEvent[] }) {
               </span>
             </div>
             <div className="activity">{agent.activity}</div>
+            {usage?.byAgent[id] && <div className="agent-usage">{formatUsage(usage.byAgent[id])}</div>}
           </div>
         ))}
+        {usage && (
+          <div className="detail-row">
+            <span className="detail-label">RUN COST</span>
+            <span className="detail-value">{formatUsage(usage.total)}</span>
+          </div>
+        )}
+        {usage && usage.unpricedModels.length > 0 && (
+          <div className="selected-task-empty">No price configured for: {usage.unpricedModels.join(", ")}</div>
+        )}
       </div>
     </>
   );
@@ -276,6 +305,8 @@ function SelectedTaskPanel({
 }) {
   const taskArtifacts = task?.artifacts ?? [];
   const combinedArtifacts = mergeArtifacts(taskArtifacts, eventArtifacts);
+  const reviewComments = task?.reviewComments ?? [];
+  const diff = useTaskDiff(reviewComments.length > 0 ? task?.id : undefined, task?.history.length ?? 0);
 
   return (
     <>
@@ -299,8 +330,64 @@ function SelectedTaskPanel({
               <span className="detail-label">ASSIGNEE</span>
               <span className="detail-value">{task.assignee ?? "UNASSIGNED"}</span>
             </div>
+            {task.usage && (
+              <div className="detail-row">
+                <span className="detail-label">USAGE</span>
+                <span className="detail-value">{formatUsage(task.usage)}</span>
+              </div>
+            )}
+            {task.mergeConflict && (
+              <div
+                className="detail-row"
+                title={task.mergeConflict.hunks.length > 0
+                  ? task.mergeConflict.hunks.map((hunk) => `${hunk.file}:${hunk.startLine}`).join("\n")
+                  : task.mergeConflict.files.join("\n")}
+              >
+                <span className="detail-label">CONFLICTS WITH MAIN</span>
+                <span className="detail-value review-vote-rejected">
+                  {task.mergeConflict.files.length} FILES · {task.mergeConflict.hunks.length} HUNKS · ATTEMPT{" "}
+                  {task.mergeConflict.attempts}
+                </span>
+              </div>
+            )}
+            {task.pullRequest && (
+              <div className="detail-row">
+                <span className="detail-label">PULL REQUEST</span>
+                <span className="detail-value">
+                  <a href={task.pullRequest.url} target="_blank" rel="noreferrer">
+                    #{task.pullRequest.number}
+                  </a>{" "}
+                  · {task.pullRequest.state.toUpperCase()}
+                </span>
+              </div>
+            )}
             <div className="selected-task-title">{task.title}</div>
 
+            {task.reviewVotes && (
+              <div className="review-votes">
+                {task.reviewVotes.map((vote) => (
+                  <div
+                    className="detail-row"
+                    key={`${task.id}-${vote.reviewerId}`}
+                    title={[
+                      ...vote.comments.map((comment) => comment.body),
+                      ...(vote.coverage?.unreviewed.length ? [`Not reviewed: ${vote.coverage.unreviewed.join(", ")}`] : []),
+                    ].join("\n")}
+                  >
+                    <span className="detail-label">{vote.reviewerId} · {vote.sdk}/{vote.model}</span>
+                    <span className={`detail-value review-vote-${vote.verdict}`}>
+                      {vote.verdict.toUpperCase()}{vote.security ? " · SECURITY" : ""}
+                      {vote.coverage && vote.coverage.unreviewed.length > 0
+                        ? ` · ${vote.coverage.reviewed.length}/${vote.coverage.reviewed.length + vote.coverage.unreviewed.length} FILES`
+                        : ""}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <TaskDetail comments={reviewComments} diff={diff} />
+
             <div className="selected-task-links">
               {combinedArtifacts.length === 0 && (
                 <div className="selected-task-empty">No generated UI links yet.</div>
@@ -324,6 +411,87 @@ function SelectedTaskPanel({
   );
 }
 
+function latestSchedulerMode(events: AgentEvent[]): string | undefined {
+  // Events are newest first; a new project resets the Scrum Master to running
+  for (const event of events) {
+    if (event.type === "project:started") return undefined;
+    if (typeof event.data?.schedulerMode === "string") return event.data.schedulerMode;
+  }
+  return undefined;
+}
+
+function RunsPanel({
+  runs,
+  runError,
+  schedulerMode,
+  onStart,
+  onStop,
+  onResume,
+  onScheduler,
+}: {
+  runs: OrchestrationRun[];
+  runError: string | null;
+  schedulerMode: string | undefined;
+  onStart: (specFile: string, configFile: string, outputDir: string) => void;
+  onStop: (runId: string) => void;
+  onResume: (runId: string) => void;
+  onScheduler: (action: SchedulerAction) => void;
+}) {
+  const isRunning = runs.some((run) => run.status === "running" || run.status === "stopping");
+
+  return (
+    <>
+      <div className="panel-header panel-header-spaced">RUNS</div>
+      <ProjectLauncher onExecute={onStart} isRunning={isRunning} />
+      {runError && <div className="run-error">{runError}</div>}
+      <div className="run-list">
+        {runs.length === 0 && <div className="selected-task-empty">No runs launched from this server.</div>}
+        {runs.map((run) => (
+          <div className="run-item" key={run.id}>
+            <div className="detail-row">
+              <span className="detail-label">{run.id}</span>
+              <span className="detail-value">{run.status.toUpperCase()}</span>
+            </div>
+            <div className="run-output">{run.outputDir}</div>
+            {run.error && <div className="run-error">{run.error}</div>}
+            {run.status === "running" && (
+              <div className="run-actions">
+                {schedulerMode === "paused" || schedulerMode === "draining" ? (
+                  <button type="button" className="btn btn-secondary" onClick={() => onScheduler("resume")}>
+                    {schedulerMode === "paused" ? "UNPAUSE" : "CANCEL DRAIN"}
+                  </button>
+                ) : (
+                  <button type="button" className="btn btn-secondary" onClick={() => onScheduler("pause")}>
+                    PAUSE
+                  </button>
+                )}
+                {schedulerMode !== "draining" && (
+                  <button type="button" className="btn btn-secondary" onClick={() => onScheduler("drain")}>
+                    DRAIN
+                  </button>
+                )}
+                <button type="button" className="btn btn-danger" onClick={() => onStop(run.id)}>
+                  STOP
+                </button>
+              </div>
+            )}
+            {(run.status === "stopped" || run.status === "failed" || run.status === "completed") && (
+              <button
+                type="button"
+                className="btn btn-secondary"
+                disabled={isRunning}
+                onClick={() => onResume(run.id)}
+              >
+                RESUME
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </>
+  );
+}
+
 function StatusIndicator({ status }: { status: string }) {
   const label =
     status === "connected" ? "CONNECTED" : status === "connecting" ? "CONNECTING..." : "DISCONNECTED";
@@ -331,8 +499,9 @@ function StatusIndicator({ status }: { status: string }) {
 }
 
 function App() {
-  const { tasks, events, status } = useApi();
+  const { tasks, graph, events, status, usage, runs, runError, startRun, stopRun, resumeRun, controlScheduler } = useApi();
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  const [view, setView] = useState<"board" | "graph">("board");
 
   const effectiveSelectedTaskId = useMemo(() => {
     if (tasks.length === 0) return null;
@@ -370,7 +539,8 @@ function App() {
       <header className="header">
         <div className="logo">ARKALEDGE</div>
         <div className="header-controls">
-          <span className="active">SPRINT</span>
+          <span className={view === "board" ? "active" : ""} onClick={() => setView("board")}>SPRINT</span>
+          <span className={view === "graph" ? "active" : ""} onClick={() => setView("graph")}>DEPENDENCIES</span>
         </div>
       </header>
 
@@ -378,22 +548,36 @@ function App() {
         <AgentFeed events={events} onSelectTask={setSelectedTaskId} />
 
         <section className="kanban-panel">
-          <div className="panel-header">SPRINT BOARD</div>
-          <div className="kanban-board">
-            {COLUMNS.map((col) => (
-              <KanbanColumn
-                key={col.status}
-                label={col.label}
-                tasks={tasks.filter((task) => task.status === col.status)}
+          {view === "board" ? (
+            <>
+              <div className="panel-header">SPRINT BOARD</div>
+              <div className="kanban-board">
+                {COLUMNS.map((col) => (
+                  <KanbanColumn
+                    key={col.status}
+                    label={col.label}
+                    tasks={tasks.filter((task) => task.status === col.status)}
+                    selectedTaskId={effectiveSelectedTaskId}
+                    onSelectTask={setSelectedTaskId}
+                  />
+                ))}
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="panel-header">DEPENDENCY GRAPH</div>
+              <DependencyGraph
+                tasks={tasks}
+                graph={graph}
                 selectedTaskId={effectiveSelectedTaskId}
                 onSelectTask={setSelectedTaskId}
               />
-            ))}
-          </div>
+            </>
+          )}
         </section>
 
         <aside className="panel team-panel">
-          <TeamStatus events={events} />
+          <TeamStatus events={events} usage={usage} />
           <SelectedTaskPanel task={selectedTask} eventArtifacts={selectedTaskEventArtifacts} />
 
           <div className="panel-header panel-header-spaced">SPRINT PROGRESS</div>
@@ -410,6 +594,16 @@ function App() {
               <div className="fill" style={{ width: `${pct}%` }}></div>
             </div>
           </div>
+
+          <RunsPanel
+            runs={runs}
+            runError={runError}
+            schedulerMode={latestSchedulerMode(events)}
+            onStart={(specFile, configFile, outputDir) => void startRun(specFile, configFile, outputDir)}
+            onStop={(runId) => void stopRun(runId)}
+            onResume={(runId) => void resumeRun(runId)}
+            onScheduler={(action) => void controlScheduler(action)}
+          />
         </aside>
       </main>
 
@@ -0,0 +1,246 @@
+import React, { useMemo } from 'react';
+import type { DependencyGraphReport, Task, TaskStatus } from '../types';
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 44;
+const COLUMN_GAP = 60;
+const ROW_GAP = 14;
+const LANE_LABEL_HEIGHT = 22;
+const LANE_GAP = 18;
+const TITLE_CHARS = 24;
+const NO_EPIC = 'NO EPIC';
+
+const STATUSES: TaskStatus[] = ['backlog', 'in_progress', 'review', 'done', 'blocked'];
+
+export interface DependencyGraphProps {
+  tasks: Task[];
+  /** Server-side analysis; null until the first fetch completes. */
+  graph: DependencyGraphReport | null;
+  selectedTaskId: string | null;
+  onSelectTask: (taskId: string) => void;
+}
+
+interface NodeLayout {
+  task: Task;
+  x: number;
+  y: number;
+}
+
+interface LaneLayout {
+  epic: string;
+  y: number;
+}
+
+/**
+ * Tasks as nodes colored by status, laid out left to right by dependency
+ * depth in one lane per epic. Edges run from a dependency to its dependents.
+ * Chains that keep a task from ever starting (a blocked, missing or cyclic
+ * dependency) and the critical path are highlighted.
+ */
+export const DependencyGraph: React.FC<DependencyGraphProps> = ({ tasks, graph, selectedTaskId, onSelectTask }) => {
+  const layout = useMemo(() => layoutGraph(tasks), [tasks]);
+  const highlight = useMemo(() => stuckChains(tasks, graph), [tasks, graph]);
+  const critical = useMemo(() => new Set(graph?.criticalPath ?? []), [graph]);
+  const reasons = useMemo(() => stuckReasons(tasks, graph), [tasks, graph]);
+
+  if (tasks.length === 0) {
+    return <div className="selected-task-empty">No tasks yet.</div>;
+  }
+
+  const edges = tasks.flatMap((task) =>
+    (task.dependsOn ?? []).flatMap((depId) => {
+      const from = layout.nodes.get(depId);
+      const to = layout.nodes.get(task.id);
+      return from && to ? [{ key: `${task.id}->${depId}`, from, to }] : [];
+    })
+  );
+
+  return (
+    <div className="dependency-graph">
+      <div className="dependency-graph-summary">
+        <span>CRITICAL PATH {graph?.criticalPath.length ?? 0}</span>
+        <span className={graph && graph.unschedulable.length > 0 ? 'dependency-graph-alert' : ''}>
+          STUCK {graph?.unschedulable.length ?? 0}
+        </span>
+        <span className={graph && graph.cycles.length > 0 ? 'dependency-graph-alert' : ''}>
+          CYCLES {graph?.cycles.length ?? 0}
+        </span>
+        <span className={graph && graph.dangling.length > 0 ? 'dependency-graph-alert' : ''}>
+          MISSING DEPS {graph?.dangling.length ?? 0}
+        </span>
+        <span className="dependency-graph-legend">
+          {STATUSES.map((status) => (
+            <span key={status} className={`graph-status graph-status-${status}`}>
+              {status.toUpperCase()}
+            </span>
+          ))}
+        </span>
+      </div>
+      <div className="dependency-graph-canvas">
+        <svg width={layout.width} height={layout.height} role="img" aria-label="Task dependency graph">
+          {layout.lanes.map((lane) => (
+            <text key={lane.epic} className="graph-lane-label" x={0} y={lane.y + 14}>
+              {lane.epic.toUpperCase()}
+            </text>
+          ))}
+          {edges.map(({ key, from, to }) => (
+            <path
+              key={key}
+              className={`graph-edge ${highlight.edges.has(key) ? 'graph-edge-stuck' : ''}`}
+              d={edgePath(from, to)}
+            />
+          ))}
+          {[...layout.nodes.values()].map(({ task, x, y }) => (
+            <g
+              key={task.id}
+              className={[
+                'graph-node',
+                `graph-node-${task.status}`,
+                highlight.nodes.has(task.id) ? 'graph-node-stuck' : '',
+                critical.has(task.id) ? 'graph-node-critical' : '',
+                task.id === selectedTaskId ? 'selected' : '',
+              ].join(' ')}
+              transform={`translate(${x}, ${y})`}
+              role="button"
+              tabIndex={0}
+              onClick={() => onSelectTask(task.id)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter' || event.key === ' ') {
+                  event.preventDefault();
+                  onSelectTask(task.id);
+                }
+              }}
+            >
+              <title>{[task.title, reasons.get(task.id)].filter(Boolean).join('\n')}</title>
+              <rect width={NODE_WIDTH} height={NODE_HEIGHT} />
+              <text className="graph-node-id" x={8} y={16}>
+                {task.id} · {task.status.toUpperCase()}
+              </text>
+              <text className="graph-node-title" x={8} y={33}>
+                {truncate(task.title)}
+              </text>
+            </g>
+          ))}
+        </svg>
+      </div>
+    </div>
+  );
+};
+
+/** Columns by dependency depth, one lane per epic in board order. */
+function layoutGraph(tasks: Task[]): { nodes: Map<string, NodeLayout>; lanes: LaneLayout[]; width: number; height: number } {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const depths = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  // Edges back into a task still being measured belong to a cycle and are ignored
+  const depthOf = (id: string): number => {
+    const known = depths.get(id);
+    if (known !== undefined) return known;
+    if (visiting.has(id)) return -1;
+    visiting.add(id);
+    const upstream = (byId.get(id)?.dependsOn ?? []).filter((depId) => byId.has(depId)).map(depthOf);
+    visiting.delete(id);
+    const depth = 1 + Math.max(-1, ...upstream);
+    depths.set(id, depth);
+    return depth;
+  };
+
+  const epics = new Map<string, Task[]>();
+  for (const task of tasks) {
+    const epic = task.epic ?? NO_EPIC;
+    epics.set(epic, [...(epics.get(epic) ?? []), task]);
+  }
+
+  const nodes = new Map<string, NodeLayout>();
+  const lanes: LaneLayout[] = [];
+  let laneY = 0;
+  let maxDepth = 0;
+  for (const [epic, laneTasks] of epics) {
+    lanes.push({ epic, y: laneY });
+    const rows = new Map<number, number>();
+    for (const task of laneTasks) {
+      const depth = depthOf(task.id);
+      const row = rows.get(depth) ?? 0;
+      rows.set(depth, row + 1);
+      maxDepth = Math.max(maxDepth, depth);
+      nodes.set(task.id, {
+        task,
+        x: depth * (NODE_WIDTH + COLUMN_GAP),
+        y: laneY + LANE_LABEL_HEIGHT + row * (NODE_HEIGHT + ROW_GAP),
+      });
+    }
+    laneY += LANE_LABEL_HEIGHT + Math.max(...rows.values()) * (NODE_HEIGHT + ROW_GAP) + LANE_GAP;
+  }
+
+  return { nodes, lanes, width: (maxDepth + 1) * (NODE_WIDTH + COLUMN_GAP), height: laneY };
+}
+
+/**
+ * Tasks and `dependent->dependency` edges on a chain to a blocked, missing or
+ * cyclic dependency, including chains already blocked through `blockedBy`.
+ */
+function stuckChains(tasks: Task[], graph: DependencyGraphReport | null): { nodes: Set<string>; edges: Set<string> } {
+  const nodes = new Set<string>();
+  const edges = new Set<string>();
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  for (const task of tasks) {
+    if (!task.blockedBy) continue;
+    nodes.add(task.id);
+    nodes.add(task.blockedBy);
+    for (const depId of task.dependsOn ?? []) {
+      if (depId === task.blockedBy || byId.get(depId)?.blockedBy === task.blockedBy) {
+        edges.add(`${task.id}->${depId}`);
+      }
+    }
+  }
+  for (const entry of graph?.unschedulable ?? []) {
+    const path = [entry.taskId, ...entry.chain];
+    path.forEach((id, i) => {
+      nodes.add(id);
+      if (i > 0) edges.add(`${path[i - 1]}->${id}`);
+    });
+  }
+  for (const cycle of graph?.cycles ?? []) {
+    cycle.forEach((id, i) => {
+      nodes.add(id);
+      edges.add(`${id}->${cycle[(i + 1) % cycle.length]}`);
+    });
+  }
+  return { nodes, edges };
+}
+
+function stuckReasons(tasks: Task[], graph: DependencyGraphReport | null): Map<string, string> {
+  const titles = new Map(tasks.map((task) => [task.id, task.title]));
+  const reasons = new Map<string, string>();
+  for (const task of tasks) {
+    if (task.blockedBy) reasons.set(task.id, `Blocked: depends on "${titles.get(task.blockedBy) ?? task.blockedBy}"`);
+  }
+  for (const { taskId, reason, rootTaskId } of graph?.unschedulable ?? []) {
+    const root = titles.get(rootTaskId) ?? rootTaskId;
+    reasons.set(
+      taskId,
+      reason === 'blocked'
+        ? `Cannot start: "${root}" is blocked`
+        : reason === 'dangling'
+          ? `Cannot start: depends on unknown task ${rootTaskId}`
+          : `Cannot start: dependency cycle through "${root}"`
+    );
+  }
+  return reasons;
+}
+
+function edgePath(from: NodeLayout, to: NodeLayout): string {
+  const x1 = from.x + NODE_WIDTH;
+  const y1 = from.y + NODE_HEIGHT / 2;
+  const x2 = to.x;
+  const y2 = to.y + NODE_HEIGHT / 2;
+  const bend = Math.max(COLUMN_GAP / 2, Math.abs(x2 - x1) / 2);
+  return `M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`;
+}
+
+function truncate(title: string): string {
+  return title.length > TITLE_CHARS ? `${title.slice(0, TITLE_CHARS - 1)}…` : title;
+}
+
+export default DependencyGraph;
@@ -1,252 +1,149 @@
 import React from 'react';
+import type { ReviewComment } from '../types';
 
-// Color constants matching terminal design
-const COLORS = {
-  bgPrimary: '#0a0a0a',
-  bgSecondary: '#0d1117',
-  bgTertiary: '#161b22',
-  accentPrimary: '#00ff41',
-  accentSecondary: '#ffb000',
-  accentInfo: '#00d4ff',
-  accentError: '#ff3333',
-  textMuted: '#0f5132',
-  borderColor: '#1a3a2a',
-  glow: 'rgba(0, 255, 65, 0.15)',
-};
-
-const FONT_Mono = "'Fira Code', 'JetBrains Mono', 'Courier New', monospace";
+// Unchanged lines shown around an anchored comment
+const EXCERPT_CONTEXT_LINES = 2;
 
-// Types
-interface Subtask {
-  id: string;
-  title: string;
-  done: boolean;
+export interface TaskDetailProps {
+  comments: ReviewComment[];
+  /** Task branch diff against main; null while loading or when the worktree is gone. */
+  diff: string | null;
 }
 
-interface TaskDetailProps {
-  taskId?: string;
-  title?: string;
-  status?: 'backlog' | 'in_progress' | 'review' | 'done';
-  priority?: 'low' | 'medium' | 'high';
-  assigned?: string;
-  estimated?: string;
-  elapsed?: string;
-  progress?: number;
-  subtasks?: Subtask[];
+interface DiffLine {
+  kind: 'add' | 'del' | 'context';
+  text: string;
+  /** Line in the new file; deleted lines carry the number of the line that follows them. */
+  newLine: number;
 }
 
-const TaskDetail: React.FC<TaskDetailProps> = ({
-  taskId = 'TASK-042',
-  title = 'Implement auth middleware',
-  status = 'in_progress',
-  priority = 'high',
-  assigned = 'ENGINEER-1',
-  estimated = '2h 15m',
-  elapsed = '47m 32s',
-  progress = 65,
-  subtasks = [
-    { id: '1', title: 'Create JWT validation function', done: true },
-    { id: '2', title: 'Add token refresh logic', done: true },
-    { id: '3', title: 'Implement rate limiting', done: false },
-    { id: '4', title: 'Write unit tests', done: false },
-  ],
-}) => {
-  const getStatusColor = () => {
-    switch (status) {
-      case 'in_progress':
-        return COLORS.accentSecondary;
-      case 'done':
-        return COLORS.accentPrimary;
-      case 'review':
-        return COLORS.accentInfo;
-      default:
-        return COLORS.textMuted;
-    }
-  };
-
-  const getPriorityColor = () => {
-    switch (priority) {
-      case 'high':
-        return COLORS.accentSecondary;
-      case 'medium':
-        return COLORS.accentInfo;
-      default:
-        return COLORS.textMuted;
-    }
-  };
-
-  const formatStatus = (s: string) => {
-    return s.toUpperCase().replace('_', ' ');
-  };
-
-  const doneCount = subtasks.filter((st) => st.done).length;
-  const pendingCount = subtasks.length - doneCount;
-
-  const styles: Record<string, React.CSSProperties> = {
-    panel: {
-      background: COLORS.bgSecondary,
-      padding: '16px',
-      overflow: 'hidden',
-      fontFamily: FONT_Mono,
-    },
-    header: {
-      fontSize: '12px',
-      fontWeight: 600,
-      letterSpacing: '1px',
-      marginBottom: '16px',
-      paddingBottom: '8px',
-      borderBottom: `1px solid ${COLORS.borderColor}`,
-      display: 'flex',
-      alignItems: 'center',
-      gap: '8px',
-      color: COLORS.accentPrimary,
-    },
-    headerPrefix: {
-      color: COLORS.accentPrimary,
-    },
-    detailRow: {
-      display: 'flex',
-      justifyContent: 'space-between',
-      marginBottom: '12px',
-      fontSize: '11px',
-    },
-    detailLabel: {
-      color: COLORS.textMuted,
-    },
-    detailValue: {
-      color: COLORS.accentPrimary,
-    },
-    detailValueInProgress: {
-      color: COLORS.accentSecondary,
-    },
-    progressBlock: {
-      margin: '16px 0',
-    },
-    progressLabel: {
-      fontSize: '11px',
-      display: 'flex',
-      justifyContent: 'space-between',
-    },
-    progressBar: {
-      height: '8px',
-      background: COLORS.bgTertiary,
-      border: `1px solid ${COLORS.borderColor}`,
-      marginTop: '4px',
-    },
-    progressFill: {
-      height: '100%',
-      background: COLORS.accentPrimary,
-      width: `${progress}%`,
-    },
-    subtasksSection: {
-      marginTop: '16px',
-    },
-    subtasksHeader: {
-      fontSize: '11px',
-      color: COLORS.textMuted,
-      marginBottom: '8px',
-    },
-    subtask: {
-      fontSize: '11px',
-      marginBottom: '6px',
-      display: 'flex',
-      alignItems: 'center',
-      gap: '8px',
-    },
-    subtaskDone: {
-      color: COLORS.textMuted,
-      textDecoration: 'line-through',
-    },
-    subtaskPending: {
-      color: COLORS.accentPrimary,
-    },
-    checkbox: {
-      width: '12px',
-      height: '12px',
-      border: `1px solid ${COLORS.borderColor}`,
-      display: 'inline-flex',
-      alignItems: 'center',
-      justifyContent: 'center',
-      fontSize: '8px',
-      background: 'transparent',
-    },
-    checkboxDone: {
-      background: COLORS.accentPrimary,
-      color: COLORS.bgPrimary,
-      borderColor: COLORS.accentPrimary,
-    },
-  };
-
-  return (
-    <div style={styles.panel}>
-      {/* Header */}
-      <div style={styles.header}>
-        <span style={styles.headerPrefix}>&gt;</span>
-        {taskId}
-      </div>
-
-      {/* Detail Rows */}
-      <div style={styles.detailRow}>
-        <span style={styles.detailLabel}>TITLE</span>
-        <span style={styles.detailValue}>{title}</span>
-      </div>
+/**
+ * Review comments for one task. Comments anchored to a file and line range
+ * are shown beside the matching lines of the branch diff.
+ */
+export const TaskDetail: React.FC<TaskDetailProps> = ({ comments, diff }) => {
+  if (comments.length === 0) return null;
 
-      <div style={styles.detailRow}>
-        <span style={styles.detailLabel}>STATUS</span>
-        <span style={{ ...styles.detailValue, color: getStatusColor() }}>
-          [{formatStatus(status)}]
-        </span>
-      </div>
+  const files = diff ? parseDiff(diff) : new Map<string, DiffLine[]>();
+  const open = comments.filter((comment) => !comment.resolved).length;
 
-      <div style={styles.detailRow}>
-        <span style={styles.detailLabel}>PRIORITY</span>
-        <span style={{ ...styles.detailValue, color: getPriorityColor() }}>
-          {priority.toUpperCase()}
-        </span>
-      </div>
-
-      <div style={styles.detailRow}>
-        <span style={styles.detailLabel}>ASSIGNED</span>
-        <span style={styles.detailValue}>{assigned}</span>
-      </div>
-
-      <div style={styles.detailRow}>
-        <span style={styles.detailLabel}>ESTIMATED</span>
-        <span style={styles.detailValue}>{estimated}</span>
+  return (
+    <div className="review-comments">
+      <div className="detail-row">
+        <span className="detail-label">REVIEW COMMENTS</span>
+        <span className="detail-value">{open} OPEN, {comments.length - open} RESOLVED</span>
       </div>
-
-      {/* Progress Block */}
-      <div style={styles.progressBlock}>
-        <div style={styles.progressLabel}>
-          <span style={styles.detailLabel}>ELAPSED</span>
-          <span style={styles.detailValue}>{elapsed}</span>
-        </div>
-        <div style={styles.progressBar}>
-          <div style={styles.progressFill} />
+      {comments.map((comment) => (
+        <div key={comment.id} className={`review-comment ${comment.resolved ? 'review-comment-resolved' : ''}`}>
+          <div className="review-comment-header">
+            <span className={`review-severity review-severity-${comment.severity}`}>
+              [{comment.severity.toUpperCase()}/{comment.category.toUpperCase()}]
+            </span>
+            <span className="review-comment-location">{formatLocation(comment)}</span>
+            {comment.resolved && <span className="review-comment-status">RESOLVED</span>}
+          </div>
+          <div className="review-comment-body">{comment.body}</div>
+          {comment.file && comment.startLine !== undefined && (
+            <DiffExcerpt lines={excerpt(files.get(comment.file), comment)} comment={comment} diffLoaded={diff !== null} />
+          )}
+          <div className="review-comment-author">{comment.reviewerId}</div>
         </div>
-      </div>
+      ))}
+    </div>
+  );
+};
 
-      {/* Subtasks */}
-      <div style={styles.subtasksSection}>
-        <div style={styles.subtasksHeader}>
-          SUBTASKS: {doneCount} DONE, {pendingCount} PENDING
-        </div>
-        {subtasks.map((subtask) => (
+const DiffExcerpt: React.FC<{ lines: DiffLine[]; comment: ReviewComment; diffLoaded: boolean }> = ({
+  lines,
+  comment,
+  diffLoaded,
+}) => {
+  if (!diffLoaded) return null;
+  if (lines.length === 0) {
+    return <div className="diff-excerpt-missing">Lines not part of the current diff.</div>;
+  }
+
+  return (
+    <pre className="diff-excerpt">
+      {lines.map((line, idx) => {
+        const anchored = line.kind !== 'del' && isWithin(line.newLine, comment);
+        return (
           <div
-            key={subtask.id}
-            style={subtask.done ? styles.subtaskDone : styles.subtask}
+            key={`${comment.id}-${idx}`}
+            className={`diff-line diff-line-${line.kind} ${anchored ? 'diff-line-anchored' : ''}`}
           >
-            <span
-              style={subtask.done ? { ...styles.checkbox, ...styles.checkboxDone } : styles.checkbox}
-            >
-              {subtask.done ? '✓' : ''}
-            </span>
-            {subtask.title}
+            <span className="diff-line-number">{line.kind === 'del' ? '' : line.newLine}</span>
+            {line.text}
           </div>
-        ))}
-      </div>
-    </div>
+        );
+      })}
+    </pre>
   );
 };
 
+function formatLocation(comment: ReviewComment): string {
+  if (!comment.file) return 'general';
+  if (comment.startLine === undefined) return comment.file;
+  const end = comment.endLine !== undefined && comment.endLine !== comment.startLine ? `-${comment.endLine}` : '';
+  return `${comment.file}:${comment.startLine}${end}`;
+}
+
+function isWithin(line: number, comment: ReviewComment, padding = 0): boolean {
+  const start = comment.startLine ?? 0;
+  const end = comment.endLine ?? start;
+  return line >= start - padding && line <= end + padding;
+}
+
+function excerpt(lines: DiffLine[] | undefined, comment: ReviewComment): DiffLine[] {
+  return (lines ?? []).filter((line) => isWithin(line.newLine, comment, EXCERPT_CONTEXT_LINES));
+}
+
+/** Split a unified diff into per-file lines numbered by their position in the new file. */
+function parseDiff(diff: string): Map<string, DiffLine[]> {
+  const files = new Map<string, DiffLine[]>();
+  let oldPath: string | undefined;
+  let current: DiffLine[] | undefined;
+  // File headers only appear before the first hunk; later "---" lines are content
+  let inHeader = false;
+  let newLine = 0;
+
+  for (const raw of diff.split('\n')) {
+    if (raw.startsWith('diff --git ')) {
+      current = undefined;
+      inHeader = true;
+      continue;
+    }
+    if (inHeader && raw.startsWith('--- ')) {
+      oldPath = raw.slice(4).replace(/^a\//, '');
+      continue;
+    }
+    if (inHeader && raw.startsWith('+++ ')) {
+      const newPath = raw.slice(4).replace(/^b\//, '');
+      const path = newPath === '/dev/null' ? oldPath : newPath;
+      current = [];
+      if (path) files.set(path, current);
+      continue;
+    }
+    const hunk = raw.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (hunk) {
+      inHeader = false;
+      newLine = Number(hunk[1]);
+      continue;
+    }
+    if (!current) continue;
+
+    if (raw.startsWith('+')) {
+      current.push({ kind: 'add', text: raw, newLine });
+      newLine++;
+    } else if (raw.startsWith('-')) {
+      current.push({ kind: 'del', text: raw, newLine });
+    } else if (raw.startsWith(' ')) {
+      current.push({ kind: 'context', text: raw, newLine });
+      newLine++;
+    }
+  }
+
+  return files;
+}
+
 export default TaskDetail;
@@ -8,6 +8,12 @@ export type { KanbanBoardProps } from './KanbanBoard';
 export type { KanbanColumnProps } from './KanbanColumn';
 export type { TaskCardProps } from './TaskCard';
 
+export { TaskDetail } from './TaskDetail';
+export type { TaskDetailProps } from './TaskDetail';
+
+export { DependencyGraph } from './DependencyGraph';
+export type { DependencyGraphProps } from './DependencyGraph';
+
 export { ProjectLauncher } from './ProjectLauncher';
 export type { ProjectLauncherProps } from './ProjectLauncher';
 
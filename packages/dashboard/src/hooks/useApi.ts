@@ -3,19 +3,39 @@ import type {
   AgentEvent,
   AgentEventData,
   Artifact,
+  ConflictHunk,
+  DependencyGraphReport,
   EventType,
+  MergeConflictReport,
+  OrchestrationRun,
+  ReviewComment,
+  ReviewCommentLocation,
+  ReviewSeverity,
+  ReviewVote,
+  ReviewVoteComment,
+  RunStatus,
   Task,
   TaskEvent,
   TaskPriority,
+  TaskPullRequest,
   TaskStatus,
+  UnschedulableTask,
+  UsageReport,
+  UsageTotals,
 } from "../types";
 
 const API_URL = import.meta.env.VITE_API_URL ?? "http://localhost:4400";
+const API_TOKEN: string | undefined = import.meta.env.VITE_API_TOKEN;
+// Bursts of events (a reconnect replay, a busy run) refetch each resource once
+const REFETCH_DEBOUNCE_MS = 250;
 
 export type ConnectionStatus = "connecting" | "connected" | "disconnected";
+export type SchedulerAction = "pause" | "resume" | "drain";
 
 const TASK_STATUSES: TaskStatus[] = ["backlog", "in_progress", "review", "done", "blocked"];
 const TASK_PRIORITIES: TaskPriority[] = ["high", "medium", "low"];
+const REVIEW_SEVERITIES: ReviewSeverity[] = ["blocker", "major", "nit"];
+const RUN_STATUSES: RunStatus[] = ["running", "stopping", "stopped", "completed", "failed"];
 const EVENT_TYPES: EventType[] = [
   "agent:started",
   "agent:message",
@@ -24,6 +44,7 @@ const EVENT_TYPES: EventType[] = [
   "task:created",
   "task:assigned",
   "task:status_changed",
+  "task:updated",
   "review:started",
   "review:approved",
   "review:rejected",
@@ -54,6 +75,10 @@ function isTaskPriority(value: unknown): value is TaskPriority {
   return typeof value === "string" && TASK_PRIORITIES.includes(value as TaskPriority);
 }
 
+function isRunStatus(value: unknown): value is RunStatus {
+  return typeof value === "string" && RUN_STATUSES.includes(value as RunStatus);
+}
+
 function isEventType(value: unknown): value is EventType {
   return typeof value === "string" && EVENT_TYPES.includes(value as EventType);
 }
@@ -143,6 +168,131 @@ function normalizeArtifacts(value: unknown): Artifact[] | undefined {
   return artifacts.length > 0 ? artifacts : undefined;
 }
 
+function asCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : 0;
+}
+
+function normalizeUsageTotals(value: unknown): UsageTotals | undefined {
+  if (!isRecord(value)) return undefined;
+  return {
+    inputTokens: asCount(value.inputTokens),
+    cachedInputTokens: asCount(value.cachedInputTokens),
+    outputTokens: asCount(value.outputTokens),
+    costUsd: asCount(value.costUsd),
+  };
+}
+
+function asLineNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+function normalizeCommentLocation(value: Record<string, unknown>): ReviewCommentLocation {
+  const file = asOptionalString(value.file);
+  const startLine = asLineNumber(value.startLine);
+  if (!file) return {};
+  if (startLine === undefined) return { file };
+  return { file, startLine, endLine: asLineNumber(value.endLine) ?? startLine };
+}
+
+function normalizeReviewVoteComments(value: unknown): ReviewVoteComment[] {
+  if (!Array.isArray(value)) return [];
+  const comments: ReviewVoteComment[] = [];
+  for (const item of value) {
+    // Votes recorded before comments were structured hold plain strings
+    if (typeof item === "string") {
+      comments.push({ body: item });
+      continue;
+    }
+    if (!isRecord(item)) continue;
+    const body = asOptionalString(item.body);
+    if (!body) continue;
+    const comment: ReviewVoteComment = { body, ...normalizeCommentLocation(item) };
+    const severity = item.severity;
+    const category = asOptionalString(item.category);
+    if (typeof severity === "string" && REVIEW_SEVERITIES.includes(severity as ReviewSeverity)) {
+      comment.severity = severity as ReviewSeverity;
+    }
+    if (category) comment.category = category;
+    comments.push(comment);
+  }
+  return comments;
+}
+
+function normalizeReviewComments(value: unknown): ReviewComment[] {
+  if (!Array.isArray(value)) return [];
+  const comments: ReviewComment[] = [];
+  for (const item of value) {
+    if (!isRecord(item)) continue;
+    const id = asOptionalString(item.id);
+    const body = asOptionalString(item.body);
+    if (!id || !body) continue;
+    const severity = typeof item.severity === "string" && REVIEW_SEVERITIES.includes(item.severity as ReviewSeverity)
+      ? item.severity as ReviewSeverity
+      : "major";
+    const comment: ReviewComment = {
+      id,
+      reviewerId: asOptionalString(item.reviewerId) ?? "reviewer",
+      body,
+      ...normalizeCommentLocation(item),
+      severity,
+      category: asOptionalString(item.category) ?? "other",
+      resolved: item.resolved === true,
+      createdAt: typeof item.createdAt === "number" ? item.createdAt : 0,
+    };
+    if (typeof item.resolvedAt === "number") comment.resolvedAt = item.resolvedAt;
+    comments.push(comment);
+  }
+  return comments;
+}
+
+function normalizeReviewVotes(value: unknown): ReviewVote[] {
+  if (!Array.isArray(value)) return [];
+  const votes: ReviewVote[] = [];
+  for (const item of value) {
+    if (!isRecord(item)) continue;
+    const reviewerId = asOptionalString(item.reviewerId);
+    if (!reviewerId || (item.verdict !== "approved" && item.verdict !== "rejected")) continue;
+    votes.push({
+      reviewerId,
+      sdk: asOptionalString(item.sdk) ?? "unknown",
+      model: asOptionalString(item.model) ?? "unknown",
+      verdict: item.verdict,
+      comments: normalizeReviewVoteComments(item.comments),
+      resolved: Array.isArray(item.resolved) ? asStringArray(item.resolved) : undefined,
+      security: item.security === true ? true : undefined,
+      coverage: isRecord(item.coverage)
+        ? { reviewed: asStringArray(item.coverage.reviewed), unreviewed: asStringArray(item.coverage.unreviewed) }
+        : undefined,
+      timestamp: typeof item.timestamp === "number" ? item.timestamp : 0,
+    });
+  }
+  return votes;
+}
+
+function normalizeUsageRecord(value: unknown): Record<string, UsageTotals> {
+  if (!isRecord(value)) return {};
+  const record: Record<string, UsageTotals> = {};
+  for (const [key, totals] of Object.entries(value)) {
+    const normalized = normalizeUsageTotals(totals);
+    if (normalized) record[key] = normalized;
+  }
+  return record;
+}
+
+function normalizeUsageReport(value: unknown): UsageReport | null {
+  if (!isRecord(value)) return null;
+  const total = normalizeUsageTotals(value.total);
+  if (!total) return null;
+
+  return {
+    total,
+    byAgent: normalizeUsageRecord(value.byAgent),
+    byTask: normalizeUsageRecord(value.byTask),
+    byModel: normalizeUsageRecord(value.byModel),
+    unpricedModels: asStringArray(value.unpricedModels),
+  };
+}
+
 function normalizeTaskEvent(value: unknown): TaskEvent | null {
   if (!isRecord(value)) return null;
 
@@ -189,19 +339,112 @@ function normalizeTask(value: unknown): Task | null {
   const epic = asOptionalString(value.epic);
   const branch = asOptionalString(value.branch);
   const dependsOn = asStringArray(value.dependsOn);
-  const reviewComments = asStringArray(value.reviewComments);
+  const blockedBy = asOptionalString(value.blockedBy);
+  const reviewComments = normalizeReviewComments(value.reviewComments);
+  const reviewVotes = normalizeReviewVotes(value.reviewVotes);
   const artifacts = normalizeArtifacts(value.artifacts);
+  const usage = normalizeUsageTotals(value.usage);
+  const mergeConflict = normalizeMergeConflict(value.mergeConflict);
+  const pullRequest = normalizePullRequest(value.pullRequest);
 
   if (assignee) task.assignee = assignee;
   if (epic) task.epic = epic;
   if (branch) task.branch = branch;
   if (dependsOn.length > 0) task.dependsOn = dependsOn;
+  if (blockedBy) task.blockedBy = blockedBy;
   if (reviewComments.length > 0) task.reviewComments = reviewComments;
+  if (reviewVotes.length > 0) task.reviewVotes = reviewVotes;
   if (artifacts) task.artifacts = artifacts;
+  if (usage) task.usage = usage;
+  if (mergeConflict) task.mergeConflict = mergeConflict;
+  if (pullRequest) task.pullRequest = pullRequest;
 
   return task;
 }
 
+function normalizeMergeConflict(value: unknown): MergeConflictReport | undefined {
+  if (!isRecord(value)) return undefined;
+  const files = asStringArray(value.files);
+  if (files.length === 0) return undefined;
+
+  const hunks = Array.isArray(value.hunks)
+    ? value.hunks.flatMap((item): ConflictHunk[] => {
+      if (!isRecord(item)) return [];
+      const file = asOptionalString(item.file);
+      if (!file) return [];
+      return [{
+        file,
+        startLine: typeof item.startLine === "number" ? item.startLine : 0,
+        branch: asOptionalString(item.branch) ?? "",
+        main: asOptionalString(item.main) ?? "",
+      }];
+    })
+    : [];
+
+  return {
+    stage: value.stage === "merge" ? "merge" : "review",
+    files,
+    hunks,
+    attempts: typeof value.attempts === "number" ? value.attempts : 1,
+    detectedAt: typeof value.detectedAt === "number" ? value.detectedAt : 0,
+  };
+}
+
+function normalizePullRequest(value: unknown): TaskPullRequest | undefined {
+  if (!isRecord(value)) return undefined;
+  const url = asOptionalString(value.url);
+  if (!url || typeof value.number !== "number") return undefined;
+
+  return {
+    provider: value.provider === "gitlab" || value.provider === "gitea" ? value.provider : "github",
+    number: value.number,
+    url,
+    state: value.state === "merged" || value.state === "closed" ? value.state : "open",
+    mirroredCommentIds: asStringArray(value.mirroredCommentIds),
+  };
+}
+
+function asIdPaths(value: unknown): string[][] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(Array.isArray).map((path) => asStringArray(path));
+}
+
+function normalizeDependencyGraph(value: unknown): DependencyGraphReport | null {
+  if (!isRecord(value)) return null;
+
+  const chainLength: Record<string, number> = {};
+  if (isRecord(value.chainLength)) {
+    for (const [taskId, length] of Object.entries(value.chainLength)) {
+      chainLength[taskId] = asCount(length);
+    }
+  }
+
+  return {
+    cycles: asIdPaths(value.cycles),
+    dangling: Array.isArray(value.dangling)
+      ? value.dangling.flatMap((item) => {
+        if (!isRecord(item)) return [];
+        const taskId = asOptionalString(item.taskId);
+        const dependsOn = asOptionalString(item.dependsOn);
+        return taskId && dependsOn ? [{ taskId, dependsOn }] : [];
+      })
+      : [],
+    schedule: asIdPaths(value.schedule),
+    criticalPath: asStringArray(value.criticalPath),
+    chainLength,
+    unschedulable: Array.isArray(value.unschedulable)
+      ? value.unschedulable.flatMap((item): UnschedulableTask[] => {
+        if (!isRecord(item)) return [];
+        const taskId = asOptionalString(item.taskId);
+        const rootTaskId = asOptionalString(item.rootTaskId);
+        if (!taskId || !rootTaskId) return [];
+        const reason = item.reason === "dangling" || item.reason === "cycle" ? item.reason : "blocked";
+        return [{ taskId, reason, rootTaskId, chain: asStringArray(item.chain) }];
+      })
+      : [],
+  };
+}
+
 function normalizeEventData(value: unknown): AgentEventData | undefined {
   if (!isRecord(value)) return undefined;
 
@@ -260,11 +503,90 @@ function normalizeAgentEvent(value: unknown): AgentEvent | null {
   return event;
 }
 
+function normalizeRun(value: unknown): OrchestrationRun | null {
+  if (!isRecord(value)) return null;
+
+  const id = asOptionalString(value.id);
+  if (!id || !isRunStatus(value.status)) return null;
+
+  const run: OrchestrationRun = {
+    id,
+    specFile: asOptionalString(value.specFile) ?? "",
+    configFile: asOptionalString(value.configFile) ?? "",
+    outputDir: asOptionalString(value.outputDir) ?? "",
+    status: value.status,
+    startedAt: typeof value.startedAt === "number" ? value.startedAt : Date.now(),
+    resumeCount: typeof value.resumeCount === "number" ? value.resumeCount : 0,
+  };
+
+  const error = asOptionalString(value.error);
+  if (typeof value.endedAt === "number") run.endedAt = value.endedAt;
+  if (error) run.error = error;
+
+  return run;
+}
+
+async function postJson(path: string, body?: unknown): Promise<unknown> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (API_TOKEN) headers.Authorization = `Bearer ${API_TOKEN}`;
+
+  const res = await fetch(`${API_URL}${path}`, {
+    method: "POST",
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const payload: unknown = await res.json().catch(() => null);
+  if (!res.ok) {
+    const message = isRecord(payload) ? asOptionalString(payload.error) : undefined;
+    throw new Error(message ?? `Request failed (${res.status})`);
+  }
+  return payload;
+}
+
+/**
+ * Branch diff for one task, refetched whenever `revision` changes (the caller
+ * passes something that moves with the task, such as its history length).
+ */
+export function useTaskDiff(taskId: string | undefined, revision: number): string | null {
+  const [loaded, setLoaded] = useState<{ taskId: string; diff: string } | null>(null);
+
+  useEffect(() => {
+    if (!taskId) return;
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const res = await fetch(`${API_URL}/api/tasks/${encodeURIComponent(taskId)}/diff`);
+        if (!res.ok) return;
+        const payload: unknown = await res.json();
+        if (!cancelled && isRecord(payload) && typeof payload.diff === "string") {
+          setLoaded({ taskId, diff: payload.diff });
+        }
+      } catch {
+        // Comments still render without the diff
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [taskId, revision]);
+
+  return loaded && loaded.taskId === taskId ? loaded.diff : null;
+}
+
 export function useApi() {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [events, setEvents] = useState<AgentEvent[]>([]);
   const [status, setStatus] = useState<ConnectionStatus>("connecting");
+  const [runs, setRuns] = useState<OrchestrationRun[]>([]);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [usage, setUsage] = useState<UsageReport | null>(null);
+  const [graph, setGraph] = useState<DependencyGraphReport | null>(null);
   const eventSourceRef = useRef<EventSource | null>(null);
+  // Last persisted event id seen; reconnects replay from here instead of dropping history.
+  // The first connection takes live events only, since onopen fetches the current snapshot.
+  // Ids are opaque: the API server prefixes them with the run they belong to.
+  const lastEventIdRef = useRef<string | null>(null);
 
   const fetchTasks = useCallback(async () => {
     try {
@@ -283,14 +605,96 @@ export function useApi() {
     }
   }, []);
 
+  const fetchGraph = useCallback(async () => {
+    try {
+      const res = await fetch(`${API_URL}/api/tasks/graph`);
+      if (res.ok) {
+        setGraph(normalizeDependencyGraph(await res.json()));
+      }
+    } catch {
+      // SSE reconnect will retry
+    }
+  }, []);
+
+  const fetchUsage = useCallback(async () => {
+    try {
+      const res = await fetch(`${API_URL}/api/usage`);
+      if (res.ok) {
+        setUsage(normalizeUsageReport(await res.json()));
+      }
+    } catch {
+      // SSE reconnect will retry
+    }
+  }, []);
+
+  const fetchRuns = useCallback(async () => {
+    try {
+      const res = await fetch(`${API_URL}/api/runs`);
+      if (res.ok) {
+        const payload: unknown = await res.json();
+        if (Array.isArray(payload)) {
+          setRuns(payload
+            .map((item) => normalizeRun(item))
+            .filter((run): run is OrchestrationRun => run !== null));
+        }
+      }
+    } catch {
+      // SSE reconnect will retry
+    }
+  }, []);
+
+  const controlRun = useCallback(async (path: string, body?: unknown) => {
+    setRunError(null);
+    try {
+      await postJson(path, body);
+    } catch (error) {
+      setRunError(error instanceof Error ? error.message : String(error));
+    }
+    await Promise.all([fetchRuns(), fetchTasks(), fetchGraph()]);
+  }, [fetchRuns, fetchTasks, fetchGraph]);
+
+  const startRun = useCallback(
+    (specFile: string, configFile: string, outputDir: string, resume = false) =>
+      controlRun("/api/runs", { specFile, configFile, outputDir, resume }),
+    [controlRun],
+  );
+  const stopRun = useCallback(
+    (runId: string) => controlRun(`/api/runs/${encodeURIComponent(runId)}/stop`),
+    [controlRun],
+  );
+  const resumeRun = useCallback(
+    (runId: string) => controlRun(`/api/runs/${encodeURIComponent(runId)}/resume`),
+    [controlRun],
+  );
+  const controlScheduler = useCallback(
+    (action: SchedulerAction) => controlRun(`/api/scheduler/${action}`),
+    [controlRun],
+  );
+
   useEffect(() => {
+    const pendingRefetches = new Set<() => Promise<void>>();
+    let refetchTimer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleRefetch = (fetcher: () => Promise<void>) => {
+      pendingRefetches.add(fetcher);
+      refetchTimer ??= setTimeout(() => {
+        refetchTimer = null;
+        const fetchers = [...pendingRefetches];
+        pendingRefetches.clear();
+        for (const refetch of fetchers) void refetch();
+      }, REFETCH_DEBOUNCE_MS);
+    };
+
     const connect = () => {
-      const es = new EventSource(`${API_URL}/api/events`);
+      const since = lastEventIdRef.current;
+      const es = new EventSource(`${API_URL}/api/events${since === null ? "" : `?since=${encodeURIComponent(since)}`}`);
       eventSourceRef.current = es;
 
       es.onopen = () => {
         setStatus("connected");
         fetchTasks();
+        fetchGraph();
+        fetchRuns();
+        fetchUsage();
       };
 
       es.onmessage = (e) => {
@@ -299,14 +703,31 @@ export function useApi() {
           const event = normalizeAgentEvent(payload);
           if (!event) return;
 
+          if (e.lastEventId) {
+            lastEventIdRef.current = e.lastEventId;
+          }
+
           setEvents((prev) => [event, ...prev].slice(0, 200));
 
           if (
             event.type === "task:created"
             || event.type === "task:assigned"
             || event.type === "task:status_changed"
+            || event.type === "task:updated"
           ) {
-            fetchTasks();
+            scheduleRefetch(fetchTasks);
+            // The graph endpoint re-analyzes the whole board, so it shares the debounce
+            scheduleRefetch(fetchGraph);
+          }
+
+          // Usage is reported once per agent turn
+          if (event.data?.usage !== undefined || event.type === "project:completed") {
+            scheduleRefetch(fetchUsage);
+          }
+
+          // Run status flips on project start/completion and run-manager messages
+          if (event.type.startsWith("project:") || event.agentId === "run-manager") {
+            scheduleRefetch(fetchRuns);
           }
         } catch {
           // Ignore malformed SSE messages
@@ -323,9 +744,10 @@ export function useApi() {
     connect();
 
     return () => {
+      if (refetchTimer !== null) clearTimeout(refetchTimer);
       eventSourceRef.current?.close();
     };
-  }, [fetchTasks]);
+  }, [fetchTasks, fetchGraph, fetchRuns, fetchUsage]);
 
-  return { tasks, events, status };
+  return { tasks, graph, events, status, usage, runs, runError, startRun, stopRun, resumeRun, controlScheduler };
 }
@@ -21,6 +21,86 @@ export interface TaskEvent {
   artifacts?: Artifact[];
 }
 
+export type ReviewSeverity = "blocker" | "major" | "nit";
+
+export interface ReviewCommentLocation {
+  file?: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+export interface ReviewVoteComment extends ReviewCommentLocation {
+  body: string;
+  severity?: ReviewSeverity;
+  category?: string;
+}
+
+export interface ReviewComment extends ReviewCommentLocation {
+  id: string;
+  reviewerId: string;
+  body: string;
+  severity: ReviewSeverity;
+  category: string;
+  resolved: boolean;
+  createdAt: number;
+  resolvedAt?: number;
+}
+
+export interface ReviewCoverage {
+  reviewed: string[];
+  unreviewed: string[];
+}
+
+export interface ReviewVote {
+  reviewerId: string;
+  sdk: string;
+  model: string;
+  verdict: "approved" | "rejected";
+  comments: ReviewVoteComment[];
+  resolved?: string[];
+  security?: boolean;
+  coverage?: ReviewCoverage;
+  timestamp: number;
+}
+
+export interface ConflictHunk {
+  file: string;
+  startLine: number;
+  branch: string;
+  main: string;
+}
+
+export interface MergeConflictReport {
+  stage: "review" | "merge";
+  files: string[];
+  hunks: ConflictHunk[];
+  attempts: number;
+  detectedAt: number;
+}
+
+export interface TaskPullRequest {
+  provider: "github" | "gitlab" | "gitea";
+  number: number;
+  url: string;
+  state: "open" | "merged" | "closed";
+  mirroredCommentIds: string[];
+}
+
+export interface UsageTotals {
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface UsageReport {
+  total: UsageTotals;
+  byAgent: Record<string, UsageTotals>;
+  byTask: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  unpricedModels: string[];
+}
+
 export interface Task {
   id: string;
   title: string;
@@ -34,9 +114,32 @@ export interface Task {
   retryCount: number;
   history: TaskEvent[];
   createdBy: string;
-  reviewComments?: string[];
+  reviewComments?: ReviewComment[];
+  reviewVotes?: ReviewVote[];
+  mergeConflict?: MergeConflictReport;
+  pullRequest?: TaskPullRequest;
   dependsOn?: string[];
+  /** The permanently blocked task this one waits on. */
+  blockedBy?: string;
   artifacts?: Artifact[];
+  usage?: UsageTotals;
+}
+
+/** `GET /api/tasks/graph`: dependency problems, schedule and critical path of the board. */
+export interface DependencyGraphReport {
+  cycles: string[][];
+  dangling: { taskId: string; dependsOn: string }[];
+  schedule: string[][];
+  criticalPath: string[];
+  chainLength: Record<string, number>;
+  unschedulable: UnschedulableTask[];
+}
+
+export interface UnschedulableTask {
+  taskId: string;
+  reason: "blocked" | "dangling" | "cycle";
+  rootTaskId: string;
+  chain: string[];
 }
 
 export type EventType =
@@ -47,6 +150,7 @@ export type EventType =
   | "task:created"
   | "task:assigned"
   | "task:status_changed"
+  | "task:updated"
   | "review:started"
   | "review:approved"
   | "review:rejected"
@@ -79,3 +183,17 @@ export interface AgentEvent {
   detail?: string;
   data?: AgentEventData;
 }
+
+export type RunStatus = "running" | "stopping" | "stopped" | "completed" | "failed";
+
+export interface OrchestrationRun {
+  id: string;
+  specFile: string;
+  configFile: string;
+  outputDir: string;
+  status: RunStatus;
+  startedAt: number;
+  endedAt?: number;
+  error?: string;
+  resumeCount: number;
+}